@@ -0,0 +1,52 @@
+// Local webhook receiver for trying out WEBHOOK_URLS without a CRM.
+//   WEBHOOK_SECRET=dev-secret node scripts/webhook-echo.mjs
+// then set WEBHOOK_URLS=http://localhost:4010/ and the same WEBHOOK_SECRET for the app.
+// ECHO_FAIL=2 answers the first two deliveries with a 500 to exercise retries.
+import crypto from 'crypto';
+import http from 'http';
+
+const port = Number(process.env.PORT ?? 4010);
+const secret = process.env.WEBHOOK_SECRET;
+const toleranceSeconds = 5 * 60;
+let failuresLeft = Number(process.env.ECHO_FAIL ?? 0);
+
+if (!secret) {
+  console.error('Set WEBHOOK_SECRET to the value the app signs with');
+  process.exit(1);
+}
+
+// Same check a real receiver should make: HMAC over "<timestamp>.<raw body>",
+// compared in constant time, and old timestamps refused to stop replays
+const verify = (request, body) => {
+  const timestamp = Number(request.headers['x-luminare-timestamp']);
+  const signature = String(request.headers['x-luminare-signature'] ?? '');
+  if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  return signature.length === expected.length && crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+};
+
+http.createServer((request, response) => {
+  const chunks = [];
+  request.on('data', chunk => chunks.push(chunk));
+  request.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const delivery = request.headers['x-luminare-delivery'];
+
+    if (!verify(request, body)) {
+      console.warn(`Rejected ${delivery}: bad signature`);
+      response.writeHead(401).end('Invalid signature');
+      return;
+    }
+    if (failuresLeft > 0) {
+      failuresLeft -= 1;
+      console.warn(`Failing ${delivery} on purpose`);
+      response.writeHead(500).end('Simulated failure');
+      return;
+    }
+
+    console.log(`${request.headers['x-luminare-event']} ${delivery}`);
+    console.log(JSON.stringify(JSON.parse(body), null, 2));
+    response.writeHead(204).end();
+  });
+}).listen(port, () => console.log(`Webhook echo listening on http://localhost:${port}/`));
@@ -0,0 +1,16 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { requireAdmin } from "../../../utils/adminAuth";
+import { isEnquiryStatus, updateEnquiryStatus } from "../../../utils/enquiryStore";
+
+export async function updateEnquiryStatusAction(formData: FormData) {
+  await requireAdmin();
+
+  const id = formData.get("id");
+  const status = formData.get("status");
+  if (typeof id !== "string" || !isEnquiryStatus(status)) return;
+
+  await updateEnquiryStatus(id, status);
+  revalidatePath("/admin/enquiries");
+}
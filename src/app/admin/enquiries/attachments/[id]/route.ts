@@ -0,0 +1,29 @@
+import { readUpload } from "../../../../../utils/uploadStore";
+
+// Files come from the upload store on every request
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface AttachmentRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: AttachmentRouteContext) {
+  const { id } = await params;
+  const stored = await readUpload(id);
+  if (!stored) {
+    return new Response("Attachment not found", { status: 404 });
+  }
+
+  // Always a download: visitor files are never rendered on the admin origin
+  const { upload, data } = stored;
+  return new Response(new Uint8Array(data), {
+    headers: {
+      "Content-Type": upload.contentType,
+      "Content-Length": String(data.length),
+      "Content-Disposition": `attachment; filename="${upload.filename.replace(/[^\x20-\x7e]/g, "_")}"; filename*=UTF-8''${encodeURIComponent(upload.filename)}`,
+      "X-Content-Type-Options": "nosniff",
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
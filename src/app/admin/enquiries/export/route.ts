@@ -0,0 +1,22 @@
+import { enquiriesToCsv, isEnquiryStatus, listEnquiries } from "../../../../utils/enquiryStore";
+
+export const dynamic = "force-dynamic";
+
+// CSV of the enquiries matching the same ?status= and ?q= filters as the listing
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get("status");
+  const enquiries = await listEnquiries({
+    status: isEnquiryStatus(status) ? status : undefined,
+    query: searchParams.get("q") ?? undefined,
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+  return new Response(enquiriesToCsv(enquiries), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="enquiries-${date}.csv"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
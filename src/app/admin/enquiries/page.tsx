@@ -0,0 +1,189 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { ENQUIRY_STATUSES, EnquiryStatus } from "../../../types/enquiries";
+import { isEnquiryStatus, listEnquiries } from "../../../utils/enquiryStore";
+import { getPortfolioProjects } from "../../../utils/portfolioContent";
+import { getBriefSummary } from "../../../utils/projectBrief";
+import { formatFileSize } from "../../../utils/uploadRules";
+import { updateEnquiryStatusAction } from "./actions";
+
+interface EnquiriesPageProps {
+  searchParams: Promise<{ status?: string; q?: string }>;
+}
+
+// Always read the store fresh
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Enquiries - Luminare Studio admin",
+};
+
+const STATUS_LABELS: Record<EnquiryStatus, string> = {
+  new: "New",
+  contacted: "Contacted",
+  won: "Won",
+  lost: "Lost",
+};
+
+const dateFormat = new Intl.DateTimeFormat("en-GB", { dateStyle: "medium", timeStyle: "short" });
+
+export default async function EnquiriesPage({ searchParams }: EnquiriesPageProps) {
+  const { status, q } = await searchParams;
+  const activeStatus = isEnquiryStatus(status) ? status : undefined;
+  const query = q?.trim() || undefined;
+  const enquiries = await listEnquiries({ status: activeStatus, query });
+  const styleTitles = Object.fromEntries(getPortfolioProjects().map((project) => [project.slug, project.title]));
+
+  // Export exactly what is listed
+  const exportParams = new URLSearchParams();
+  if (activeStatus) exportParams.set("status", activeStatus);
+  if (query) exportParams.set("q", query);
+  const exportHref = `/admin/enquiries/export${exportParams.size > 0 ? `?${exportParams}` : ""}`;
+
+  return (
+    <main className="container mx-auto px-4 py-10 max-w-6xl">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-8">
+        <div>
+          <h1 className="font-display text-3xl md:text-4xl font-light" style={{ color: 'var(--foreground)' }}>
+            Enquiries
+          </h1>
+          <p className="text-sm mt-1" style={{ color: 'var(--typography-secondary)' }}>
+            {enquiries.length} {enquiries.length === 1 ? "enquiry" : "enquiries"}
+            {activeStatus && ` marked ${STATUS_LABELS[activeStatus].toLowerCase()}`}
+            {query && ` matching "${query}"`}
+          </p>
+        </div>
+
+        {/* Filters - a plain GET form so filtered views can be bookmarked */}
+        <form className="flex flex-wrap items-center gap-3 text-sm" method="get">
+          <label className="sr-only" htmlFor="enquiry-status">Status</label>
+          <select
+            id="enquiry-status"
+            name="status"
+            defaultValue={activeStatus ?? ""}
+            className="px-3 py-2 border rounded-lg bg-transparent"
+            style={{ borderColor: 'var(--accent-1)', color: 'var(--foreground)' }}
+          >
+            <option value="">All statuses</option>
+            {ENQUIRY_STATUSES.map((value) => (
+              <option key={value} value={value}>{STATUS_LABELS[value]}</option>
+            ))}
+          </select>
+          <label className="sr-only" htmlFor="enquiry-search">Search</label>
+          <input
+            id="enquiry-search"
+            type="search"
+            name="q"
+            defaultValue={query ?? ""}
+            placeholder="Name, email or message"
+            className="px-3 py-2 border rounded-lg bg-transparent"
+            style={{ borderColor: 'var(--accent-1)', color: 'var(--foreground)' }}
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 rounded-full border hover:opacity-70 transition-opacity duration-300"
+            style={{ borderColor: 'var(--foreground)', color: 'var(--foreground)' }}
+          >
+            Filter
+          </button>
+          <a
+            href={exportHref}
+            className="px-4 py-2 rounded-full hover:opacity-80 transition-opacity duration-300"
+            style={{ background: 'var(--foreground)', color: 'var(--background)' }}
+          >
+            Export CSV
+          </a>
+        </form>
+      </div>
+
+      {enquiries.length === 0 ? (
+        <p className="py-16 text-center" style={{ color: 'var(--typography-secondary)' }}>
+          No enquiries yet{activeStatus || query ? " for this filter" : ""}.{" "}
+          {(activeStatus || query) && (
+            <Link href="/admin/enquiries" className="underline underline-offset-4">Show all</Link>
+          )}
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-xl shadow-lg" style={{ background: 'var(--secondary-background)' }}>
+          <table className="w-full text-sm text-left">
+            <thead style={{ color: 'var(--typography-secondary)' }}>
+              <tr className="border-b" style={{ borderColor: 'var(--accent-1)' }}>
+                <th scope="col" className="px-4 py-3 font-medium">Received</th>
+                <th scope="col" className="px-4 py-3 font-medium">From</th>
+                <th scope="col" className="px-4 py-3 font-medium">Message</th>
+                <th scope="col" className="px-4 py-3 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody style={{ color: 'var(--foreground)' }}>
+              {enquiries.map((enquiry) => (
+                <tr key={enquiry.id} className="border-b last:border-b-0 align-top" style={{ borderColor: 'var(--accent-1)' }}>
+                  <td className="px-4 py-4 whitespace-nowrap">{dateFormat.format(new Date(enquiry.createdAt))}</td>
+                  <td className="px-4 py-4">
+                    <div>{enquiry.name}</div>
+                    <a href={`mailto:${enquiry.email}`} className="underline-offset-4 hover:underline" style={{ color: 'var(--typography-secondary)' }}>
+                      {enquiry.email}
+                    </a>
+                  </td>
+                  <td className="px-4 py-4 max-w-md">
+                    {enquiry.brief && (
+                      <span className="inline-block mb-1 px-2 py-0.5 rounded-full text-xs" style={{ background: 'var(--accent-1)' }}>
+                        Project brief
+                      </span>
+                    )}
+                    {enquiry.brief ? (
+                      <dl className="space-y-1">
+                        {getBriefSummary(enquiry.brief, styleTitles).map(({ label, value }) => (
+                          <div key={label} className="flex gap-2">
+                            <dt className="shrink-0 w-16" style={{ color: 'var(--typography-secondary)' }}>{label}</dt>
+                            <dd className="whitespace-pre-line">{value}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                    ) : (
+                      <p className="whitespace-pre-line line-clamp-4">{enquiry.message}</p>
+                    )}
+                    {enquiry.attachments && enquiry.attachments.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {enquiry.attachments.map((file) => (
+                          <li key={file.id}>
+                            <a
+                              href={`/admin/enquiries/attachments/${file.id}`}
+                              className="underline underline-offset-4 hover:opacity-70"
+                            >
+                              {file.filename}
+                            </a>{" "}
+                            <span style={{ color: 'var(--typography-secondary)' }}>({formatFileSize(file.size)})</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                  <td className="px-4 py-4">
+                    <form action={updateEnquiryStatusAction} className="flex items-center gap-2">
+                      <input type="hidden" name="id" value={enquiry.id} />
+                      <label className="sr-only" htmlFor={`status-${enquiry.id}`}>Status for {enquiry.name}</label>
+                      <select
+                        id={`status-${enquiry.id}`}
+                        name="status"
+                        defaultValue={enquiry.status}
+                        className="px-2 py-1 border rounded-lg bg-transparent"
+                        style={{ borderColor: 'var(--accent-1)' }}
+                      >
+                        {ENQUIRY_STATUSES.map((value) => (
+                          <option key={value} value={value}>{STATUS_LABELS[value]}</option>
+                        ))}
+                      </select>
+                      <button type="submit" className="text-xs underline underline-offset-4 hover:opacity-70">
+                        Save
+                      </button>
+                    </form>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,37 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+
+// Studio-only pages, protected by src/middleware.ts
+export const metadata: Metadata = {
+  title: "Luminare Studio admin",
+  robots: { index: false, follow: false },
+};
+
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen" style={{ background: 'var(--background)' }}>
+      <header className="border-b" style={{ borderColor: 'var(--accent-1)' }}>
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between max-w-6xl">
+          <span className="font-display text-xl font-light" style={{ color: 'var(--foreground)' }}>
+            Studio admin
+          </span>
+          <nav className="flex gap-6 text-sm" style={{ color: 'var(--typography-secondary)' }}>
+            <Link href="/admin/enquiries" className="hover:opacity-70 transition-opacity duration-300">
+              Enquiries
+            </Link>
+            <Link href="/admin/webhooks" className="hover:opacity-70 transition-opacity duration-300">
+              Webhooks
+            </Link>
+            <Link href="/admin/newsletter" className="hover:opacity-70 transition-opacity duration-300">
+              Newsletter
+            </Link>
+            <Link href="/" className="hover:opacity-70 transition-opacity duration-300">
+              View site
+            </Link>
+          </nav>
+        </div>
+      </header>
+      {children}
+    </div>
+  );
+}
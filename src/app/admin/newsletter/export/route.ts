@@ -0,0 +1,22 @@
+import { getSiteUrl } from "../../../../utils/mailTemplate";
+import { getUnsubscribeUrl } from "../../../../utils/newsletterMail";
+import { isSubscriberStatus, listSubscribers, subscribersToCsv } from "../../../../utils/newsletterStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// CSV of the subscribers matching ?status=, each with its one-click unsubscribe link
+export async function GET(request: Request) {
+  const status = new URL(request.url).searchParams.get("status");
+  const subscribers = await listSubscribers(isSubscriberStatus(status) ? status : undefined);
+  const siteUrl = getSiteUrl(request);
+
+  const date = new Date().toISOString().slice(0, 10);
+  return new Response(subscribersToCsv(subscribers, (subscriber) => getUnsubscribeUrl(siteUrl, subscriber)), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="newsletter-subscribers-${date}.csv"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
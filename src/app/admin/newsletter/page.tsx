@@ -0,0 +1,108 @@
+import type { Metadata } from "next";
+import { SUBSCRIBER_STATUSES, SubscriberStatus } from "../../../types/newsletter";
+import { isSubscriberStatus, listSubscribers } from "../../../utils/newsletterStore";
+
+interface NewsletterAdminPageProps {
+  searchParams: Promise<{ status?: string }>;
+}
+
+// Always read the store fresh
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Newsletter - Luminare Studio admin",
+};
+
+const STATUS_LABELS: Record<SubscriberStatus, string> = {
+  pending: "Awaiting confirmation",
+  subscribed: "Subscribed",
+  unsubscribed: "Unsubscribed",
+};
+
+const dateFormat = new Intl.DateTimeFormat("en-GB", { dateStyle: "medium", timeStyle: "short" });
+
+export default async function NewsletterAdminPage({ searchParams }: NewsletterAdminPageProps) {
+  const { status } = await searchParams;
+  const activeStatus = isSubscriberStatus(status) ? status : undefined;
+  const subscribers = await listSubscribers(activeStatus);
+  const exportHref = `/admin/newsletter/export${activeStatus ? `?status=${activeStatus}` : ""}`;
+
+  return (
+    <main className="container mx-auto px-4 py-10 max-w-6xl">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-8">
+        <div>
+          <h1 className="font-display text-3xl md:text-4xl font-light" style={{ color: 'var(--foreground)' }}>
+            Newsletter
+          </h1>
+          <p className="text-sm mt-1" style={{ color: 'var(--typography-secondary)' }}>
+            {subscribers.length} {subscribers.length === 1 ? "address" : "addresses"}
+            {activeStatus && ` - ${STATUS_LABELS[activeStatus].toLowerCase()}`}
+          </p>
+        </div>
+
+        <form className="flex flex-wrap items-center gap-3 text-sm" method="get">
+          <label className="sr-only" htmlFor="subscriber-status">Status</label>
+          <select
+            id="subscriber-status"
+            name="status"
+            defaultValue={activeStatus ?? ""}
+            className="px-3 py-2 border rounded-lg bg-transparent"
+            style={{ borderColor: 'var(--accent-1)', color: 'var(--foreground)' }}
+          >
+            <option value="">All statuses</option>
+            {SUBSCRIBER_STATUSES.map((value) => (
+              <option key={value} value={value}>{STATUS_LABELS[value]}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="px-4 py-2 rounded-full border hover:opacity-70 transition-opacity duration-300"
+            style={{ borderColor: 'var(--foreground)', color: 'var(--foreground)' }}
+          >
+            Filter
+          </button>
+          <a
+            href={exportHref}
+            className="px-4 py-2 rounded-full hover:opacity-80 transition-opacity duration-300"
+            style={{ background: 'var(--foreground)', color: 'var(--background)' }}
+          >
+            Export CSV
+          </a>
+        </form>
+      </div>
+
+      {subscribers.length === 0 ? (
+        <p className="py-16 text-center" style={{ color: 'var(--typography-secondary)' }}>
+          No subscribers yet{activeStatus ? " with this status" : ""}.
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-xl shadow-lg" style={{ background: 'var(--secondary-background)' }}>
+          <table className="w-full text-sm text-left">
+            <thead style={{ color: 'var(--typography-secondary)' }}>
+              <tr className="border-b" style={{ borderColor: 'var(--accent-1)' }}>
+                <th scope="col" className="px-4 py-3 font-medium">Email</th>
+                <th scope="col" className="px-4 py-3 font-medium">Status</th>
+                <th scope="col" className="px-4 py-3 font-medium">Signed up</th>
+                <th scope="col" className="px-4 py-3 font-medium">Confirmed</th>
+                <th scope="col" className="px-4 py-3 font-medium">From</th>
+              </tr>
+            </thead>
+            <tbody style={{ color: 'var(--foreground)' }}>
+              {subscribers.map((subscriber) => (
+                <tr key={subscriber.id} className="border-b last:border-b-0" style={{ borderColor: 'var(--accent-1)' }}>
+                  <td className="px-4 py-3 break-all">{subscriber.email}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">{STATUS_LABELS[subscriber.status]}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">{dateFormat.format(new Date(subscriber.createdAt))}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {subscriber.confirmedAt ? dateFormat.format(new Date(subscriber.confirmedAt)) : "-"}
+                  </td>
+                  <td className="px-4 py-3 capitalize">{subscriber.source}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </main>
+  );
+}
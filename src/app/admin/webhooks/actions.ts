@@ -0,0 +1,15 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { requireAdmin } from "../../../utils/adminAuth";
+import { redeliverWebhook } from "../../../utils/leadWebhooks";
+
+export async function redeliverWebhookAction(formData: FormData) {
+  await requireAdmin();
+
+  const id = formData.get("id");
+  if (typeof id !== "string") return;
+
+  await redeliverWebhook(id);
+  revalidatePath("/admin/webhooks");
+}
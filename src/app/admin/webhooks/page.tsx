@@ -0,0 +1,95 @@
+import type { Metadata } from "next";
+import type { WebhookDelivery, WebhookDeliveryStatus } from "../../../types/webhooks";
+import { listWebhookDeliveries } from "../../../utils/leadWebhooks";
+import { redeliverWebhookAction } from "./actions";
+
+// Always read the delivery log fresh
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Webhooks - Luminare Studio admin",
+};
+
+const STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+  pending: "Pending",
+  delivered: "Delivered",
+  failed: "Failed",
+};
+
+const dateFormat = new Intl.DateTimeFormat("en-GB", { dateStyle: "medium", timeStyle: "medium" });
+
+const describeLastAttempt = (delivery: WebhookDelivery) => {
+  const attempt = delivery.attempts[delivery.attempts.length - 1];
+  if (!attempt) return "Not sent yet";
+  const result = attempt.responseStatus ? `HTTP ${attempt.responseStatus}` : "No response";
+  return `${result} in ${attempt.durationMs} ms${attempt.error ? ` - ${attempt.error}` : ""}`;
+};
+
+export default async function WebhooksPage() {
+  const deliveries = await listWebhookDeliveries();
+  const isConfigured = Boolean(process.env.WEBHOOK_URLS && process.env.WEBHOOK_SECRET);
+
+  return (
+    <main className="container mx-auto px-4 py-10 max-w-6xl">
+      <div className="mb-8">
+        <h1 className="font-display text-3xl md:text-4xl font-light" style={{ color: 'var(--foreground)' }}>
+          Webhooks
+        </h1>
+        <p className="text-sm mt-1" style={{ color: 'var(--typography-secondary)' }}>
+          {isConfigured
+            ? "New enquiries are sent to the URLs in WEBHOOK_URLS, signed with WEBHOOK_SECRET."
+            : "Set WEBHOOK_URLS and WEBHOOK_SECRET to send new enquiries to your CRM."}
+        </p>
+      </div>
+
+      {deliveries.length === 0 ? (
+        <p className="py-16 text-center" style={{ color: 'var(--typography-secondary)' }}>
+          No webhook deliveries yet.
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-xl shadow-lg" style={{ background: 'var(--secondary-background)' }}>
+          <table className="w-full text-sm text-left">
+            <thead style={{ color: 'var(--typography-secondary)' }}>
+              <tr className="border-b" style={{ borderColor: 'var(--accent-1)' }}>
+                <th scope="col" className="px-4 py-3 font-medium">Created</th>
+                <th scope="col" className="px-4 py-3 font-medium">Event</th>
+                <th scope="col" className="px-4 py-3 font-medium">URL</th>
+                <th scope="col" className="px-4 py-3 font-medium">Status</th>
+                <th scope="col" className="px-4 py-3 font-medium">Last attempt</th>
+                <th scope="col" className="px-4 py-3 font-medium"><span className="sr-only">Actions</span></th>
+              </tr>
+            </thead>
+            <tbody style={{ color: 'var(--foreground)' }}>
+              {deliveries.map((delivery) => (
+                <tr key={delivery.id} className="border-b last:border-b-0 align-top" style={{ borderColor: 'var(--accent-1)' }}>
+                  <td className="px-4 py-4 whitespace-nowrap">{dateFormat.format(new Date(delivery.createdAt))}</td>
+                  <td className="px-4 py-4 whitespace-nowrap">{delivery.eventType}</td>
+                  <td className="px-4 py-4 max-w-xs break-all">{delivery.url}</td>
+                  <td className="px-4 py-4 whitespace-nowrap">
+                    <div>{STATUS_LABELS[delivery.status]}</div>
+                    <div className="text-xs" style={{ color: 'var(--typography-secondary)' }}>
+                      {delivery.attempts.length} {delivery.attempts.length === 1 ? "attempt" : "attempts"}
+                      {delivery.status === "pending" && delivery.nextAttemptAt &&
+                        `, next ${dateFormat.format(new Date(delivery.nextAttemptAt))}`}
+                    </div>
+                  </td>
+                  <td className="px-4 py-4 max-w-sm break-words">{describeLastAttempt(delivery)}</td>
+                  <td className="px-4 py-4">
+                    {delivery.status !== "pending" && (
+                      <form action={redeliverWebhookAction}>
+                        <input type="hidden" name="id" value={delivery.id} />
+                        <button type="submit" className="text-xs underline underline-offset-4 hover:opacity-70">
+                          Redeliver
+                        </button>
+                      </form>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import type { BookingResponse } from "../../../types/booking";
+import { getAvailabilityConfig } from "../../../utils/availabilityConfig";
+import { sendBookingEmails } from "../../../utils/bookingMail";
+import { reserveBooking } from "../../../utils/bookingStore";
+import { validateBookingRequest } from "../../../utils/bookingValidation";
+import { isHoneypotFilled } from "../../../utils/contactValidation";
+import { checkRateLimit, getClientIp } from "../../../utils/rateLimit";
+
+// The booking store and mail transports use node's fs, net and tls modules
+export const runtime = "nodejs";
+
+// Bookings accepted from one IP address per window
+const BOOKING_RATE_LIMIT = { limit: 5, windowMs: 10 * 60 * 1000 };
+
+const SUCCESS_MESSAGE = "Your consultation is booked. A confirmation with a calendar invite is on its way to your inbox.";
+const UNCONFIRMED_MESSAGE =
+  "Your consultation is booked, but we couldn't send the confirmation email. Please note the time - we'll be in touch to confirm.";
+
+const respond = (body: BookingResponse, init?: ResponseInit) => NextResponse.json(body, init);
+
+export async function POST(request: Request) {
+  const rateLimit = checkRateLimit(`booking:${getClientIp(request)}`, BOOKING_RATE_LIMIT);
+  if (!rateLimit.allowed) {
+    return respond(
+      { ok: false, message: "You've made several bookings in a short time. Please try again in a few minutes." },
+      { status: 429, headers: { "Retry-After": String(rateLimit.retryAfter) } }
+    );
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return respond({ ok: false, message: "We couldn't read your booking. Please try again." }, { status: 400 });
+  }
+
+  // Bots fill every field: report success so they move on, but never reserve the slot
+  if (isHoneypotFilled(payload)) {
+    console.warn("Booking form honeypot filled, submission dropped");
+    return respond({ ok: true, message: SUCCESS_MESSAGE });
+  }
+
+  const result = validateBookingRequest(payload);
+  if (!result.success) {
+    return respond(
+      { ok: false, message: result.message ?? "Please check the highlighted fields.", errors: result.errors },
+      { status: 422 }
+    );
+  }
+
+  const config = getAvailabilityConfig();
+  let booking;
+  try {
+    booking = await reserveBooking(result.data, config);
+  } catch (error) {
+    console.error("Consultation could not be booked:", error);
+    return respond(
+      { ok: false, message: "We couldn't book your consultation right now. Please try again later or email us directly." },
+      { status: 500 }
+    );
+  }
+
+  if (!booking) {
+    return respond(
+      { ok: false, message: "Sorry, that time was just taken. Please choose another.", slotTaken: true },
+      { status: 409 }
+    );
+  }
+
+  console.log(`Consultation booked for ${booking.name} <${booking.email}> at ${booking.start}`);
+
+  // The slot is already held, so a failed email does not undo the booking
+  try {
+    await sendBookingEmails(booking, config);
+  } catch (error) {
+    console.error("Booking confirmation could not be emailed:", error);
+    return respond({ ok: true, message: UNCONFIRMED_MESSAGE });
+  }
+
+  return respond({ ok: true, message: SUCCESS_MESSAGE });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import type { SlotsResponse } from "../../../../types/booking";
+import { getAvailabilityConfig } from "../../../../utils/availabilityConfig";
+import { getAvailableSlots } from "../../../../utils/bookingSlots";
+import { listBookings } from "../../../../utils/bookingStore";
+
+// Open slots change with every booking, so never serve them from a cache
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const config = getAvailabilityConfig();
+    const body: SlotsResponse = {
+      ok: true,
+      timeZone: config.timeZone,
+      slotMinutes: config.slotMinutes,
+      slots: getAvailableSlots(config, await listBookings())
+    };
+    return NextResponse.json(body, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("Consultation slots could not be loaded:", error);
+    const body: SlotsResponse = { ok: false, message: "We couldn't load our calendar right now. Please try again later." };
+    return NextResponse.json(body, { status: 500 });
+  }
+}
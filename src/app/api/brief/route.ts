@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import type { BriefResponse } from "../../../types/brief";
+import { isHoneypotFilled } from "../../../utils/contactValidation";
+import { sendEnquiryEmails } from "../../../utils/enquiryMail";
+import { saveEnquiry } from "../../../utils/enquiryStore";
+import { queueEnquiryWebhooks } from "../../../utils/leadWebhooks";
+import { getPortfolioProjects } from "../../../utils/portfolioContent";
+import { formatBriefMessage, validateBrief } from "../../../utils/projectBrief";
+import { checkRateLimit, getClientIp } from "../../../utils/rateLimit";
+import { readAttachmentIds } from "../../../utils/uploadRules";
+import { claimUploads } from "../../../utils/uploadStore";
+
+// The enquiry store and mail transports use node's fs, net and tls modules
+export const runtime = "nodejs";
+
+// Briefs share the contact form's allowance: both create enquiries
+const BRIEF_RATE_LIMIT = { limit: 5, windowMs: 10 * 60 * 1000 };
+
+const SUCCESS_MESSAGE = "Thank you - your brief is with our designers. We'll be in touch within two working days.";
+
+const respond = (body: BriefResponse, init?: ResponseInit) => NextResponse.json(body, init);
+
+export async function POST(request: Request) {
+  const rateLimit = checkRateLimit(`contact:${getClientIp(request)}`, BRIEF_RATE_LIMIT);
+  if (!rateLimit.allowed) {
+    return respond(
+      { ok: false, message: "You've sent several messages in a short time. Please try again in a few minutes." },
+      { status: 429, headers: { "Retry-After": String(rateLimit.retryAfter) } }
+    );
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return respond({ ok: false, message: "We couldn't read your brief. Please try again." }, { status: 400 });
+  }
+
+  // Bots fill every field: report success so they move on, but drop the submission
+  if (isHoneypotFilled(payload)) {
+    console.warn("Project brief honeypot filled, submission dropped");
+    return respond({ ok: true, message: SUCCESS_MESSAGE });
+  }
+
+  // Styles are picked from the portfolio book, so only its projects are accepted
+  const projects = getPortfolioProjects();
+  const result = validateBrief(payload, projects.map((project) => project.slug));
+  if (!result.success) {
+    return respond(
+      { ok: false, message: "Please check the highlighted answers.", errors: result.errors },
+      { status: 422 }
+    );
+  }
+
+  const attachmentIds = readAttachmentIds(payload);
+  const attachments = attachmentIds && await claimUploads(attachmentIds);
+  if (!attachments) {
+    return respond(
+      { ok: false, message: "Some of your attachments could not be found. Please remove them and upload them again." },
+      { status: 422 }
+    );
+  }
+
+  const styleTitles = Object.fromEntries(projects.map((project) => [project.slug, project.title]));
+  const enquiry = { ...result.contact, message: formatBriefMessage(result.brief, styleTitles) };
+  console.log(`Project brief received from ${enquiry.name} <${enquiry.email}>`);
+
+  // Save first: a stored brief is not lost even if the email fails
+  let isStored = false;
+  try {
+    const saved = await saveEnquiry(enquiry, { brief: result.brief, attachments });
+    isStored = true;
+    // Sent in the background so a slow CRM never holds up the visitor
+    queueEnquiryWebhooks(saved);
+  } catch (error) {
+    console.error("Project brief could not be saved:", error);
+  }
+
+  try {
+    await sendEnquiryEmails(enquiry, attachments);
+  } catch (error) {
+    console.error("Project brief could not be emailed:", error);
+    if (isStored) {
+      return respond({ ok: true, message: SUCCESS_MESSAGE });
+    }
+    return respond(
+      { ok: false, message: "We couldn't send your brief right now. Please try again later or email us directly." },
+      { status: 502 }
+    );
+  }
+
+  return respond({ ok: true, message: SUCCESS_MESSAGE });
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import type { ContactResponse } from "../../../types/contact";
+import { isHoneypotFilled, validateContactForm } from "../../../utils/contactValidation";
+import { sendEnquiryEmails } from "../../../utils/enquiryMail";
+import { saveEnquiry } from "../../../utils/enquiryStore";
+import { queueEnquiryWebhooks } from "../../../utils/leadWebhooks";
+import { checkRateLimit, getClientIp } from "../../../utils/rateLimit";
+import { readAttachmentIds } from "../../../utils/uploadRules";
+import { claimUploads } from "../../../utils/uploadStore";
+
+// The enquiry store and mail transports use node's fs, net and tls modules
+export const runtime = "nodejs";
+
+// Enquiries accepted from one IP address per window
+const CONTACT_RATE_LIMIT = { limit: 5, windowMs: 10 * 60 * 1000 };
+
+const SUCCESS_MESSAGE = "Thank you - your message is on its way. We'll be in touch within two working days.";
+
+const respond = (body: ContactResponse, init?: ResponseInit) => NextResponse.json(body, init);
+
+export async function POST(request: Request) {
+  const rateLimit = checkRateLimit(`contact:${getClientIp(request)}`, CONTACT_RATE_LIMIT);
+  if (!rateLimit.allowed) {
+    return respond(
+      { ok: false, message: "You've sent several messages in a short time. Please try again in a few minutes." },
+      { status: 429, headers: { "Retry-After": String(rateLimit.retryAfter) } }
+    );
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return respond({ ok: false, message: "We couldn't read your message. Please try again." }, { status: 400 });
+  }
+
+  // Bots fill every field: report success so they move on, but drop the submission
+  if (isHoneypotFilled(payload)) {
+    console.warn("Contact form honeypot filled, submission dropped");
+    return respond({ ok: true, message: SUCCESS_MESSAGE });
+  }
+
+  const result = validateContactForm(payload);
+  if (!result.success) {
+    return respond(
+      { ok: false, message: "Please check the highlighted fields.", errors: result.errors },
+      { status: 422 }
+    );
+  }
+
+  const attachmentIds = readAttachmentIds(payload);
+  const attachments = attachmentIds && await claimUploads(attachmentIds);
+  if (!attachments) {
+    return respond(
+      { ok: false, message: "Some of your attachments could not be found. Please remove them and upload them again." },
+      { status: 422 }
+    );
+  }
+
+  console.log(`Contact enquiry received from ${result.data.name} <${result.data.email}>`);
+
+  // Save first: a stored enquiry is not lost even if the email fails
+  let isStored = false;
+  try {
+    const enquiry = await saveEnquiry(result.data, { attachments });
+    isStored = true;
+    // Sent in the background so a slow CRM never holds up the visitor
+    queueEnquiryWebhooks(enquiry);
+  } catch (error) {
+    console.error("Contact enquiry could not be saved:", error);
+  }
+
+  try {
+    await sendEnquiryEmails(result.data, attachments);
+  } catch (error) {
+    console.error("Contact enquiry could not be emailed:", error);
+    if (isStored) {
+      return respond({ ok: true, message: SUCCESS_MESSAGE });
+    }
+    return respond(
+      { ok: false, message: "We couldn't send your message right now. Please try again later or email us directly." },
+      { status: 502 }
+    );
+  }
+
+  return respond({ ok: true, message: SUCCESS_MESSAGE });
+}
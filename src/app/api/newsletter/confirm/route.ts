@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { getSiteUrl } from "../../../../utils/mailTemplate";
+import { sendWelcomeEmail } from "../../../../utils/newsletterMail";
+import { confirmSubscription } from "../../../../utils/newsletterStore";
+import { verifyNewsletterToken } from "../../../../utils/newsletterTokens";
+
+export const runtime = "nodejs";
+
+// Opened from the confirmation email. Link scanners and prefetchers follow GET links, so
+// this only lands on /newsletter, whose button POSTs the token back here.
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get("token") ?? "";
+  const pageUrl = new URL("/newsletter", getSiteUrl(request));
+  pageUrl.searchParams.set("action", "confirm");
+  pageUrl.searchParams.set("token", token);
+  return NextResponse.redirect(pageUrl, 303);
+}
+
+// The confirm button on /newsletter; lands back there with the outcome
+export async function POST(request: Request) {
+  let token = "";
+  try {
+    token = String((await request.formData()).get("token") ?? "");
+  } catch {
+    // An unreadable form is treated like an invalid token
+  }
+
+  const subscriberId = verifyNewsletterToken(token, "confirm");
+  const { subscriber, isNewlyConfirmed } = subscriberId
+    ? await confirmSubscription(subscriberId)
+    : { subscriber: undefined, isNewlyConfirmed: false };
+
+  if (subscriber && isNewlyConfirmed) {
+    try {
+      await sendWelcomeEmail(subscriber, getSiteUrl(request));
+    } catch (error) {
+      // The subscription stands; only the welcome is lost
+      console.error(`Newsletter welcome to ${subscriber.email} failed:`, error);
+    }
+  }
+
+  const status = subscriber?.status === "subscribed" ? "confirmed" : "invalid";
+  return NextResponse.redirect(new URL(`/newsletter?status=${status}`, getSiteUrl(request)), 303);
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { NEWSLETTER_SOURCES, NewsletterResponse, NewsletterSource } from "../../../types/newsletter";
+import { isHoneypotFilled, validateContactField } from "../../../utils/contactValidation";
+import { getSiteUrl } from "../../../utils/mailTemplate";
+import { sendConfirmationEmail } from "../../../utils/newsletterMail";
+import { requestSubscription } from "../../../utils/newsletterStore";
+import { checkRateLimit, getClientIp } from "../../../utils/rateLimit";
+
+// The subscriber store and mail transports use node's fs, net and tls modules
+export const runtime = "nodejs";
+
+// Each signup sends an email, so keep a single address from mailing strangers
+const NEWSLETTER_RATE_LIMIT = { limit: 5, windowMs: 10 * 60 * 1000 };
+
+// Same answer whether or not the address was already subscribed, so the form
+// can't be used to find out who is on the list
+const SUCCESS_MESSAGE = "Almost there - please check your inbox and confirm your subscription.";
+
+const respond = (body: NewsletterResponse, init?: ResponseInit) => NextResponse.json(body, init);
+
+const isNewsletterSource = (value: unknown): value is NewsletterSource =>
+  typeof value === "string" && (NEWSLETTER_SOURCES as readonly string[]).includes(value);
+
+export async function POST(request: Request) {
+  const rateLimit = checkRateLimit(`newsletter:${getClientIp(request)}`, NEWSLETTER_RATE_LIMIT);
+  if (!rateLimit.allowed) {
+    return respond(
+      { ok: false, message: "Too many signups from here. Please try again in a few minutes." },
+      { status: 429, headers: { "Retry-After": String(rateLimit.retryAfter) } }
+    );
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return respond({ ok: false, message: "We couldn't read your signup. Please try again." }, { status: 400 });
+  }
+
+  if (isHoneypotFilled(payload)) {
+    console.warn("Newsletter honeypot filled, signup dropped");
+    return respond({ ok: true, message: SUCCESS_MESSAGE });
+  }
+
+  const { email: rawEmail, source } = (payload && typeof payload === "object" ? payload : {}) as Record<string, unknown>;
+  const email = typeof rawEmail === "string" ? rawEmail.trim() : "";
+  const error = validateContactField("email", email);
+  if (error) {
+    return respond({ ok: false, message: error }, { status: 422 });
+  }
+  if (!isNewsletterSource(source)) {
+    return respond({ ok: false, message: "We couldn't read your signup. Please try again." }, { status: 400 });
+  }
+
+  try {
+    const { subscriber, needsConfirmation } = await requestSubscription(email, source);
+    if (needsConfirmation) {
+      await sendConfirmationEmail(subscriber, getSiteUrl(request));
+    }
+  } catch (error) {
+    console.error("Newsletter signup failed:", error);
+    return respond(
+      { ok: false, message: "We couldn't sign you up right now. Please try again later." },
+      { status: 502 }
+    );
+  }
+
+  return respond({ ok: true, message: SUCCESS_MESSAGE });
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { getSiteUrl } from "../../../../utils/mailTemplate";
+import { unsubscribe } from "../../../../utils/newsletterStore";
+import { verifyNewsletterToken } from "../../../../utils/newsletterTokens";
+
+export const runtime = "nodejs";
+
+// The link in every newsletter email. Link scanners and prefetchers follow GET links, so
+// this only lands on /newsletter, whose button POSTs the token back here.
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get("token") ?? "";
+  const pageUrl = new URL("/newsletter", getSiteUrl(request));
+  pageUrl.searchParams.set("action", "unsubscribe");
+  pageUrl.searchParams.set("token", token);
+  return NextResponse.redirect(pageUrl, 303);
+}
+
+// Two callers: mail clients doing an RFC 8058 one-click unsubscribe from the
+// List-Unsubscribe header, with the token in the URL and a `List-Unsubscribe=One-Click`
+// body, and the unsubscribe button on /newsletter, with the token in the form
+export async function POST(request: Request) {
+  let form: FormData | undefined;
+  try {
+    form = await request.formData();
+  } catch {
+    // One-click requests are form encoded, but the token in the URL is what counts
+  }
+
+  const isOneClick = form?.get("List-Unsubscribe") === "One-Click";
+  const token = String(form?.get("token") ?? new URL(request.url).searchParams.get("token") ?? "");
+  const subscriberId = verifyNewsletterToken(token, "unsubscribe");
+  const subscriber = subscriberId ? await unsubscribe(subscriberId) : undefined;
+
+  if (isOneClick) {
+    return new NextResponse(null, { status: subscriber ? 200 : 400 });
+  }
+
+  const status = subscriber ? "unsubscribed" : "invalid";
+  return NextResponse.redirect(new URL(`/newsletter?status=${status}`, getSiteUrl(request)), 303);
+}
@@ -0,0 +1,27 @@
+import { getStudioConfig } from "../../../../utils/studioConfig";
+import { renderVCard } from "../../../../utils/studioContact";
+import { encodeQrCode, renderQrSvg } from "../../../../utils/qrCode";
+
+// The studio config is read from /content with node's fs
+export const runtime = "nodejs";
+
+// SVG QR code of the studio's vCard for print collateral. Scanning it offers to save
+// the contact. ?download=1 saves the file instead of showing it.
+export async function GET(request: Request) {
+  const isDownload = new URL(request.url).searchParams.get("download") === "1";
+  const studio = getStudioConfig();
+  // Quartile error correction survives print scuffs and small logos placed on top
+  const svg = renderQrSvg(encodeQrCode(renderVCard(studio, "3.0"), "Q"), {
+    title: `${studio.name} contact card`,
+  });
+  const filename = `${studio.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-contact-qr.svg`;
+
+  return new Response(svg, {
+    headers: {
+      "Content-Type": "image/svg+xml; charset=utf-8",
+      "Content-Disposition": `${isDownload ? "attachment" : "inline"}; filename="${filename}"`,
+      "Cache-Control": "public, max-age=3600",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
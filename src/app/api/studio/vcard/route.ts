@@ -0,0 +1,25 @@
+import { VCARD_VERSIONS, VCardVersion } from "../../../../types/studio";
+import { getStudioConfig } from "../../../../utils/studioConfig";
+import { renderVCard, VCARD_CONTENT_TYPE } from "../../../../utils/studioContact";
+
+// The studio config is read from /content with node's fs
+export const runtime = "nodejs";
+
+const isVCardVersion = (value: unknown): value is VCardVersion =>
+  typeof value === "string" && (VCARD_VERSIONS as readonly string[]).includes(value);
+
+// The studio's contact card; ?version=4.0 for vCard 4.0, otherwise 3.0
+export async function GET(request: Request) {
+  const requested = new URL(request.url).searchParams.get("version");
+  const version = isVCardVersion(requested) ? requested : "3.0";
+  const studio = getStudioConfig();
+  const filename = `${studio.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.vcf`;
+
+  return new Response(renderVCard(studio, version), {
+    headers: {
+      "Content-Type": VCARD_CONTENT_TYPE,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "public, max-age=3600",
+    },
+  });
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import type { UploadResponse } from "../../../types/uploads";
+import { checkRateLimit, getClientIp } from "../../../utils/rateLimit";
+import { checkUploadFile, formatFileSize, UPLOAD_LIMITS } from "../../../utils/uploadRules";
+import { saveUpload, UnsupportedUploadError } from "../../../utils/uploadStore";
+
+// Upload storage uses node's fs and crypto modules
+export const runtime = "nodejs";
+
+// Files accepted from one IP address per window - a few enquiries' worth
+const UPLOAD_RATE_LIMIT = { limit: 30, windowMs: 10 * 60 * 1000 };
+
+// Room for the multipart boundaries and part headers around the file
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+const MAX_REQUEST_BYTES = UPLOAD_LIMITS.MAX_BYTES + MULTIPART_OVERHEAD_BYTES;
+
+const respond = (body: UploadResponse, init?: ResponseInit) => NextResponse.json(body, init);
+
+// One file per request, sent as multipart form data in the "file" field
+export async function POST(request: Request) {
+  const rateLimit = checkRateLimit(`upload:${getClientIp(request)}`, UPLOAD_RATE_LIMIT);
+  if (!rateLimit.allowed) {
+    return respond(
+      { ok: false, message: "You've uploaded several files in a short time. Please try again in a few minutes." },
+      { status: 429, headers: { "Retry-After": String(rateLimit.retryAfter) } }
+    );
+  }
+
+  // formData() buffers the whole body, so oversized or unmeasured requests are turned away
+  // before reading it. The server never reads past Content-Length, so it also caps the body.
+  const contentLength = Number(request.headers.get("content-length"));
+  if (!request.headers.has("content-length") || !Number.isInteger(contentLength) || contentLength > MAX_REQUEST_BYTES) {
+    return respond(
+      { ok: false, message: `Files can be up to ${formatFileSize(UPLOAD_LIMITS.MAX_BYTES)}. Please choose a smaller file.` },
+      { status: 413 }
+    );
+  }
+
+  let file: FormDataEntryValue | null;
+  try {
+    file = (await request.formData()).get("file");
+  } catch {
+    return respond({ ok: false, message: "We couldn't read that upload. Please try again." }, { status: 400 });
+  }
+  if (!(file instanceof File)) {
+    return respond({ ok: false, message: "Please choose a file to upload." }, { status: 400 });
+  }
+
+  // The same size and name checks the browser ran; the bytes are checked when saving
+  const problem = checkUploadFile({ name: file.name, size: file.size, type: file.type });
+  if (problem) {
+    return respond({ ok: false, message: problem }, { status: file.size > 0 ? 413 : 400 });
+  }
+
+  try {
+    const upload = await saveUpload(file.name, Buffer.from(await file.arrayBuffer()));
+    console.log(`Upload ${upload.id} stored (${upload.contentType}, ${upload.size} bytes)`);
+    return respond({ ok: true, file: upload });
+  } catch (error) {
+    if (error instanceof UnsupportedUploadError) {
+      return respond({ ok: false, message: `${file.name} doesn't look like a PDF, JPEG, PNG or HEIC file.` }, { status: 415 });
+    }
+    console.error("Upload could not be stored:", error);
+    return respond({ ok: false, message: "We couldn't store that file right now. Please try again later." }, { status: 502 });
+  }
+}
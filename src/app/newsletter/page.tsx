@@ -0,0 +1,81 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+
+interface NewsletterPageProps {
+  searchParams: Promise<{ status?: string; action?: string; token?: string }>;
+}
+
+export const metadata: Metadata = {
+  title: "Newsletter - Luminare Studio",
+  robots: { index: false, follow: false },
+};
+
+// Where the confirmation and unsubscribe links land: a button that POSTs the token, so
+// link scanners opening the emailed links can't confirm or unsubscribe anyone
+const ACTIONS: Record<string, { title: string; message: string; button: string; endpoint: string }> = {
+  confirm: {
+    title: "Confirm your subscription",
+    message: "One more step: confirm that you'd like to receive our newsletter.",
+    button: "Confirm subscription",
+    endpoint: "/api/newsletter/confirm",
+  },
+  unsubscribe: {
+    title: "Unsubscribe from our newsletter",
+    message: "Confirm below and we'll stop sending our newsletter to this address.",
+    button: "Unsubscribe",
+    endpoint: "/api/newsletter/unsubscribe",
+  },
+};
+
+// Outcomes the confirm and unsubscribe buttons come back with
+const OUTCOMES: Record<string, { title: string; message: string }> = {
+  confirmed: {
+    title: "You're subscribed",
+    message: "Thank you for confirming. Our next newsletter will find its way to your inbox.",
+  },
+  unsubscribed: {
+    title: "You're unsubscribed",
+    message: "You won't receive our newsletter any more. You can sign up again from our contact section at any time.",
+  },
+  invalid: {
+    title: "This link has expired",
+    message: "The link is no longer valid. Please sign up again and we'll send you a fresh confirmation email.",
+  },
+};
+
+export default async function NewsletterPage({ searchParams }: NewsletterPageProps) {
+  const { status, action, token } = await searchParams;
+  const pendingAction = token ? ACTIONS[action ?? ""] : undefined;
+  const outcome = pendingAction ?? OUTCOMES[status ?? ""] ?? OUTCOMES.invalid;
+
+  return (
+    <main className="min-h-screen flex items-center justify-center px-4" style={{ background: 'var(--background)' }}>
+      <div className="max-w-md text-center space-y-6">
+        <h1 className="font-display text-3xl md:text-4xl font-light" style={{ color: 'var(--foreground)' }}>
+          {outcome.title}
+        </h1>
+        <p className="text-base md:text-lg leading-relaxed font-light" style={{ color: 'var(--typography-secondary)' }}>
+          {outcome.message}
+        </p>
+        {pendingAction && (
+          <form method="post" action={pendingAction.endpoint}>
+            <input type="hidden" name="token" value={token} />
+            <button
+              type="submit"
+              className="rounded-full border-2 border-stone-400 px-6 py-2 text-sm font-medium text-stone-700 hover:border-stone-600 hover:text-stone-800 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-stone-400/50 focus:ring-offset-2"
+            >
+              {pendingAction.button}
+            </button>
+          </form>
+        )}
+        <Link
+          href="/"
+          className="inline-block text-sm font-light tracking-wide hover:opacity-70 transition-opacity duration-300"
+          style={{ color: 'var(--typography-secondary)' }}
+        >
+          &larr; Back to Luminare Studio
+        </Link>
+      </div>
+    </main>
+  );
+}
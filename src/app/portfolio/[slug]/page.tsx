@@ -0,0 +1,150 @@
+import type { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getPortfolioProject, getPortfolioProjects } from "../../../utils/portfolioContent";
+
+interface ProjectPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+// Only the projects in /content/portfolio exist
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getPortfolioProjects().map((project) => ({ slug: project.slug }));
+}
+
+export async function generateMetadata({ params }: ProjectPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const project = getPortfolioProject(slug);
+  if (!project) return {};
+
+  return {
+    title: `${project.title} - Luminare Studio Portfolio`,
+    description: project.content,
+    openGraph: {
+      title: `${project.title} - Luminare Studio`,
+      description: project.subtitle,
+      type: "article",
+      images: [{ url: project.image, alt: project.title }],
+    },
+  };
+}
+
+export default async function ProjectPage({ params }: ProjectPageProps) {
+  const { slug } = await params;
+  const projects = getPortfolioProjects();
+  const pageIndex = projects.findIndex((project) => project.slug === slug);
+  if (pageIndex === -1) notFound();
+
+  const project = projects[pageIndex];
+  const previous = projects[pageIndex - 1];
+  const next = projects[pageIndex + 1];
+
+  return (
+    <main className="min-h-screen" style={{ background: 'var(--background)' }}>
+      {/* Header */}
+      <header className="container mx-auto px-4 pt-8 md:pt-12 flex items-center justify-between">
+        <Link
+          href="/#portfolio-section"
+          className="text-sm font-light tracking-wide hover:opacity-70 transition-opacity duration-300"
+          style={{ color: 'var(--typography-secondary)' }}
+        >
+          &larr; Back to portfolio
+        </Link>
+        <Link
+          href={`/#portfolio/${project.slug}`}
+          className="px-5 py-2 text-sm font-medium tracking-wide rounded-full transition-all duration-300 hover:scale-105"
+          style={{ color: 'var(--foreground)', border: '2px solid var(--accent-1)' }}
+        >
+          View in book
+        </Link>
+      </header>
+
+      {/* Title */}
+      <section className="container mx-auto px-4 pt-12 md:pt-20 pb-10 max-w-4xl text-center">
+        <div className="inline-block px-3 py-1 rounded-full mb-4" style={{ backgroundColor: 'var(--accent-1)' }}>
+          <span className="text-sm font-medium tracking-wide" style={{ color: 'var(--foreground)' }}>
+            {project.year}
+          </span>
+        </div>
+        <h1 className="font-display text-4xl md:text-5xl lg:text-6xl font-light tracking-wide mb-4" style={{ color: 'var(--foreground)' }}>
+          {project.title}
+        </h1>
+        <p className="text-lg md:text-xl font-light" style={{ color: 'var(--typography-secondary)' }}>
+          {project.subtitle}
+        </p>
+      </section>
+
+      {/* Gallery */}
+      <section className="container mx-auto px-4 pb-16">
+        <div className={`grid gap-4 md:gap-6 ${project.gallery.length > 1 ? 'md:grid-cols-2' : ''}`}>
+          {project.gallery.map((image, index) => (
+            <div
+              key={image}
+              className={`relative overflow-hidden rounded-xl shadow-lg ${index === 0 ? 'aspect-[16/9] md:col-span-2' : 'aspect-[4/3]'}`}
+              style={{ background: 'var(--secondary-background)' }}
+            >
+              <Image
+                src={image}
+                alt={`${project.title} by ${project.artist} - image ${index + 1}`}
+                fill
+                sizes={index === 0 ? '100vw' : '(min-width: 768px) 50vw, 100vw'}
+                className="object-cover"
+                priority={index === 0}
+              />
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {/* Description and credits */}
+      <section className="container mx-auto px-4 pb-20 max-w-5xl grid gap-12 md:grid-cols-3">
+        <div className="md:col-span-2">
+          <h2 className="font-display text-2xl md:text-3xl font-light mb-6" style={{ color: 'var(--foreground)' }}>
+            About the project
+          </h2>
+          <p className="text-base md:text-lg leading-relaxed font-light" style={{ color: 'var(--typography-secondary)' }}>
+            {project.description}
+          </p>
+        </div>
+        <aside>
+          <h2 className="font-display text-2xl md:text-3xl font-light mb-6" style={{ color: 'var(--foreground)' }}>
+            Credits
+          </h2>
+          <dl className="space-y-4 border-t pt-4" style={{ borderColor: 'var(--accent-1)' }}>
+            {project.credits.map((credit) => (
+              <div key={`${credit.role}-${credit.name}`}>
+                <dt className="text-xs uppercase tracking-wider" style={{ color: 'var(--typography-secondary)' }}>
+                  {credit.role}
+                </dt>
+                <dd className="text-base font-light" style={{ color: 'var(--foreground)' }}>
+                  {credit.name}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </aside>
+      </section>
+
+      {/* Project navigation */}
+      <nav
+        className="container mx-auto px-4 py-10 border-t flex justify-between text-sm font-light tracking-wide"
+        style={{ borderColor: 'var(--accent-1)', color: 'var(--typography-secondary)' }}
+        aria-label="Project navigation"
+      >
+        {previous ? (
+          <Link href={`/portfolio/${previous.slug}`} className="hover:opacity-70 transition-opacity duration-300">
+            &larr; {previous.title}
+          </Link>
+        ) : <span />}
+        {next ? (
+          <Link href={`/portfolio/${next.slug}`} className="hover:opacity-70 transition-opacity duration-300">
+            {next.title} &rarr;
+          </Link>
+        ) : <span />}
+      </nav>
+    </main>
+  );
+}
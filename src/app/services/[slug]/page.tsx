@@ -0,0 +1,156 @@
+import type { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getRelatedProjects, getService, getServices } from "../../../utils/servicesContent";
+
+interface ServicePageProps {
+  params: Promise<{ slug: string }>;
+}
+
+// Only the services in /content/services exist
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getServices().map((service) => ({ slug: service.slug }));
+}
+
+export async function generateMetadata({ params }: ServicePageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const service = getService(slug);
+  if (!service) return {};
+
+  return {
+    title: `${service.title} - Luminare Studio Services`,
+    description: service.description,
+    openGraph: {
+      title: `${service.title} - Luminare Studio`,
+      description: service.description,
+      type: "website",
+      images: [{ url: service.image, alt: service.title }],
+    },
+  };
+}
+
+export default async function ServicePage({ params }: ServicePageProps) {
+  const { slug } = await params;
+  const service = getService(slug);
+  if (!service) notFound();
+
+  const relatedProjects = getRelatedProjects(service);
+
+  return (
+    <main className="min-h-screen" style={{ background: 'var(--background)' }}>
+      {/* Header */}
+      <header className="container mx-auto px-4 pt-8 md:pt-12">
+        <Link
+          href="/#services-section"
+          className="text-sm font-light tracking-wide hover:opacity-70 transition-opacity duration-300"
+          style={{ color: 'var(--typography-secondary)' }}
+        >
+          &larr; All services
+        </Link>
+      </header>
+
+      {/* Hero */}
+      <section className="container mx-auto px-4 pt-12 md:pt-20 pb-12 grid gap-10 md:grid-cols-2 items-center max-w-6xl">
+        <div>
+          <h1 className="font-display text-4xl md:text-5xl lg:text-6xl font-light tracking-wide mb-6" style={{ color: 'var(--foreground)' }}>
+            {service.title}
+          </h1>
+          <p className="text-lg md:text-xl leading-relaxed font-light" style={{ color: 'var(--typography-secondary)' }}>
+            {service.description}
+          </p>
+        </div>
+        <div className="relative aspect-[4/3] overflow-hidden rounded-xl shadow-lg" style={{ background: 'var(--secondary-background)' }}>
+          <Image
+            src={service.image}
+            alt={service.title}
+            fill
+            sizes="(min-width: 768px) 50vw, 100vw"
+            className="object-cover"
+            priority
+          />
+        </div>
+      </section>
+
+      {/* Overview and deliverables */}
+      <section className="container mx-auto px-4 pb-16 max-w-6xl grid gap-12 md:grid-cols-3">
+        <div className="md:col-span-2 space-y-5">
+          <h2 className="font-display text-2xl md:text-3xl font-light" style={{ color: 'var(--foreground)' }}>
+            Overview
+          </h2>
+          {service.overview.map((paragraph) => (
+            <p key={paragraph} className="text-base md:text-lg leading-relaxed font-light" style={{ color: 'var(--typography-secondary)' }}>
+              {paragraph}
+            </p>
+          ))}
+        </div>
+        <aside>
+          <h2 className="font-display text-2xl md:text-3xl font-light mb-5" style={{ color: 'var(--foreground)' }}>
+            Deliverables
+          </h2>
+          <ul className="space-y-3 border-t pt-4" style={{ borderColor: 'var(--accent-1)' }}>
+            {service.deliverables.map((deliverable) => (
+              <li key={deliverable} className="text-base font-light" style={{ color: 'var(--typography-secondary)' }}>
+                {deliverable}
+              </li>
+            ))}
+          </ul>
+        </aside>
+      </section>
+
+      {/* Process */}
+      <section className="py-16" style={{ background: 'var(--secondary-background)' }}>
+        <div className="container mx-auto px-4 max-w-6xl">
+          <h2 className="font-display text-2xl md:text-3xl font-light mb-10 text-center" style={{ color: 'var(--foreground)' }}>
+            How we work
+          </h2>
+          <ol className="grid gap-8 sm:grid-cols-2 lg:grid-cols-4">
+            {service.process.map((step, index) => (
+              <li key={step.title}>
+                <div className="w-10 h-10 rounded-full flex items-center justify-center mb-4" style={{ background: 'var(--accent-1)' }}>
+                  <span className="text-sm font-medium" style={{ color: 'var(--foreground)' }}>{index + 1}</span>
+                </div>
+                <h3 className="text-lg font-serif mb-2" style={{ color: 'var(--foreground)' }}>
+                  {step.title}
+                </h3>
+                <p className="text-sm leading-relaxed" style={{ color: 'var(--typography-secondary)' }}>
+                  {step.description}
+                </p>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </section>
+
+      {/* Related portfolio projects */}
+      {relatedProjects.length > 0 && (
+        <section className="container mx-auto px-4 py-16 max-w-6xl">
+          <h2 className="font-display text-2xl md:text-3xl font-light mb-10 text-center" style={{ color: 'var(--foreground)' }}>
+            Related projects
+          </h2>
+          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {relatedProjects.map((project) => (
+              <Link key={project.slug} href={`/portfolio/${project.slug}`} className="group block rounded-xl shadow-lg overflow-hidden" style={{ background: 'var(--secondary-background)' }}>
+                <div className="relative aspect-[4/3] overflow-hidden">
+                  <Image
+                    src={project.image}
+                    alt={project.title}
+                    fill
+                    sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+                    className="object-cover transition-transform duration-300 group-hover:scale-105"
+                  />
+                </div>
+                <div className="p-4">
+                  <h3 className="text-lg font-serif" style={{ color: 'var(--foreground)' }}>{project.title}</h3>
+                  <p className="text-sm" style={{ color: 'var(--typography-secondary)' }}>{project.subtitle}</p>
+                </div>
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+    </main>
+  );
+}
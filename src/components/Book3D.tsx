@@ -1,9 +1,20 @@
 "use client";
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
+import dynamic from 'next/dynamic';
 import { gsap } from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
+import BookContents from './BookContents';
 import BookPage from './BookPage';
+import ImageLightbox, { type LightboxImage } from './ImageLightbox';
+import type { BookLayout } from '../contexts/BookContext';
+import type { InteriorTopic } from '../types/portfolio';
+import { getViewCount } from '../utils/bookProgress';
+import { isWebGLAvailable } from '../utils/pageCurl';
+import { onLowFps } from '../utils/performanceMonitor';
+
+// three.js is only downloaded for books that ask for the WebGL renderer
+const PageCurlRenderer = dynamic(() => import('./PageCurlRenderer'), { ssr: false });
 
 // Register GSAP plugins
 if (typeof window !== 'undefined') {
@@ -29,8 +40,20 @@ const debounce = (func: (...args: unknown[]) => void, delay: number) => {
   };
 };
 
-// Custom hook for dynamic book sizing for constrained fullscreen
-const useResponsiveBookSize = () => {
+// Every portfolio image in book order: each project's page image, then its gallery
+const getLightboxImages = (topics: InteriorTopic[]) => topics.flatMap((topic) =>
+  [...new Set([topic.image, ...topic.gallery])].map((src, index): LightboxImage => ({
+    src,
+    alt: index === 0
+      ? `Artistic representation of ${topic.title} by ${topic.artist}`
+      : `${topic.title}, photo ${index + 1}`,
+    caption: topic.title
+  }))
+);
+
+// Custom hook for dynamic book sizing for constrained fullscreen.
+// A spread is sized as a whole, two pages wide.
+const useResponsiveBookSize = (isSpread: boolean) => {
   const [bookDimensions, setBookDimensions] = useState({
     width: 640,
     height: 420,
@@ -72,8 +95,8 @@ const useResponsiveBookSize = () => {
       return;
     }
 
-    // Book aspect ratio (width:height = 1.52:1 for standard book)
-    const bookAspectRatio = 1.52;
+    // Book aspect ratio (width:height = 1.52:1 for standard book, 2.2:1 for an open spread)
+    const bookAspectRatio = isSpread ? 2.2 : 1.52;
     
     // Mobile-specific aspect ratio adjustments - optimize for orientation
     const mobileAspectRatio = isMobile && isPortrait ? 1.2 : (isMobile && !isPortrait ? 1.8 : bookAspectRatio);
@@ -120,7 +143,7 @@ const useResponsiveBookSize = () => {
 
     // Mobile-specific size constraints - make book larger on mobile
     const minWidth = isMobile ? Math.min(320, availableWidth * 0.95) : Math.min(320, availableWidth * 0.8);
-    const maxWidth = isMobile ? Math.min(availableWidth * 0.98, availableWidth - 20) : Math.min(1000, availableWidth * 0.95);
+    const maxWidth = isMobile ? Math.min(availableWidth * 0.98, availableWidth - 20) : Math.min(isSpread ? 1600 : 1000, availableWidth * 0.95);
     const minHeight = isMobile ? Math.min(220, availableHeight * 0.95) : Math.min(210, availableHeight * 0.8);
     const maxHeight = isMobile ? Math.min(availableHeight * 0.98, availableHeight - 20) : Math.min(650, availableHeight * 0.95);
 
@@ -144,9 +167,9 @@ const useResponsiveBookSize = () => {
       finalHeight = finalWidth / finalAspectRatio;
     }
 
-    // Calculate scale for perspective and other effects
+    // Calculate scale for perspective and other effects from the width of one page
     const baseWidth = 640;
-    const scale = finalWidth / baseWidth;
+    const scale = (isSpread ? finalWidth / 2 : finalWidth) / baseWidth;
 
     setBookDimensions({
       width: Math.round(finalWidth),
@@ -159,7 +182,7 @@ const useResponsiveBookSize = () => {
     document.documentElement.style.setProperty('--book-height', `${finalHeight}px`);
     document.documentElement.style.setProperty('--book-scale', scale.toString());
 
-  }, []);
+  }, [isSpread]);
 
   useEffect(() => {
     calculateBookSize();
@@ -180,100 +203,73 @@ const useResponsiveBookSize = () => {
   return bookDimensions;
 };
 
-const Book3D: React.FC = () => {
+interface Book3DProps {
+  interiorTopics: InteriorTopic[];
+  // Front cover contents; defaults to the studio cover
+  cover?: React.ReactNode;
+  // Turn the cover with the scroll position of the book container
+  scrollLinkedCover?: boolean;
+  // Adds a table of contents after the cover; called with the chosen page index
+  onContentsSelect?: (pageIndex: number) => void;
+  // Single pages, or left and right pages side by side
+  layout?: BookLayout;
+  // 'webgl' draws turning pages as curled paper; falls back to 'css' without WebGL,
+  // at low frame rates and for spreads
+  renderer?: BookRenderer;
+}
+
+export type BookRenderer = 'css' | 'webgl';
+
+// Shared by the front and back of a spread leaf
+const leafFaceStyle: React.CSSProperties = {
+  transformStyle: 'preserve-3d',
+  backfaceVisibility: 'hidden',
+  background: 'var(--secondary-background)'
+};
+
+const Book3D: React.FC<Book3DProps> = ({
+  interiorTopics,
+  cover,
+  scrollLinkedCover = true,
+  onContentsSelect,
+  layout = 'single',
+  renderer = 'css'
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const bookRef = useRef<HTMLDivElement>(null);
   const coverRef = useRef<HTMLDivElement>(null);
   const pagesContainerRef = useRef<HTMLDivElement>(null);
   const [isClientSide, setIsClientSide] = useState(false);
+  const hasContents = Boolean(onContentsSelect);
+  const isSpread = layout === 'spread';
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  // Page images open the lightbox at their project's first image
+  const lightboxImages = useMemo(() => getLightboxImages(interiorTopics), [interiorTopics]);
+  const getLightboxStart = (topic: InteriorTopic) => lightboxImages.findIndex((image) => image.src === topic.image);
+  const closeLightbox = useCallback(() => setLightboxIndex(null), []);
 
   // Use responsive book sizing
-  const bookDimensions = useResponsiveBookSize();
-
-  // Interior Design Portfolio content for each page
-  const interiorTopics = [
-    {
-      title: "Modern Living Spaces",
-      subtitle: "Contemporary Comfort & Style",
-      content: "Explore sophisticated residential interiors that blend clean lines, natural materials, and thoughtful functionality to create spaces that inspire daily living.",
-      scene: "modern-living",
-      image: "/photos/modern.jpeg",
-      year: "2024",
-      artist: "Studio Luxe Interiors"
-    },
-    {
-      title: "Minimalist Interiors",
-      subtitle: "Less is More Philosophy",
-      content: "Discover the art of intentional design where every element serves a purpose, creating serene spaces that promote clarity and mindfulness.",
-      scene: "minimalist",
-      image: "/photos/minimalist.jpeg",
-      year: "2024",
-      artist: "Pure Design Studio"
-    },
-    {
-      title: "Luxury Kitchens",
-      subtitle: "Culinary Excellence & Design",
-      content: "Experience the perfect fusion of functionality and aesthetics in kitchen spaces that serve as both culinary workshops and social gathering places.",
-      scene: "luxury-kitchens",
-      image: "/photos/luxury.jpeg",
-      year: "2024",
-      artist: "Culinary Design Group"
-    },
-    {
-      title: "Workspace Design",
-      subtitle: "Productivity Meets Comfort",
-      content: "Transform work environments into inspiring spaces that enhance creativity, collaboration, and well-being through thoughtful design solutions.",
-      scene: "workspace",
-      image: "/photos/workspace.jpeg",
-      year: "2024",
-      artist: "Office Design Collective"
-    },
-    {
-      title: "Sustainable Interiors",
-      subtitle: "Eco-Conscious Design",
-      content: "Embrace environmentally responsible design practices that prioritize natural materials, energy efficiency, and sustainable living principles.",
-      scene: "sustainable",
-      image: "/photos/sustainable.jpeg",
-      year: "2024",
-      artist: "Green Space Studio"
-    },
-    {
-      title: "Lighting Concepts",
-      subtitle: "Illuminating Atmosphere",
-      content: "Master the art of lighting design to create mood, highlight architectural features, and transform spaces through strategic illumination.",
-      scene: "lighting",
-      image: "/photos/lighting.jpeg",
-      year: "2024",
-      artist: "Luminary Design"
-    },
-    {
-      title: "Textile & Materiality",
-      subtitle: "Tactile Design Elements",
-      content: "Explore the sensory world of fabrics, textures, and materials that add depth, warmth, and character to interior environments.",
-      scene: "textiles",
-      image: "/photos/eclectic.jpg",
-      year: "2024",
-      artist: "Texture & Form Studio"
-    },
-    {
-      title: "Small Space Solutions",
-      subtitle: "Maximizing Minimal Footprints",
-      content: "Innovative design strategies for compact living that maximize functionality while maintaining aesthetic appeal and comfort.",
-      scene: "small-spaces",
-      image: "/photos/scandinavian.jpeg",
-      year: "2024",
-      artist: "Compact Living Design"
-    },
-    {
-      title: "Historical Inspirations",
-      subtitle: "Timeless Design Elements",
-      content: "Draw inspiration from classical design principles and historical periods to create spaces that honor tradition while embracing modernity.",
-      scene: "historical",
-      image: "/photos/historical.jpeg",
-      year: "2024",
-      artist: "Heritage Design Studio"
-    }
-  ];
+  const bookDimensions = useResponsiveBookSize(isSpread);
+  const perspective = 1000 * bookDimensions.scale;
+
+  // The WebGL curl stays off for good once it has fallen back
+  const [canUseWebGL, setCanUseWebGL] = useState(false);
+  const [hasFallenBack, setHasFallenBack] = useState(false);
+  const isWebGLActive = renderer === 'webgl' && !isSpread && canUseWebGL && !hasFallenBack;
+  const fallBackToCss = useCallback(() => setHasFallenBack(true), []);
+
+  useEffect(() => {
+    setCanUseWebGL(renderer === 'webgl' && isWebGLAvailable());
+  }, [renderer]);
+
+  useEffect(() => {
+    if (!isWebGLActive) return;
+    return onLowFps((fps) => {
+      console.warn(`Page curl disabled at ${fps} FPS, using CSS page flips`);
+      fallBackToCss();
+    });
+  }, [isWebGLActive, fallBackToCss]);
 
   // SSR compatibility check
   useEffect(() => {
@@ -287,7 +283,10 @@ const Book3D: React.FC = () => {
     const book = bookRef.current;
     const cover = coverRef.current;
     const pagesContainer = pagesContainerRef.current;
-    const pages = Array.from(pagesContainer.querySelectorAll('.book-page')) as HTMLElement[];
+    // In a spread the first page can sit inside the cover
+    const pages = Array.from(book.querySelectorAll('.book-page')) as HTMLElement[];
+    const contents = pagesContainer.querySelector<HTMLElement>('.book-contents');
+    const leaves = Array.from(pagesContainer.querySelectorAll<HTMLElement>('.book-leaf'));
 
     // Optimized 3D perspective setup with GPU acceleration
     gsap.set(book, { 
@@ -295,14 +294,14 @@ const Book3D: React.FC = () => {
       rotationX: 0,
       transformOrigin: "center center",
       transformStyle: "preserve-3d",
-      perspective: `${1000 * bookDimensions.scale}px`,
+      perspective: `${perspective}px`,
       force3D: PERFORMANCE_CONFIG.FORCE_3D,
       backfaceVisibility: "hidden",
       willChange: PERFORMANCE_CONFIG.WILL_CHANGE
     });
 
     // Initialize all pages and cover with optimized 3D setup and GPU acceleration
-    gsap.set([cover, ...pages], { 
+    gsap.set([cover, ...(contents ? [contents] : []), ...pages], { 
       transformOrigin: "left center",
       transformStyle: "preserve-3d",
       backfaceVisibility: "hidden",
@@ -334,11 +333,44 @@ const Book3D: React.FC = () => {
       });
     });
 
+    // Spread leaves turn in place of the pages they carry, the first on top
+    leaves.forEach((leaf, index) => {
+      gsap.set(leaf, {
+        rotationY: 0,
+        zIndex: leaves.length - index,
+        transformOrigin: "left center",
+        transformStyle: "preserve-3d",
+        force3D: PERFORMANCE_CONFIG.FORCE_3D,
+        clearProps: "transform",
+        willChange: PERFORMANCE_CONFIG.WILL_CHANGE
+      });
+    });
+
+    // Table of contents sits between the cover and the first page
+    if (contents) {
+      gsap.set(contents, {
+        rotationY: 0,
+        opacity: 1,
+        zIndex: interiorTopics.length + 1,
+        visibility: 'visible',
+        force3D: PERFORMANCE_CONFIG.FORCE_3D,
+        clearProps: "transform",
+        willChange: PERFORMANCE_CONFIG.WILL_CHANGE
+      });
+      gsap.set(contents.querySelectorAll('.contents-heading, .contents-entry'), {
+        opacity: 0,
+        y: 20,
+        force3D: PERFORMANCE_CONFIG.FORCE_3D,
+        clearProps: "transform",
+        willChange: 'transform, opacity'
+      });
+    }
+
     // Cover initial state with GPU acceleration
     gsap.set(cover, { 
       rotationY: 0,
       opacity: 1,
-      zIndex: interiorTopics.length + 1,
+      zIndex: interiorTopics.length + 2,
       visibility: 'visible',
       force3D: PERFORMANCE_CONFIG.FORCE_3D,
       clearProps: "transform",
@@ -347,7 +379,7 @@ const Book3D: React.FC = () => {
 
     console.log('Book 3D setup initialized with GPU acceleration');
 
-  }, [isClientSide, interiorTopics.length, bookDimensions.scale]);
+  }, [isClientSide, interiorTopics.length, perspective, hasContents, isSpread]);
 
   // Mobile-optimized ScrollTrigger setup with performance improvements
   const setupMobileScrollTrigger = useCallback(() => {
@@ -440,10 +472,7 @@ const Book3D: React.FC = () => {
 
   // Initialize ScrollTrigger when component mounts with proper cleanup
   useEffect(() => {
-    if (!isClientSide || !containerRef.current || !bookRef.current) return;
-
-    // Clear any existing ScrollTriggers
-    ScrollTrigger.getAll().forEach(trigger => trigger.kill());
+    if (!isClientSide || !scrollLinkedCover || !containerRef.current || !bookRef.current) return;
 
     // Use mobile-optimized ScrollTrigger setup
     const cleanup = setupMobileScrollTrigger();
@@ -451,7 +480,61 @@ const Book3D: React.FC = () => {
     return () => {
       if (cleanup) cleanup();
     };
-  }, [isClientSide, setupMobileScrollTrigger]);
+  }, [isClientSide, scrollLinkedCover, setupMobileScrollTrigger]);
+
+  // Hold the book still while the lightbox is open: scrolling must not turn pages
+  // underneath it. Only this book's ScrollTriggers are paused - the pinned scroll
+  // container around it, and its own cover trigger.
+  const isLightboxOpen = lightboxIndex !== null;
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isLightboxOpen || !container) return;
+
+    const bookTriggers = ScrollTrigger.getAll().filter((trigger) => {
+      const element = trigger.trigger;
+      return Boolean(element && (element.contains(container) || container.contains(element)));
+    });
+    bookTriggers.forEach((trigger) => trigger.disable(false));
+
+    return () => {
+      // Keep their progress; only re-measure in case the window was resized meanwhile
+      bookTriggers.forEach((trigger) => trigger.enable(false));
+    };
+  }, [isLightboxOpen]);
+
+  const renderPage = (index: number) => {
+    const topic = interiorTopics[index];
+    if (!topic) return null;
+
+    return (
+      <BookPage
+        key={topic.slug}
+        story={topic}
+        pageIndex={index}
+        totalPages={interiorTopics.length}
+        onImageOpen={() => setLightboxIndex(getLightboxStart(topic))}
+      />
+    );
+  };
+
+  // Each leaf of a spread carries a right page and, on its back, the next left page.
+  // The first left page is on the back of the contents, or inside the cover.
+  const renderLeaves = () => Array.from({ length: getViewCount(interiorTopics.length, 2) }, (_, index) => (
+    <div key={index} className="book-leaf absolute inset-0" style={{ transformStyle: 'preserve-3d' }}>
+      <div className="absolute inset-0" style={leafFaceStyle}>
+        {renderPage(index * 2 + 1)}
+      </div>
+      {/* Leaf Back - Only Visible When Turned */}
+      <div
+        className="absolute inset-0"
+        style={{ ...leafFaceStyle, transform: 'rotateY(180deg)', opacity: 0, visibility: 'hidden' }}
+      >
+        {renderPage(index * 2 + 2)}
+      </div>
+    </div>
+  ));
+
+  const bookShadow = `0 ${25 * bookDimensions.scale}px ${50 * bookDimensions.scale}px rgba(0,0,0,0.2), 0 ${10 * bookDimensions.scale}px ${20 * bookDimensions.scale}px rgba(0,0,0,0.1)`;
 
   // Render nothing on server side
   if (!isClientSide) {
@@ -479,12 +562,13 @@ const Book3D: React.FC = () => {
       >
         {/* Book Base */}
         <div 
-          className="book-base relative shadow-2xl transition-all duration-300 ease-out"
+          className={`book-base relative transition-all duration-300 ease-out ${isSpread ? '' : 'shadow-2xl'}`}
           style={{ 
             width: `${bookDimensions.width}px`,
             height: `${bookDimensions.height}px`,
             transformStyle: 'preserve-3d',
-            boxShadow: `0 ${25 * bookDimensions.scale}px ${50 * bookDimensions.scale}px rgba(0,0,0,0.2), 0 ${10 * bookDimensions.scale}px ${20 * bookDimensions.scale}px rgba(0,0,0,0.1)`,
+            // An open spread's shadow falls from its right half, which the book opens out of
+            boxShadow: isSpread ? 'none' : bookShadow,
             opacity: 1,
             visibility: 'visible',
             zIndex: 1,
@@ -493,13 +577,13 @@ const Book3D: React.FC = () => {
             transform: 'translateZ(0)',
             willChange: 'transform',
             backfaceVisibility: 'hidden',
-            background: 'var(--secondary-background)'
+            background: isSpread ? 'transparent' : 'var(--secondary-background)'
           }}
         >
           {/* Book Cover */}
           <div 
             ref={coverRef}
-            className="book-cover absolute inset-0 z-10"
+            className={`book-cover absolute z-10 ${isSpread ? 'inset-y-0 left-1/2 w-1/2' : 'inset-0'}`}
             style={{ 
               transformStyle: 'preserve-3d',
               backfaceVisibility: 'hidden',
@@ -527,60 +611,65 @@ const Book3D: React.FC = () => {
               imageRendering: '-webkit-optimize-contrast',
               background: 'var(--background)'
             }}>
-              {/* Left Sidebar */}
-              <div className="absolute left-0 top-0 w-1/5 h-full" style={{
-                backgroundColor: 'var(--accent-1)'
-              }}>
-              </div>
-              
-              {/* Main Content Area */}
-              <div className="absolute right-0 top-0 w-4/5 h-full flex items-center" style={{ 
-                overflow: 'visible', 
-                clipPath: 'none',
-                WebkitFontSmoothing: 'antialiased',
-                MozOsxFontSmoothing: 'grayscale',
-                textRendering: 'optimizeLegibility'
-              }}>
-                {/* Interior Image */}
-                <div className="w-1/2 h-full flex items-center justify-center p-4">
-                  <div className="w-full h-4/5 rounded-lg flex items-center justify-center" style={{
-                    backgroundImage: 'url(/photos/cover.jpeg)',
-                    backgroundSize: 'cover',
-                    backgroundPosition: 'center',
-                    backgroundRepeat: 'no-repeat',
-                    imageRendering: '-webkit-optimize-contrast',
-                    backgroundColor: 'var(--secondary-background)'
-                }}>
-                    <div className="text-sm" style={{ color: 'var(--typography-secondary)' }}>Interior</div>
+              {/* Custom cover, or the default studio cover */}
+              {cover ?? (
+                <>
+                  {/* Left Sidebar */}
+                  <div className="absolute left-0 top-0 w-1/5 h-full" style={{
+                    backgroundColor: 'var(--accent-1)'
+                  }}>
                   </div>
-                </div>
-                
-                {/* Text Content */}
-                <div className="w-1/2 h-full flex flex-col justify-center px-4 sm:px-6 md:px-8 py-2 sm:py-3 md:py-4">
-                  <div className="space-y-2 sm:space-y-3 md:space-y-4">
-                    <h1 className="font-display text-xl sm:text-2xl md:text-3xl lg:text-4xl font-bold tracking-tight" style={{
-                      color: 'var(--foreground)',
-                      WebkitFontSmoothing: 'antialiased',
-                      MozOsxFontSmoothing: 'grayscale',
-                      textRendering: 'optimizeLegibility',
-                      transform: 'translateZ(0)',
-                      willChange: 'transform'
-                    }}>
-                      INTERIORS
-                    </h1>
-                    <p className="font-body text-xs sm:text-sm md:text-base leading-relaxed" style={{
-                      WebkitFontSmoothing: 'antialiased',
-                      MozOsxFontSmoothing: 'grayscale',
-                      textRendering: 'optimizeLegibility',
-                      transform: 'translateZ(0)',
-                      willChange: 'transform',
-                      color: 'var(--typography-secondary)'
+              
+                  {/* Main Content Area */}
+                  <div className="absolute right-0 top-0 w-4/5 h-full flex items-center" style={{ 
+                    overflow: 'visible', 
+                    clipPath: 'none',
+                    WebkitFontSmoothing: 'antialiased',
+                    MozOsxFontSmoothing: 'grayscale',
+                    textRendering: 'optimizeLegibility'
+                  }}>
+                    {/* Interior Image */}
+                    <div className="w-1/2 h-full flex items-center justify-center p-4">
+                      <div className="w-full h-4/5 rounded-lg flex items-center justify-center" style={{
+                        backgroundImage: 'url(/photos/cover.jpeg)',
+                        backgroundSize: 'cover',
+                        backgroundPosition: 'center',
+                        backgroundRepeat: 'no-repeat',
+                        imageRendering: '-webkit-optimize-contrast',
+                        backgroundColor: 'var(--secondary-background)'
                     }}>
-                      Residential • Commercial • Conceptual
-                    </p>
+                        <div className="text-sm" style={{ color: 'var(--typography-secondary)' }}>Interior</div>
+                      </div>
+                    </div>
+                
+                    {/* Text Content */}
+                    <div className="w-1/2 h-full flex flex-col justify-center px-4 sm:px-6 md:px-8 py-2 sm:py-3 md:py-4">
+                      <div className="space-y-2 sm:space-y-3 md:space-y-4">
+                        <h1 className="font-display text-xl sm:text-2xl md:text-3xl lg:text-4xl font-bold tracking-tight" style={{
+                          color: 'var(--foreground)',
+                          WebkitFontSmoothing: 'antialiased',
+                          MozOsxFontSmoothing: 'grayscale',
+                          textRendering: 'optimizeLegibility',
+                          transform: 'translateZ(0)',
+                          willChange: 'transform'
+                        }}>
+                          INTERIORS
+                        </h1>
+                        <p className="font-body text-xs sm:text-sm md:text-base leading-relaxed" style={{
+                          WebkitFontSmoothing: 'antialiased',
+                          MozOsxFontSmoothing: 'grayscale',
+                          textRendering: 'optimizeLegibility',
+                          transform: 'translateZ(0)',
+                          willChange: 'transform',
+                          color: 'var(--typography-secondary)'
+                        }}>
+                          Residential • Commercial • Conceptual
+                        </p>
+                      </div>
+                    </div>
                   </div>
-                </div>
-              </div>
+                </>
+              )}
             </div>
             
             {/* Inside Face */}
@@ -592,6 +681,7 @@ const Book3D: React.FC = () => {
               background: 'var(--secondary-background)',
               borderColor: 'var(--accent-1)'
             }}>
+              {isSpread && !hasContents && renderPage(0)}
               {/* <div className="text-center px-4 sm:px-6 md:px-8">
                 <h2 className="font-display text-lg sm:text-xl md:text-2xl font-light mb-1 sm:mb-2 tracking-wider" style={{ color: 'var(--typography-secondary)' }}>Inside Cover</h2>
                 <p className="font-body text-xs sm:text-sm" style={{ color: 'var(--typography-secondary)' }}>Welcome to the curated journey of Art, Design, and Photography.</p>
@@ -602,9 +692,10 @@ const Book3D: React.FC = () => {
           {/* Pages Container */}
           <div 
             ref={pagesContainerRef}
-            className="pages-container absolute inset-0"
+            className={`pages-container absolute ${isSpread ? 'inset-y-0 left-1/2 w-1/2' : 'inset-0'}`}
             style={{ 
               transformStyle: 'preserve-3d',
+              boxShadow: isSpread ? bookShadow : 'none',
               opacity: 1,
               visibility: 'visible',
               zIndex: 2,
@@ -615,17 +706,37 @@ const Book3D: React.FC = () => {
               backfaceVisibility: 'hidden'
             }}
           >
-            {interiorTopics.map((topic, index) => (
-              <BookPage
-                key={index}
-                story={topic}
-                pageIndex={index}
-                totalPages={interiorTopics.length}
+            {onContentsSelect && (
+              <BookContents
+                topics={interiorTopics}
+                onSelect={onContentsSelect}
+                back={isSpread ? renderPage(0) : undefined}
               />
-            ))}
+            )}
+            {isSpread ? renderLeaves() : interiorTopics.map((_, index) => renderPage(index))}
           </div>
+
+          {isWebGLActive && (
+            <PageCurlRenderer
+              rootRef={containerRef}
+              interiorTopics={interiorTopics}
+              width={bookDimensions.width}
+              height={bookDimensions.height}
+              perspective={perspective}
+              onFallback={fallBackToCss}
+            />
+          )}
         </div>
       </div>
+
+      {lightboxIndex !== null && (
+        <ImageLightbox
+          images={lightboxImages}
+          index={lightboxIndex}
+          onIndexChange={setLightboxIndex}
+          onClose={closeLightbox}
+        />
+      )}
     </div>
   );
 };
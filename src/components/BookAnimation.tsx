@@ -3,9 +3,30 @@
 import React, { useEffect, useRef, useCallback, useState } from 'react';
 import { gsap } from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
-import Book3D from './Book3D';
+import Book3D, { type BookRenderer } from './Book3D';
+import BookControls from './BookControls';
 import ContactSection from './ContactSection';
-import { useBookContext } from '../contexts/BookContext';
+import GestureHandler from './GestureHandler';
+import SoundToggle from './SoundToggle';
+import { PAGES_PER_VIEW, useBookContext, type BookLayout, type BookMode } from '../contexts/BookContext';
+import { useBookDeepLink } from '../hooks/useBookDeepLink';
+import { useBookKeyboardNavigation } from '../hooks/useBookKeyboardNavigation';
+import { usePageTurnSound } from '../hooks/usePageTurnSound';
+import type { InteriorTopic } from '../types/portfolio';
+import type { StudioConfig } from '../types/studio';
+import {
+  getContactFadeStart,
+  getContactProgress,
+  getContentsRestProgress,
+  getPageSpan,
+  getPageFromProgress,
+  getPhase,
+  getViewStart,
+  progressToScroll
+} from '../utils/bookProgress';
+import { createBookTimeline, getBookElements, isBookRendered } from '../utils/bookTimeline';
+import { pageTurnAudio } from '../utils/pageTurnAudio';
+import { LOW_FPS_THRESHOLD, reportLowFps } from '../utils/performanceMonitor';
 
 // Register GSAP plugins
 if (typeof window !== 'undefined') {
@@ -14,36 +35,13 @@ if (typeof window !== 'undefined') {
 
 // Performance-optimized animation configuration
 const ANIMATION_CONFIG = {
-  // Timing constants - Optimized for smooth content animations
-  COVER_DURATION: 0.08,
-  CONTENT_PHASE_RATIO: 0.6,
-  FLIP_PHASE_RATIO: 0.4,
-  
+  // Cover and page timing lives in utils/bookTimeline, phase lengths in utils/bookProgress
+
   // Easing functions for smooth animations
   EASING: {
-    CONTENT: "power2.out",
-    FLIP: "power2.inOut",
-    COVER: "power2.inOut",
     BREATHING: "power1.inOut"
   },
   
-  // Stagger timing for content elements - Optimized for smooth sequential reveals
-  STAGGER: {
-    YEAR_BADGE: 0,
-    TITLE: 0.1,
-    SUBTITLE: 0.2,
-    IMAGE: 0.3,
-    CONTENT: 0.4,
-    ARTIST: 0.5,
-    PAGE_NUMBER: 0.6
-  },
-  
-  // Animation properties
-  CONTENT: {
-    INITIAL: { opacity: 0, y: 20 },
-    FINAL: { opacity: 1, y: 0 }
-  },
-  
   // Performance settings
   SCRUB: 1,
   PIN_SPACING: true,
@@ -61,20 +59,31 @@ const ANIMATION_CONFIG = {
 const PerformanceMonitor = {
   frameCount: 0,
   lastTime: performance.now(),
+  lastFrameTime: performance.now(),
   
   start() {
     this.frameCount = 0;
     this.lastTime = performance.now();
+    this.lastFrameTime = this.lastTime;
   },
   
   update() {
-    this.frameCount++;
     const currentTime = performance.now();
+
+    // Hidden tabs pause animation frames, which says nothing about the book: start over
+    if (document.hidden || currentTime - this.lastFrameTime >= 1000) {
+      this.start();
+      return;
+    }
+
+    this.frameCount++;
+    this.lastFrameTime = currentTime;
     
     if (currentTime - this.lastTime >= 1000) {
       const fps = Math.round((this.frameCount * 1000) / (currentTime - this.lastTime));
-      if (fps < 30) {
-        console.warn(`Low FPS detected: ${fps}. Consider reducing animation complexity.`);
+      // Book3D drops its WebGL page curl on these reports
+      if (fps < LOW_FPS_THRESHOLD) {
+        reportLowFps(fps);
       }
       this.frameCount = 0;
       this.lastTime = currentTime;
@@ -91,11 +100,189 @@ const PerformanceMonitor = {
 //   };
 // };
 
-const BookAnimation: React.FC = () => {
+// Same breakpoint Book3D uses for its mobile layout
+const MOBILE_QUERY = '(max-width: 768px)';
+
+// Screens wide enough, and wider than tall, to show two pages side by side
+const SPREAD_QUERY = '(min-width: 1024px) and (orientation: landscape)';
+
+// Screen heights of scrolling through the book. A spread turns two pages per flip,
+// so it needs half the distance.
+const SCROLL_SCREENS: Record<BookLayout, number> = { single: 2, spread: 1 };
+
+// Page turns per second that play the quickest, highest turn sound
+const FAST_FLIPS_PER_SECOND = 4;
+
+// A new timeline jumps to the reader's place and passes every turn on the way: stay quiet
+const TIMELINE_SETTLE_MS = 500;
+
+// Pick a book mode per breakpoint
+export interface ResponsiveBookMode {
+  mobile: BookMode;
+  desktop: BookMode;
+}
+
+interface BookAnimationProps {
+  projects: InteriorTopic[];
+  // Contact details shown on the closing contact page
+  studio: StudioConfig;
+  // 'scroll' pins the book and scrubs it with the page scroll, 'paged' turns pages with buttons
+  mode?: BookMode | ResponsiveBookMode;
+  // 'auto' shows two-page spreads on wide landscape screens and single pages elsewhere
+  layout?: BookLayout | 'auto';
+  // How turning pages are drawn; see Book3D
+  renderer?: BookRenderer;
+}
+
+const BookAnimation: React.FC<BookAnimationProps> = ({ projects, studio, mode = 'scroll', layout = 'single', renderer = 'css' }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const bookContainerRef = useRef<HTMLDivElement>(null);
   const timelineRef = useRef<gsap.core.Timeline | null>(null);
-  const { setCurrentPage, isAutoScrolling, isSmartScrolling } = useBookContext();
+  const {
+    currentPage,
+    totalPages,
+    isAnimating,
+    naturalPageFlip,
+    scrollToContact,
+    scrollToContents,
+    setCurrentPage,
+    isAutoScrolling,
+    isSmartScrolling,
+    registerPagedBook,
+    setBookLayout
+  } = useBookContext();
+
+  // Resolve the mode for the current breakpoint; plain strings apply everywhere
+  const mobileMode = typeof mode === 'string' ? mode : mode.mobile;
+  const desktopMode = typeof mode === 'string' ? mode : mode.desktop;
+  const [activeMode, setActiveMode] = useState<BookMode>(desktopMode);
+  const isPaged = activeMode === 'paged';
+
+  useEffect(() => {
+    if (mobileMode === desktopMode) {
+      setActiveMode(desktopMode);
+      return;
+    }
+
+    const query = window.matchMedia(MOBILE_QUERY);
+    const updateMode = () => setActiveMode(query.matches ? mobileMode : desktopMode);
+    updateMode();
+    query.addEventListener('change', updateMode);
+    return () => query.removeEventListener('change', updateMode);
+  }, [mobileMode, desktopMode]);
+
+  // Resolve the layout the same way; navigation in the context steps by its views
+  const [activeLayout, setActiveLayout] = useState<BookLayout>(layout === 'auto' ? 'single' : layout);
+  const pagesPerView = PAGES_PER_VIEW[activeLayout];
+
+  useEffect(() => {
+    if (layout !== 'auto') {
+      setActiveLayout(layout);
+      return;
+    }
+
+    const query = window.matchMedia(SPREAD_QUERY);
+    const updateLayout = () => setActiveLayout(query.matches ? 'spread' : 'single');
+    updateLayout();
+    query.addEventListener('change', updateLayout);
+    return () => query.removeEventListener('change', updateLayout);
+  }, [layout]);
+
+  useEffect(() => {
+    setBookLayout(activeLayout);
+    return () => setBookLayout('single');
+  }, [activeLayout, setBookLayout]);
+
+  // Paged mode: the timeline is driven by this progress instead of the scroll position.
+  // It opens on the table of contents with its entries shown.
+  const pagedProgressRef = useRef(getContentsRestProgress());
+  const [isContentsShown, setIsContentsShown] = useState(true);
+  const [isContactShown, setIsContactShown] = useState(false);
+
+  useEffect(() => {
+    const element = bookContainerRef.current;
+    if (!isPaged || !element) return;
+
+    // Context navigation tweens `progress`, which seeks the paused timeline
+    registerPagedBook({
+      element,
+      get progress() {
+        return pagedProgressRef.current;
+      },
+      set progress(value: number) {
+        pagedProgressRef.current = value;
+        timelineRef.current?.progress(value);
+      }
+    });
+    return () => registerPagedBook(null);
+  }, [isPaged, registerPagedBook]);
+
+  // Open the book at a linked page and keep the URL in sync with the page being read
+  useBookDeepLink(projects);
+
+  // Arrow keys, PageUp/PageDown, Home/End and Enter drive the pinned book
+  useBookKeyboardNavigation(containerRef);
+
+  // Horizontal swipes turn one page, or one spread; ignored while a flip is running so
+  // flips don't stack
+  const flipBy = useCallback((offset: number) => {
+    const targetPage = currentPage + offset * pagesPerView;
+    if (isAnimating || targetPage < 0 || targetPage >= totalPages) return;
+    naturalPageFlip(targetPage);
+  }, [currentPage, totalPages, pagesPerView, isAnimating, naturalPageFlip]);
+
+  const handleSwipeLeft = useCallback(() => flipBy(1), [flipBy]);
+  const handleSwipeRight = useCallback(() => flipBy(-1), [flipBy]);
+
+  // Table of contents entries open their page, then focus it so screen readers announce it
+  const handleContentsSelect = useCallback((pageIndex: number) => {
+    if (isAnimating) return;
+    naturalPageFlip(pageIndex).then(() => {
+      containerRef.current
+        ?.querySelector<HTMLElement>(`.book-page[data-page="${pageIndex}"]`)
+        ?.focus({ preventScroll: true });
+    });
+  }, [isAnimating, naturalPageFlip]);
+
+  // Paged controls: next on the last page closes the book onto the contact section,
+  // previous from the contact section reopens the last page and previous from the
+  // first page returns to the table of contents. In a spread these are the left pages
+  // of the first and last views.
+  const lastPage = getViewStart(totalPages - 1, pagesPerView);
+  const shownPage = Math.min(currentPage, lastPage);
+  const shownLastPage = Math.min(shownPage + pagesPerView, totalPages);
+  const shownPageLabel = shownLastPage > shownPage + 1
+    ? `Pages ${shownPage + 1}–${shownLastPage} of ${totalPages}`
+    : `Page ${shownPage + 1} of ${totalPages}`;
+
+  const handlePrevious = useCallback(() => {
+    if (isAnimating) return;
+    if (isContactShown) {
+      naturalPageFlip(lastPage);
+      return;
+    }
+    if (shownPage === 0) {
+      if (!isContentsShown) scrollToContents();
+      return;
+    }
+    flipBy(-1);
+  }, [isAnimating, isContactShown, isContentsShown, shownPage, lastPage, naturalPageFlip, scrollToContents, flipBy]);
+
+  const handleNext = useCallback(() => {
+    if (isAnimating) return;
+    if (isContentsShown) {
+      naturalPageFlip(0);
+      return;
+    }
+    if (shownPage === lastPage) {
+      scrollToContact();
+      return;
+    }
+    flipBy(1);
+  }, [isAnimating, isContentsShown, shownPage, lastPage, naturalPageFlip, scrollToContact, flipBy]);
+
+  // Next leads to the contact section from here
+  const isOnLastPage = !isContentsShown && shownPage === lastPage;
   
   // State to track container height to prevent hydration mismatch
   const [containerHeight, setContainerHeight] = useState(1200);
@@ -103,9 +290,9 @@ const BookAnimation: React.FC = () => {
   // Update container height after component mounts to prevent hydration mismatch
   useEffect(() => {
     if (typeof window !== 'undefined') {
-      setContainerHeight(window.innerHeight * 2);
+      setContainerHeight(window.innerHeight * SCROLL_SCREENS[activeLayout]);
     }
-  }, []);
+  }, [activeLayout]);
   
   // Cache DOM elements for performance
   const cachedElements = useRef<{
@@ -128,40 +315,46 @@ const BookAnimation: React.FC = () => {
 
   // Cache DOM elements for better performance
   const cacheElements = useCallback(() => {
-    if (!containerRef.current) return;
-    
+    const container = containerRef.current;
+    if (!container) return;
+
+    // Only look inside this book so other books on the page are left alone
     cachedElements.current = {
-      cover: document.querySelector('.book-cover') as HTMLElement,
-      pages: Array.from(document.querySelectorAll('.book-page[data-page]')) as HTMLElement[],
-      bookBase: document.querySelector('.book-base') as HTMLElement,
-      progressBars: Array.from(document.querySelectorAll('.page-progress')) as HTMLElement[],
-      scrollInstruction: document.querySelector('.fullscreen-scroll-instruction') as HTMLElement,
-      contactSection: document.querySelector('.contact-section') as HTMLElement,
-      contactElements: Array.from(document.querySelectorAll('.contact-element')) as HTMLElement[]
+      ...getBookElements(container),
+      progressBars: Array.from(container.querySelectorAll<HTMLElement>('.page-progress')),
+      scrollInstruction: container.querySelector<HTMLElement>('.fullscreen-scroll-instruction'),
+      contactSection: container.querySelector<HTMLElement>('.contact-section'),
+      contactElements: Array.from(container.querySelectorAll<HTMLElement>('.contact-element'))
     };
   }, []);
 
-    // Optimized onUpdate callback with debouncing and caching
-  const optimizedOnUpdate = useCallback((self: ScrollTrigger) => {
-    // Skip ScrollTrigger updates during smart scroll to prevent interference
-    if (isSmartScrolling) {
-      return;
+  // Progress per second, smoothed; page-turn sounds follow how fast the reader flips
+  const progressSpeedRef = useRef({ progress: 0, time: 0, perSecond: 0 });
+  const timelineCreatedAtRef = useRef(0);
+
+  const { isSoundOn, isSupported: isSoundSupported, toggleSound } = usePageTurnSound();
+
+  const handlePageTurn = useCallback(() => {
+    if (performance.now() - timelineCreatedAtRef.current < TIMELINE_SETTLE_MS) return;
+    const flipsPerSecond = progressSpeedRef.current.perSecond / getPageSpan(cachedElements.current.pages.length, pagesPerView);
+    pageTurnAudio.playPageTurn(flipsPerSecond / FAST_FLIPS_PER_SECOND);
+  }, [pagesPerView]);
+
+  // Sync page state, indicators and the contact overlay with the timeline progress
+  const applyProgress = useCallback((progress: number) => {
+    const contactThreshold = getContactProgress();
+
+    // Track how fast progress moves; a gap of a quarter second means the book was idle
+    const speed = progressSpeedRef.current;
+    const now = performance.now();
+    const elapsed = (now - speed.time) / 1000;
+    if (elapsed > 0) {
+      const perSecond = elapsed < 0.25 ? Math.abs(progress - speed.progress) / elapsed : 0;
+      speed.perSecond = speed.perSecond * 0.5 + perSecond * 0.5;
     }
+    speed.progress = progress;
+    speed.time = now;
 
-    const progress = self.progress;
-    
-    // Prevent scrolling beyond contact threshold by checking scroll position
-    const contactThreshold = 0.92;
-    if (progress >= contactThreshold) {
-      const scrollPosition = window.scrollY;
-      const maxScrollPosition = self.start + (self.end - self.start) * contactThreshold;
-      
-      // If scrolled beyond the contact threshold, prevent further scrolling
-      if (scrollPosition > maxScrollPosition) {
-        window.scrollTo(0, maxScrollPosition);
-      }
-    }
-    
     // Update progress indicators smoothly with cached elements
     cachedElements.current.progressBars.forEach((bar, index) => {
       const pageProgress = Math.max(0, Math.min(1, progress * 10 - index));
@@ -176,14 +369,11 @@ const BookAnimation: React.FC = () => {
     }
 
     // Calculate current page based on progress
-    const pagesProgress = 0.84;
-    const progressPerPage = pagesProgress / cachedElements.current.pages.length;
-    const pageProgress = Math.max(0, (progress - 0.08) / progressPerPage);
-    const currentPageIndex = Math.min(Math.floor(pageProgress), cachedElements.current.pages.length - 1);
+    const currentPageIndex = getPageFromProgress(progress, cachedElements.current.pages.length, pagesPerView);
     setCurrentPage(currentPageIndex);
 
     // Handle contact section visibility with fixed thresholds
-    const fadeStartThreshold = 0.85;
+    const fadeStartThreshold = getContactFadeStart(cachedElements.current.pages.length, pagesPerView);
     
     // Smooth fade control for contact section
     if (cachedElements.current.contactSection) {
@@ -230,7 +420,31 @@ const BookAnimation: React.FC = () => {
         }
       }
     }
-  }, [isSmartScrolling, setCurrentPage]);
+  }, [setCurrentPage, pagesPerView]);
+
+  // Optimized onUpdate callback with caching
+  const optimizedOnUpdate = useCallback((self: ScrollTrigger) => {
+    // Skip ScrollTrigger updates during smart scroll to prevent interference
+    if (isSmartScrolling) {
+      return;
+    }
+
+    const progress = self.progress;
+
+    // Prevent scrolling beyond contact threshold by checking scroll position
+    const contactThreshold = getContactProgress();
+    if (progress >= contactThreshold) {
+      const scrollPosition = window.scrollY;
+      const maxScrollPosition = progressToScroll(self, contactThreshold);
+
+      // If scrolled beyond the contact threshold, prevent further scrolling
+      if (scrollPosition > maxScrollPosition) {
+        window.scrollTo(0, maxScrollPosition);
+      }
+    }
+
+    applyProgress(progress);
+  }, [isSmartScrolling, applyProgress]);
 
   useEffect(() => {
     if (!containerRef.current || !bookContainerRef.current) return;
@@ -239,19 +453,20 @@ const BookAnimation: React.FC = () => {
 
     console.log('Setting up optimized ScrollTrigger animation system...');
 
+    // Pending setup retry and monitor frame, cancelled on cleanup: this effect reruns on every
+    // auto scroll, and stacked monitor loops would each count the same frames
+    let setupTimeoutId: ReturnType<typeof setTimeout> | undefined;
+    let monitorFrameId: number | undefined;
+
     // Wait for book elements to be rendered
     const setupScrollTrigger = () => {
-      const cover = document.querySelector('.book-cover');
-      const pages = document.querySelectorAll('.book-page[data-page]');
-      const bookBase = document.querySelector('.book-base');
-      
-      if (!cover || pages.length === 0 || !bookBase) {
+      if (!isBookRendered(container)) {
         console.log('Book elements not ready, retrying...');
-        setTimeout(setupScrollTrigger, 100);
+        setupTimeoutId = setTimeout(setupScrollTrigger, 100);
         return;
       }
 
-      console.log(`Found ${pages.length} pages and cover, creating optimized timeline...`);
+      console.log('Book rendered, creating optimized timeline...');
 
       // Clean up any existing timelines and ScrollTriggers
       if (timelineRef.current) {
@@ -271,39 +486,22 @@ const BookAnimation: React.FC = () => {
       // Cache DOM elements for performance
       cacheElements();
 
-      // Set initial states for all content elements with performance optimizations
-      pages.forEach((page, index) => {
-        const contentElements = page.querySelectorAll('.year-badge, .page-title, .page-subtitle, .page-content, .artist-name, .page-number, img');
-        console.log(`Setting initial state for page ${index}, found ${contentElements.length} content elements`);
-        
-        // Use gsap.set for better performance with GPU acceleration
-        gsap.set(contentElements, { 
-          ...ANIMATION_CONFIG.CONTENT.INITIAL,
-          clearProps: "transform",
-          force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION,
-          willChange: 'transform, opacity'
-        });
-      });
-
-      // Ensure book base remains visible throughout animations with GPU acceleration
-      gsap.set(bookBase, {
-        opacity: 1,
-        visibility: 'visible',
-        zIndex: 1,
-        force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION,
-        willChange: 'transform'
-      });
-
-      // Define contact threshold - this is where scrolling should stop
-      // const contactThreshold = 0.92; // Used in optimizedOnUpdate
-      
-      // Create unified master timeline with optimized ScrollTrigger
-      const masterTimeline = gsap.timeline({
+      // Create unified master timeline - paused and seeked by the paged controls,
+      // or scrubbed by the optimized ScrollTrigger
+      const masterTimeline = createBookTimeline(container, isPaged ? {
+        paused: true,
+        onUpdate: () => {
+          const progress = masterTimeline.progress();
+          applyProgress(progress);
+          setIsContentsShown(progress < getPhase('pages').start);
+          setIsContactShown(progress >= getContactProgress());
+        }
+      } : {
         scrollTrigger: {
           id: 'book-animation',
           trigger: container,
           start: "top top",
-          end: `+=${window.innerHeight * 2}`, // Match container height
+          end: `+=${window.innerHeight * SCROLL_SCREENS[activeLayout]}`, // Match container height
           scrub: ANIMATION_CONFIG.SCRUB,
           pin: true,
           pinSpacing: true, // Enable pin spacing to push subsequent content down
@@ -325,157 +523,16 @@ const BookAnimation: React.FC = () => {
             }
           }
         }
-      });
+      }, { fastContent: isAutoScrolling, onPageTurn: handlePageTurn });
+      timelineCreatedAtRef.current = performance.now();
 
       // Store timeline reference for cleanup
       timelineRef.current = masterTimeline;
 
-      // Phase 1: Cover opens (0% to 8%) with GPU acceleration
-      masterTimeline.to('.book-cover', {
-        rotationY: -180,
-        transformOrigin: 'left center',
-        duration: ANIMATION_CONFIG.COVER_DURATION,
-        ease: ANIMATION_CONFIG.EASING.COVER,
-        force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION
-      }, 0);
-      
-      // Fade in the inside cover as the cover flips
-      masterTimeline.fromTo('.cover-inside', {
-        opacity: 0.7
-      }, {
-        opacity: 1,
-        duration: ANIMATION_CONFIG.COVER_DURATION * 0.7,
-        ease: 'power1.out',
-        force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION
-      }, 0.04);
-      
-      // Fade in the first page as the cover finishes flipping
-      masterTimeline.fromTo('.book-page[data-page="0"]', {
-        opacity: 0
-      }, {
-        opacity: 1,
-        duration: ANIMATION_CONFIG.COVER_DURATION * 0.7,
-        ease: 'power1.out',
-        force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION
-      }, ANIMATION_CONFIG.COVER_DURATION - 0.02);
-
-      // Phase 2: Pages with unified content animations (8% to 92%)
-      const totalPages = pages.length;
-      const pagesProgress = 0.84;
-      const progressPerPage = pagesProgress / totalPages;
-
-      // Create unified page animation function with GPU optimization
-      const createPageAnimations = (pageIndex: number, startProgress: number, progressPerPage: number) => {
-        const contentDuration = progressPerPage * ANIMATION_CONFIG.CONTENT_PHASE_RATIO;
-        const flipDuration = progressPerPage * ANIMATION_CONFIG.FLIP_PHASE_RATIO;
-        const flipStartProgress = startProgress + contentDuration;
-        
-        console.log(`Page ${pageIndex + 1}: ${(startProgress * 100).toFixed(1)}% to ${((startProgress + progressPerPage) * 100).toFixed(1)}%`);
-
-        // Content reveal animations with unified timing and GPU acceleration
-        const contentAnimations = [
-          { selector: '.year-badge', stagger: ANIMATION_CONFIG.STAGGER.YEAR_BADGE },
-          { selector: '.page-title', stagger: ANIMATION_CONFIG.STAGGER.TITLE },
-          { selector: '.page-subtitle', stagger: ANIMATION_CONFIG.STAGGER.SUBTITLE },
-          { selector: 'img', stagger: ANIMATION_CONFIG.STAGGER.IMAGE },
-          { selector: '.page-content', stagger: ANIMATION_CONFIG.STAGGER.CONTENT },
-          { selector: '.artist-name', stagger: ANIMATION_CONFIG.STAGGER.ARTIST },
-          { selector: '.page-number', stagger: ANIMATION_CONFIG.STAGGER.PAGE_NUMBER }
-        ];
-
-        // Add content animations with consistent timing and GPU acceleration
-        contentAnimations.forEach(({ selector, stagger }) => {
-          const duration = isAutoScrolling ? contentDuration * 0.25 : contentDuration * 0.4;
-          
-          masterTimeline.fromTo(
-            `.book-page[data-page="${pageIndex}"] ${selector}`,
-            ANIMATION_CONFIG.CONTENT.INITIAL,
-            {
-              ...ANIMATION_CONFIG.CONTENT.FINAL,
-              duration,
-              ease: ANIMATION_CONFIG.EASING.CONTENT,
-              force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION,
-              willChange: 'transform, opacity'
-            },
-            startProgress + (contentDuration * stagger)
-          );
-        });
-
-        // Add a small delay before page flip to ensure content animations complete
-        const contentCompletionDelay = contentDuration * 0.1;
-
-        // REALISTIC BOOK PAGE FLIP ANIMATION - Improved timing with GPU acceleration
-        // Phase 1: Prepare page for flip
-        masterTimeline.set(`.book-page[data-page="${pageIndex}"]`, {
-          opacity: 1,
-          visibility: 'visible',
-          transformOrigin: 'left center',
-          force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION,
-          willChange: 'transform'
-        }, flipStartProgress + contentCompletionDelay);
-
-        // Phase 2: Initial curl effect with GPU acceleration
-        masterTimeline.to(`.book-page[data-page="${pageIndex}"]`, {
-          rotationX: 0,
-          rotationY: -15,
-          duration: flipDuration * 0.2,
-          ease: "power2.out",
-          force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION
-        }, flipStartProgress + contentCompletionDelay + flipDuration * 0.05);
-
-        // Phase 3: Main flip animation with GPU acceleration
-        masterTimeline.to(`.book-page[data-page="${pageIndex}"]`, {
-          rotationY: -180,
-          rotationX: 0,
-          duration: flipDuration * 0.5,
-          ease: "power2.inOut",
-          force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION
-        }, flipStartProgress + contentCompletionDelay + flipDuration * 0.25);
-
-        // Phase 4: Show page back ONLY when page is fully flipped
-        masterTimeline.set(`.book-page[data-page="${pageIndex}"] > div:last-child`, {
-          opacity: 1,
-          visibility: 'visible',
-          backfaceVisibility: 'visible',
-          force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION
-        }, flipStartProgress + contentCompletionDelay + flipDuration * 0.75);
-
-        // Phase 5: Final settling with GPU acceleration
-        masterTimeline.to(`.book-page[data-page="${pageIndex}"]`, {
-          rotationX: 0,
-          rotationY: -180,
-          duration: flipDuration * 0.25,
-          ease: "power2.out",
-          force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION
-        }, flipStartProgress + contentCompletionDelay + flipDuration * 0.75);
-
-        // REVERSE ANIMATION: When scrolling back up
-        masterTimeline.set(`.book-page[data-page="${pageIndex}"] > div:last-child`, {
-          opacity: 0,
-          visibility: 'hidden',
-          backfaceVisibility: 'hidden',
-          force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION
-        }, flipStartProgress + contentCompletionDelay + flipDuration * 0.25 - 0.001);
-
-        // Add subtle book movement for realism with GPU acceleration
-        masterTimeline.to('.book-base', {
-          rotationY: -1,
-          duration: flipDuration * 0.4,
-          ease: "power2.inOut",
-          yoyo: true,
-          repeat: 1,
-          force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION
-        }, flipStartProgress + contentCompletionDelay + flipDuration * 0.3);
-      };
-
-      // Apply unified animations to all pages
-      for (let i = 0; i < totalPages; i++) {
-        const startProgress = 0.08 + (i * progressPerPage);
-        createPageAnimations(i, startProgress, progressPerPage);
-      }
+      const bookShell = container.querySelector('.book-container');
 
       // Add subtle book breathing animation with performance optimization
-      gsap.to('.book-container', {
+      gsap.to(bookShell, {
         y: -2,
         duration: 6,
         ease: ANIMATION_CONFIG.EASING.BREATHING,
@@ -485,68 +542,47 @@ const BookAnimation: React.FC = () => {
         force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION
       });
 
-      // Add sophisticated book closing animation for end-state transition with GPU acceleration
-      // Phase 1: Start closing animation (85% to 88%)
-      masterTimeline.to('.book-container', {
+      // Add sophisticated book closing animation while the contact section fades in.
+      // Scrubbing backwards reverses these tweens, so no separate reverse steps are needed.
+      const closingStart = getContactFadeStart(cachedElements.current.pages.length, pagesPerView);
+      const closingLength = getContactProgress() - closingStart;
+
+      // Phase 1: Start closing animation
+      masterTimeline.to(bookShell, {
         scale: 0.95,
         y: -5,
         rotationY: -2,
-        duration: 0.3,
+        duration: closingLength * 0.43,
         ease: "power2.out",
         force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION
-      }, 0.85);
+      }, closingStart);
 
-      // Phase 2: Continue closing (88% to 91%)
-      masterTimeline.to('.book-container', {
+      // Phase 2: Continue closing
+      masterTimeline.to(bookShell, {
         scale: 0.8,
         y: -20,
         rotationY: -8,
         opacity: 0.6,
-        duration: 0.3,
+        duration: closingLength * 0.43,
         ease: "power2.inOut",
         force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION
-      }, 0.88);
+      }, closingStart + closingLength * 0.43);
 
-      // Phase 3: Final closing state (91% to 92%)
-      masterTimeline.to('.book-container', {
+      // Phase 3: Final closing state, reached exactly at the contact threshold
+      masterTimeline.to(bookShell, {
         scale: 0.65,
         y: -40,
         rotationY: -12,
         opacity: 0.4,
-        duration: 0.2,
+        duration: closingLength * 0.14,
         ease: "power2.in",
         force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION
-      }, 0.91);
-
-      // Reverse animations for scrolling back up with GPU acceleration
-      masterTimeline.to('.book-container', {
-        scale: 0.8,
-        y: -20,
-        rotationY: -8,
-        opacity: 0.6,
-        duration: 0.2,
-        ease: "power2.out",
-        force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION
-      }, 0.91);
+      }, closingStart + closingLength * 0.86);
 
-      masterTimeline.to('.book-container', {
-        scale: 0.95,
-        y: -5,
-        rotationY: -2,
-        duration: 0.3,
-        ease: "power2.out",
-        force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION
-      }, 0.88);
-
-      masterTimeline.to('.book-container', {
-        scale: 1,
-        y: 0,
-        rotationY: 0,
-        opacity: 1,
-        duration: 0.3,
-        ease: "power2.out",
-        force3D: ANIMATION_CONFIG.PERFORMANCE.GPU_ACCELERATION
-      }, 0.85);
+      // A rebuilt paged timeline picks up where the reader was
+      if (isPaged) {
+        masterTimeline.progress(pagedProgressRef.current);
+      }
 
       console.log('Optimized ScrollTrigger timeline created with GPU acceleration');
       
@@ -555,16 +591,21 @@ const BookAnimation: React.FC = () => {
       
       const monitorPerformance = () => {
         PerformanceMonitor.update();
-        requestAnimationFrame(monitorPerformance);
+        monitorFrameId = requestAnimationFrame(monitorPerformance);
       };
       
-      requestAnimationFrame(monitorPerformance);
+      monitorFrameId = requestAnimationFrame(monitorPerformance);
     };
 
     // Start the setup process with proper timing
-    setTimeout(setupScrollTrigger, 200);
+    setupTimeoutId = setTimeout(setupScrollTrigger, 200);
 
     return () => {
+      clearTimeout(setupTimeoutId);
+      if (monitorFrameId !== undefined) {
+        cancelAnimationFrame(monitorFrameId);
+      }
+
       // Clean up timelines and book-related ScrollTriggers only
       if (timelineRef.current) {
         timelineRef.current.kill();
@@ -585,30 +626,61 @@ const BookAnimation: React.FC = () => {
         });
       }
     };
-  }, [isAutoScrolling, isSmartScrolling, setCurrentPage, optimizedOnUpdate, cacheElements]);
+  }, [isPaged, activeLayout, pagesPerView, isAutoScrolling, isSmartScrolling, setCurrentPage, applyProgress, optimizedOnUpdate, cacheElements, handlePageTurn]);
 
   return (
     <div 
       ref={containerRef}
       className="scroll-container"
       style={{ 
-        height: `${containerHeight}px`, // Match ScrollTrigger end position
+        // Paged books take a single screen; scroll books match the ScrollTrigger end position
+        height: isPaged ? undefined : `${containerHeight}px`,
         position: 'relative',
         willChange: 'transform' // Optimize for animations
       }}
     >
       <div 
         ref={bookContainerRef}
-        className="sticky top-0 h-screen flex items-center justify-center relative z-10"
+        className={`${isPaged ? '' : 'sticky top-0 '}h-screen flex items-center justify-center relative z-10`}
+        role="region"
+        aria-label="Portfolio book. Use the arrow keys, Page Up, Page Down, Home and End to turn pages."
         style={{ 
           willChange: 'transform',
           transform: 'translateZ(0)' // Force GPU acceleration
         }}
       >
-        <Book3D />
+        <GestureHandler
+          onSwipeLeft={handleSwipeLeft}
+          onSwipeRight={handleSwipeRight}
+          allowVerticalScroll
+        >
+          <Book3D
+            interiorTopics={projects}
+            onContentsSelect={handleContentsSelect}
+            layout={activeLayout}
+            renderer={renderer}
+          />
+        </GestureHandler>
         <ContactSection 
           isVisible={true} 
+          projects={projects}
+          studio={studio}
         />
+
+        {isSoundSupported && <SoundToggle isOn={isSoundOn} onToggle={toggleSound} />}
+
+        {/* Paged mode controls */}
+        {isPaged && (
+          <BookControls
+            status={isContactShown ? 'Contact' : isContentsShown ? 'Contents' : shownPageLabel}
+            onPrevious={handlePrevious}
+            onNext={handleNext}
+            canGoPrevious={!isAnimating && !isContentsShown}
+            canGoNext={!isAnimating && !isContactShown}
+            nextLabel={isOnLastPage ? 'Contact →' : 'Next →'}
+            nextAriaLabel={isOnLastPage ? 'Get in touch' : 'Next page'}
+          />
+        )}
       </div>
     </div>
   );
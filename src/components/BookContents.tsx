@@ -0,0 +1,96 @@
+"use client";
+
+import React from 'react';
+import type { InteriorTopic } from '../types/portfolio';
+
+interface BookContentsProps {
+  topics: InteriorTopic[];
+  // Called with the index of the chosen page
+  onSelect: (pageIndex: number) => void;
+  // Shown on the back once turned: the first page of a two-page spread
+  back?: React.ReactNode;
+}
+
+// Longer books list their projects in two columns so every entry fits on the page
+const TWO_COLUMN_THRESHOLD = 6;
+
+// Table of contents right after the cover: every project with its page number.
+// It turns like a page but is not one of the numbered pages.
+const BookContents: React.FC<BookContentsProps> = ({ topics, onSelect, back }) => {
+  const isTwoColumn = topics.length > TWO_COLUMN_THRESHOLD;
+
+  return (
+    <nav
+      className="book-contents absolute inset-0"
+      aria-label="Table of contents"
+      style={{
+        transformStyle: 'preserve-3d',
+        backfaceVisibility: 'hidden',
+        // Above every portfolio page, below the cover
+        zIndex: topics.length + 1,
+        opacity: 1,
+        visibility: 'visible',
+        overflow: 'visible',
+        clipPath: 'none',
+        transform: 'translateZ(0)',
+        willChange: 'transform',
+        WebkitFontSmoothing: 'antialiased',
+        MozOsxFontSmoothing: 'grayscale',
+        textRendering: 'optimizeLegibility',
+        background: 'var(--secondary-background)'
+      }}
+    >
+      {/* Contents - Front Side */}
+      <div
+        className="h-full flex flex-col px-4 sm:px-6 md:px-8 lg:px-16 py-4 sm:py-6 md:py-8"
+        style={{ backfaceVisibility: 'hidden', transform: 'translateZ(0)' }}
+      >
+        <h2 className="contents-heading font-display text-lg sm:text-xl md:text-2xl lg:text-3xl font-light mb-2 sm:mb-4 md:mb-6" style={{
+          color: 'var(--foreground)',
+          willChange: 'transform, opacity'
+        }}>
+          Contents
+        </h2>
+
+        <ol className={`flex-1 min-h-0 overflow-y-auto ${isTwoColumn ? 'sm:columns-2 sm:gap-8 lg:gap-12' : ''}`}>
+          {topics.map((topic, index) => (
+            <li key={topic.slug} className="contents-entry break-inside-avoid" style={{ willChange: 'transform, opacity' }}>
+              <button
+                type="button"
+                onClick={() => onSelect(index)}
+                className="group w-full flex items-baseline gap-2 py-1 sm:py-1.5 md:py-2 text-left text-xs sm:text-sm md:text-base font-light rounded-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-stone-400/50"
+                style={{ color: 'var(--typography-secondary)' }}
+                aria-label={`${topic.title}, page ${index + 1}`}
+              >
+                <span className="truncate underline-offset-4 group-hover:underline" style={{ color: 'var(--foreground)' }}>
+                  {topic.title}
+                </span>
+                {/* Dotted leader to the page number */}
+                <span className="flex-1 min-w-4 border-b border-dotted" style={{ borderColor: 'var(--typography-secondary)' }} aria-hidden="true" />
+                <span className="shrink-0 tabular-nums">{index + 1}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {/* Page Back - Only Visible When Flipped */}
+      <div
+        className="absolute inset-0"
+        style={{
+          transform: 'rotateY(180deg)',
+          backfaceVisibility: 'hidden',
+          zIndex: -1,
+          opacity: 0,
+          visibility: 'hidden',
+          pointerEvents: back ? 'auto' : 'none',
+          background: 'var(--secondary-background)'
+        }}
+      >
+        {back}
+      </div>
+    </nav>
+  );
+};
+
+export default BookContents;
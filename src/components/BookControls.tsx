@@ -0,0 +1,60 @@
+"use client";
+
+import React from 'react';
+
+interface BookControlsProps {
+  status: string;
+  onPrevious: () => void;
+  onNext: () => void;
+  canGoPrevious: boolean;
+  canGoNext: boolean;
+  nextLabel?: string;
+  nextAriaLabel?: string;
+}
+
+// Previous/next buttons and page status shown under button-driven books
+const BookControls: React.FC<BookControlsProps> = ({
+  status,
+  onPrevious,
+  onNext,
+  canGoPrevious,
+  canGoNext,
+  nextLabel = 'Next →',
+  nextAriaLabel = 'Next page'
+}) => {
+  return (
+    <nav
+      className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 flex items-center gap-4 px-4 py-2 rounded-full shadow-lg"
+      aria-label="Book pages"
+      style={{ background: 'var(--secondary-background)', color: 'var(--foreground)' }}
+    >
+      <button
+        type="button"
+        onClick={onPrevious}
+        disabled={!canGoPrevious}
+        className="px-3 py-1 text-sm font-medium transition-opacity disabled:opacity-40"
+        aria-label="Previous page"
+      >
+        ← Prev
+      </button>
+      <span
+        className="text-sm tabular-nums"
+        style={{ color: 'var(--typography-secondary)' }}
+        aria-live="polite"
+      >
+        {status}
+      </span>
+      <button
+        type="button"
+        onClick={onNext}
+        disabled={!canGoNext}
+        className="px-3 py-1 text-sm font-medium transition-opacity disabled:opacity-40"
+        aria-label={nextAriaLabel}
+      >
+        {nextLabel}
+      </button>
+    </nav>
+  );
+};
+
+export default BookControls;
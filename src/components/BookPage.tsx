@@ -2,29 +2,24 @@
 
 import React, { useState, useEffect } from 'react';
 import Image from 'next/image';
-
-interface InteriorTopic {
-  title: string;
-  subtitle: string;
-  content: string;
-  scene: string;
-  year: string;
-  artist: string;
-  image: string;
-}
+import Link from 'next/link';
+import type { InteriorTopic } from '../types/portfolio';
 
 interface BookPageProps {
   story: InteriorTopic;
   pageIndex: number;
   totalPages: number;
   onContentReady?: () => void;
+  // Opens the page image in the lightbox
+  onImageOpen?: () => void;
 }
 
 const BookPage: React.FC<BookPageProps> = ({ 
   story, 
   pageIndex, 
   totalPages, 
-  onContentReady 
+  onContentReady,
+  onImageOpen
 }) => {
   const isLeftPage = pageIndex % 2 === 0;
   const [imageLoaded, setImageLoaded] = useState(false);
@@ -53,6 +48,10 @@ const BookPage: React.FC<BookPageProps> = ({
       }`}
       data-page={pageIndex}
       data-page-index={pageIndex}
+      tabIndex={-1}
+      role="group"
+      aria-roledescription="page"
+      aria-label={`Page ${pageIndex + 1} of ${totalPages}: ${story.title}`}
       style={{ 
         transformStyle: 'preserve-3d',
         backfaceVisibility: 'hidden',
@@ -160,6 +159,16 @@ const BookPage: React.FC<BookPageProps> = ({
                     willChange: 'transform, opacity'
                   }}
                 />
+
+                {/* The book shrinks images to fit; the lightbox shows them in full */}
+                {onImageOpen && (
+                  <button
+                    type="button"
+                    onClick={onImageOpen}
+                    className="absolute inset-0 cursor-zoom-in rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-stone-400/70"
+                    aria-label={`Enlarge image of ${story.title}`}
+                  />
+                )}
               </div>
             </div>
 
@@ -175,6 +184,13 @@ const BookPage: React.FC<BookPageProps> = ({
                 }}>
                   {story.content}
                 </p>
+                <Link
+                  href={`/portfolio/${story.slug}`}
+                  className="inline-block text-xs sm:text-sm font-medium tracking-wide underline-offset-4 hover:underline"
+                  style={{ color: 'var(--foreground)' }}
+                >
+                  View project &rarr;
+                </Link>
               </div>
               
               {/* Attribution Section with Responsive Sizing */}
@@ -0,0 +1,328 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type {
+  BookingField,
+  BookingFieldErrors,
+  BookingFormValues,
+  BookingResponse,
+  BookingSlot,
+  SlotsResponse
+} from '../types/booking';
+import { getZonedDate } from '../utils/bookingSlots';
+import { BOOKING_LIMITS, validateBookingField, validateBookingRequest } from '../utils/bookingValidation';
+import { CONTACT_HONEYPOT_FIELD, CONTACT_LIMITS } from '../utils/contactValidation';
+
+type LoadState = 'loading' | 'ready' | 'error';
+type SubmitStatus = 'idle' | 'submitting' | 'success' | 'error';
+
+const EMPTY_FORM: BookingFormValues = { name: '', email: '', notes: '' };
+
+const FIELD_CLASS = 'w-full px-3 md:px-4 py-2 md:py-3 text-sm md:text-base border rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all duration-200';
+
+const CHOICE_CLASS = 'px-3 py-1.5 text-xs md:text-sm rounded-full border transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-amber-500';
+
+const choiceClass = (isSelected: boolean) =>
+  `${CHOICE_CLASS} ${isSelected ? 'border-stone-700 bg-stone-700 text-white' : 'border-stone-300 text-stone-700 hover:border-stone-500'}`;
+
+// Pick a day and time from the studio's open slots, shown in the visitor's own
+// time zone, then confirm with name and email
+const ConsultationBooking: React.FC = () => {
+  const formRef = useRef<HTMLFormElement>(null);
+  const [slots, setSlots] = useState<BookingSlot[]>([]);
+  const [loadState, setLoadState] = useState<LoadState>('loading');
+  // Only known in the browser; slots are grouped and labelled once it is
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<BookingSlot | null>(null);
+  const [values, setValues] = useState<BookingFormValues>(EMPTY_FORM);
+  const [honeypot, setHoneypot] = useState('');
+  const [errors, setErrors] = useState<BookingFieldErrors>({});
+  const [status, setStatus] = useState<SubmitStatus>('idle');
+  const [statusMessage, setStatusMessage] = useState('');
+
+  const loadSlots = useCallback(async () => {
+    setLoadState('loading');
+    try {
+      const response = await fetch('/api/bookings/slots', { cache: 'no-store' });
+      const body = await response.json() as SlotsResponse;
+      if (!body.ok) throw new Error(body.message);
+      setSlots(body.slots);
+      setLoadState('ready');
+    } catch (error) {
+      console.error('Consultation slots could not be loaded:', error);
+      setLoadState('error');
+    }
+  }, []);
+
+  useEffect(() => {
+    setTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+    loadSlots();
+  }, [loadSlots]);
+
+  const formatters = useMemo(() => timeZone && {
+    day: new Intl.DateTimeFormat(undefined, { timeZone, weekday: 'short', day: 'numeric', month: 'short' }),
+    time: new Intl.DateTimeFormat(undefined, { timeZone, hour: 'numeric', minute: '2-digit' }),
+    full: new Intl.DateTimeFormat(undefined, { timeZone, dateStyle: 'full', timeStyle: 'short' })
+  }, [timeZone]);
+
+  // Slots grouped by the visitor's calendar day, not the studio's
+  const days = useMemo(() => {
+    if (!timeZone) return [];
+    const groups = new Map<string, BookingSlot[]>();
+    slots.forEach(slot => {
+      const date = getZonedDate(new Date(slot.start), timeZone);
+      groups.set(date, [...(groups.get(date) ?? []), slot]);
+    });
+    return Array.from(groups, ([date, daySlots]) => ({ date, slots: daySlots }));
+  }, [slots, timeZone]);
+
+  const activeDay = days.find(day => day.date === selectedDate) ?? days[0];
+
+  const focusFirstError = (fieldErrors: BookingFieldErrors) => {
+    const field = (Object.keys(EMPTY_FORM) as BookingField[]).find(name => fieldErrors[name]);
+    if (field) {
+      formRef.current?.querySelector<HTMLElement>(`[name="${field}"]`)?.focus();
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const field = e.target.name as BookingField;
+    const value = e.target.value;
+    setValues(current => ({ ...current, [field]: value }));
+
+    if (errors[field]) {
+      setErrors(current => ({ ...current, [field]: validateBookingField(field, value.trim()) }));
+    }
+  };
+
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const field = e.target.name as BookingField;
+    if (!e.target.value) return;
+    setErrors(current => ({ ...current, [field]: validateBookingField(field, e.target.value.trim()) }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (status === 'submitting') return;
+
+    const result = validateBookingRequest({ ...values, start: selectedSlot?.start, timeZone });
+    if (!result.success) {
+      setErrors(result.errors);
+      setStatus(result.message ? 'error' : 'idle');
+      setStatusMessage(result.message ?? '');
+      focusFirstError(result.errors);
+      return;
+    }
+
+    setErrors({});
+    setStatus('submitting');
+
+    try {
+      const response = await fetch('/api/bookings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...result.data, [CONTACT_HONEYPOT_FIELD]: honeypot })
+      });
+      const body = await response.json() as BookingResponse;
+
+      if (body.ok) {
+        setStatus('success');
+        setStatusMessage(body.message);
+        setValues(EMPTY_FORM);
+        return;
+      }
+
+      setErrors(body.errors ?? {});
+      setStatus('error');
+      setStatusMessage(body.message);
+      if (body.slotTaken) {
+        // Someone else got there first: show what is still open
+        setSelectedSlot(null);
+        loadSlots();
+      } else if (body.errors) {
+        focusFirstError(body.errors);
+      }
+    } catch (error) {
+      console.error('Consultation booking failed:', error);
+      setStatus('error');
+      setStatusMessage('We could not book your consultation. Please check your connection and try again, or email us directly.');
+    }
+  };
+
+  const startOver = () => {
+    setSelectedSlot(null);
+    setStatus('idle');
+    loadSlots();
+  };
+
+  const fieldProps = (field: BookingField) => ({
+    id: `booking-${field}`,
+    name: field,
+    value: values[field],
+    onChange: handleChange,
+    onBlur: handleBlur,
+    'aria-invalid': Boolean(errors[field]),
+    'aria-describedby': errors[field] ? `booking-${field}-error` : undefined,
+    className: `${FIELD_CLASS} ${errors[field] ? 'border-red-400' : 'border-stone-200'}`
+  });
+
+  const renderError = (field: BookingField) => errors[field] && (
+    <p id={`booking-${field}-error`} className="mt-1 text-left text-xs text-red-600">
+      {errors[field]}
+    </p>
+  );
+
+  if (status === 'success' && selectedSlot && formatters) {
+    return (
+      <div className="space-y-3 rounded-lg border border-stone-200 p-4 md:p-6" role="status">
+        <p className="text-sm md:text-base font-medium text-stone-800">
+          {formatters.full.format(new Date(selectedSlot.start))}
+        </p>
+        <p className="text-sm md:text-base text-stone-700">{statusMessage}</p>
+        <button
+          type="button"
+          onClick={startOver}
+          className="text-xs md:text-sm font-medium text-stone-600 underline-offset-4 hover:underline"
+        >
+          Book another time
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form ref={formRef} onSubmit={handleSubmit} noValidate className="space-y-3 md:space-y-4 text-left">
+      {/* Day and time */}
+      <fieldset className="space-y-2">
+        <legend className="text-xs md:text-sm text-stone-600">
+          Choose a time{timeZone && <> &middot; shown in {timeZone.replace(/_/g, ' ')}</>}
+        </legend>
+
+        {(loadState === 'loading' || !formatters) && (
+          <p className="text-xs md:text-sm text-stone-500" role="status">Loading available times...</p>
+        )}
+
+        {loadState === 'error' && (
+          <p className="text-xs md:text-sm text-red-600" role="alert">
+            We couldn&apos;t load our calendar.{' '}
+            <button type="button" onClick={loadSlots} className="underline underline-offset-4">Try again</button>
+          </p>
+        )}
+
+        {loadState === 'ready' && formatters && days.length === 0 && (
+          <p className="text-xs md:text-sm text-stone-500">
+            There are no open times right now. Please send us a message instead.
+          </p>
+        )}
+
+        {loadState === 'ready' && formatters && activeDay && (
+          <>
+            <div className="flex gap-2 overflow-x-auto pb-1" role="group" aria-label="Day">
+              {days.map(day => (
+                <button
+                  key={day.date}
+                  type="button"
+                  onClick={() => setSelectedDate(day.date)}
+                  aria-pressed={day.date === activeDay.date}
+                  className={`${choiceClass(day.date === activeDay.date)} shrink-0`}
+                >
+                  {formatters.day.format(new Date(day.slots[0].start))}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto" role="group" aria-label="Time">
+              {activeDay.slots.map(slot => (
+                <button
+                  key={slot.start}
+                  type="button"
+                  onClick={() => {
+                    setSelectedSlot(slot);
+                    if (status === 'error') setStatus('idle');
+                  }}
+                  aria-pressed={slot.start === selectedSlot?.start}
+                  className={choiceClass(slot.start === selectedSlot?.start)}
+                >
+                  {formatters.time.format(new Date(slot.start))}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </fieldset>
+
+      {/* Visitor details */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4">
+        <div>
+          <label htmlFor="booking-name" className="sr-only">Name</label>
+          <input
+            type="text"
+            placeholder="Name"
+            autoComplete="name"
+            maxLength={CONTACT_LIMITS.NAME_MAX}
+            required
+            {...fieldProps('name')}
+          />
+          {renderError('name')}
+        </div>
+        <div>
+          <label htmlFor="booking-email" className="sr-only">Email</label>
+          <input
+            type="email"
+            placeholder="Email"
+            autoComplete="email"
+            maxLength={CONTACT_LIMITS.EMAIL_MAX}
+            required
+            {...fieldProps('email')}
+          />
+          {renderError('email')}
+        </div>
+      </div>
+      <div>
+        <label htmlFor="booking-notes" className="sr-only">Notes (optional)</label>
+        <textarea
+          placeholder="Anything we should know beforehand? (optional)"
+          rows={2}
+          maxLength={BOOKING_LIMITS.NOTES_MAX}
+          {...fieldProps('notes')}
+          className={`${fieldProps('notes').className} resize-none`}
+        />
+        {renderError('notes')}
+      </div>
+
+      {/* Honeypot - hidden from people and screen readers, irresistible to bots */}
+      <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+        <label htmlFor={`booking-${CONTACT_HONEYPOT_FIELD}`}>Website</label>
+        <input
+          id={`booking-${CONTACT_HONEYPOT_FIELD}`}
+          type="text"
+          name={CONTACT_HONEYPOT_FIELD}
+          tabIndex={-1}
+          autoComplete="off"
+          value={honeypot}
+          onChange={(e) => setHoneypot(e.target.value)}
+        />
+      </div>
+
+      {status === 'error' && (
+        <p className="text-center text-xs md:text-sm text-red-600" role="alert">
+          {statusMessage}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={status === 'submitting' || !selectedSlot}
+        className="w-full bg-transparent text-stone-700 font-medium tracking-wide border-2 border-stone-400 rounded-full py-2 md:py-3 px-4 md:px-6 text-sm md:text-base hover:scale-105 hover:border-stone-600 hover:text-stone-800 hover:bg-stone-50/50 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-stone-400/50 focus:ring-offset-2 disabled:opacity-60 disabled:hover:scale-100"
+      >
+        {status === 'submitting'
+          ? 'Booking...'
+          : selectedSlot && formatters
+            ? `Book ${formatters.day.format(new Date(selectedSlot.start))}, ${formatters.time.format(new Date(selectedSlot.start))}`
+            : 'Choose a time'}
+      </button>
+    </form>
+  );
+};
+
+export default ConsultationBooking;
@@ -1,18 +1,69 @@
 "use client";
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { gsap } from 'gsap';
-import { Mail, Phone, MapPin, Instagram, Twitter, Facebook } from 'lucide-react';
+import { Mail, Phone, MapPin, Contact, QrCode, Instagram, Twitter, Facebook } from 'lucide-react';
+import ConsultationBooking from './ConsultationBooking';
+import FileAttachments from './FileAttachments';
+import NewsletterSignup from './NewsletterSignup';
+import ProjectBriefWizard from './ProjectBriefWizard';
+import { useContactDraft } from '../contexts/ContactDraftContext';
+import type { ContactField, ContactFieldErrors, ContactFormValues, ContactResponse } from '../types/contact';
+import type { InteriorTopic } from '../types/portfolio';
+import type { StudioConfig } from '../types/studio';
+import type { UploadedFile } from '../types/uploads';
+import {
+  CONTACT_HONEYPOT_FIELD,
+  CONTACT_LIMITS,
+  validateContactField,
+  validateContactForm
+} from '../utils/contactValidation';
+import { formatStudioAddress, getTelHref } from '../utils/studioContact';
+
+type SubmitStatus = 'idle' | 'submitting' | 'success' | 'error';
+type ContactMode = 'message' | 'brief' | 'booking';
+
+const CONTACT_MODES: { mode: ContactMode; label: string }[] = [
+  { mode: 'message', label: 'Message' },
+  { mode: 'brief', label: 'Project brief' },
+  { mode: 'booking', label: 'Book a call' }
+];
+
+const EMPTY_FORM: ContactFormValues = { name: '', email: '', message: '' };
+
+const FIELD_CLASS = 'w-full px-3 md:px-4 py-2 md:py-3 text-sm md:text-base border rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all duration-200';
 
 interface ContactSectionProps {
   isVisible: boolean;
+  // Portfolio pages offered as style preferences in the project brief
+  projects: InteriorTopic[];
+  studio: StudioConfig;
   onContactReady?: () => void;
 }
 
-const ContactSection: React.FC<ContactSectionProps> = ({ onContactReady }) => {
+const ContactSection: React.FC<ContactSectionProps> = ({ projects, studio, onContactReady }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const formRef = useRef<HTMLFormElement>(null);
+  const [values, setValues] = useState<ContactFormValues>(EMPTY_FORM);
+  const [honeypot, setHoneypot] = useState('');
+  const [errors, setErrors] = useState<ContactFieldErrors>({});
+  const [status, setStatus] = useState<SubmitStatus>('idle');
+  const [statusMessage, setStatusMessage] = useState('');
+  const [mode, setMode] = useState<ContactMode>('message');
+  const [attachments, setAttachments] = useState<UploadedFile[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const { draft, clearDraft } = useContactDraft();
+
+  // A message handed over from another section, e.g. the cost estimator
+  useEffect(() => {
+    if (draft === null) return;
+    setMode('message');
+    setStatus('idle');
+    setErrors({});
+    setValues(current => ({ ...current, message: draft }));
+    clearDraft();
+  }, [draft, clearDraft]);
 
   useEffect(() => {
     if (!containerRef.current || !contentRef.current) return;
@@ -89,12 +140,96 @@ const ContactSection: React.FC<ContactSectionProps> = ({ onContactReady }) => {
     }
   }, []);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Move focus to the first field that needs fixing
+  const focusFirstError = (fieldErrors: ContactFieldErrors) => {
+    const field = (Object.keys(EMPTY_FORM) as ContactField[]).find(name => fieldErrors[name]);
+    if (field) {
+      formRef.current?.querySelector<HTMLElement>(`[name="${field}"]`)?.focus();
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const field = e.target.name as ContactField;
+    const value = e.target.value;
+    setValues(current => ({ ...current, [field]: value }));
+
+    // Clear a field's error as soon as it is fixed
+    if (errors[field]) {
+      setErrors(current => ({ ...current, [field]: validateContactField(field, value.trim()) }));
+    }
+  };
+
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const field = e.target.name as ContactField;
+    // Only complain about fields the visitor has started filling in
+    if (!e.target.value) return;
+    setErrors(current => ({ ...current, [field]: validateContactField(field, e.target.value.trim()) }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    // Handle form submission
-    console.log('Contact form submitted');
+    if (status === 'submitting' || isUploading) return;
+
+    // Same rules as the server, so most mistakes never leave the browser
+    const result = validateContactForm(values);
+    if (!result.success) {
+      setErrors(result.errors);
+      setStatus('idle');
+      focusFirstError(result.errors);
+      return;
+    }
+
+    setErrors({});
+    setStatus('submitting');
+
+    try {
+      const response = await fetch('/api/contact', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...result.data,
+          attachments: attachments.map(file => file.id),
+          [CONTACT_HONEYPOT_FIELD]: honeypot
+        })
+      });
+      const body = await response.json() as ContactResponse;
+
+      if (body.ok) {
+        setStatus('success');
+        setStatusMessage(body.message);
+        setValues(EMPTY_FORM);
+        setAttachments([]);
+        return;
+      }
+
+      setErrors(body.errors ?? {});
+      setStatus('error');
+      setStatusMessage(body.message);
+      if (body.errors) focusFirstError(body.errors);
+    } catch (error) {
+      console.error('Contact form submission failed:', error);
+      setStatus('error');
+      setStatusMessage('We could not send your message. Please check your connection and try again, or email us directly.');
+    }
   };
 
+  const fieldProps = (field: ContactField) => ({
+    id: `contact-${field}`,
+    name: field,
+    value: values[field],
+    onChange: handleChange,
+    onBlur: handleBlur,
+    'aria-invalid': Boolean(errors[field]),
+    'aria-describedby': errors[field] ? `contact-${field}-error` : undefined,
+    className: `${FIELD_CLASS} ${errors[field] ? 'border-red-400' : 'border-stone-200'}`
+  });
+
+  const renderError = (field: ContactField) => errors[field] && (
+    <p id={`contact-${field}-error`} className="mt-1 text-left text-xs text-red-600">
+      {errors[field]}
+    </p>
+  );
+
   return (
     <div
       ref={containerRef}
@@ -120,56 +255,178 @@ const ContactSection: React.FC<ContactSectionProps> = ({ onContactReady }) => {
           </p>
         </div>
 
-        {/* Contact Form */}
-        <form
-          ref={formRef}
-          onSubmit={handleSubmit}
-          className="contact-element opacity-0 transform translate-y-4 space-y-3 md:space-y-4"
-        >
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4">
-            <input
-              type="text"
-              placeholder="Name"
-              className="w-full px-3 md:px-4 py-2 md:py-3 text-sm md:text-base border border-stone-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all duration-200"
-              required
-            />
-            <input
-              type="email"
-              placeholder="Email"
-              className="w-full px-3 md:px-4 py-2 md:py-3 text-sm md:text-base border border-stone-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all duration-200"
-              required
-            />
+        {/* Contact Form or booking - the wrapper stays mounted so the reveal animation keeps its target */}
+        <div className="contact-element opacity-0 transform translate-y-4 space-y-3 md:space-y-4">
+          <div className="flex justify-center gap-1 rounded-full border border-stone-200 p-1" role="tablist">
+            {CONTACT_MODES.map(option => (
+              <button
+                key={option.mode}
+                id={`contact-tab-${option.mode}`}
+                type="button"
+                role="tab"
+                aria-selected={mode === option.mode}
+                aria-controls="contact-panel"
+                onClick={() => setMode(option.mode)}
+                className={`flex-1 rounded-full px-3 py-1.5 text-xs md:text-sm font-medium transition-colors duration-200 ${
+                  mode === option.mode ? 'bg-stone-700 text-white' : 'text-stone-600 hover:text-stone-800'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
           </div>
-          <textarea
-            placeholder="Tell us about your project..."
-            rows={3}
-            className="w-full px-3 md:px-4 py-2 md:py-3 text-sm md:text-base border border-stone-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all duration-200 resize-none"
-            required
-          />
-          <button
-            type="submit"
-            className="w-full bg-transparent text-stone-700 font-medium tracking-wide border-2 border-stone-400 rounded-full py-2 md:py-3 px-4 md:px-6 text-sm md:text-base hover:scale-105 hover:border-stone-600 hover:text-stone-800 hover:bg-stone-50/50 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-stone-400/50 focus:ring-offset-2"
-          >
-            Send Message
-          </button>
-        </form>
+
+          <div id="contact-panel" role="tabpanel" aria-labelledby={`contact-tab-${mode}`}>
+            {mode === 'booking' ? (
+              <ConsultationBooking />
+            ) : mode === 'brief' ? (
+              <ProjectBriefWizard projects={projects} />
+            ) : status === 'success' ? (
+              <div
+                className="space-y-3 rounded-lg border border-stone-200 p-4 md:p-6"
+                role="status"
+              >
+                <p className="text-sm md:text-base text-stone-700">{statusMessage}</p>
+                <button
+                  type="button"
+                  onClick={() => setStatus('idle')}
+                  className="text-xs md:text-sm font-medium text-stone-600 underline-offset-4 hover:underline"
+                >
+                  Send another message
+                </button>
+              </div>
+            ) : (
+              <form
+                ref={formRef}
+                onSubmit={handleSubmit}
+                noValidate
+                className="space-y-3 md:space-y-4"
+              >
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4">
+                  <div>
+                    <label htmlFor="contact-name" className="sr-only">Name</label>
+                    <input
+                      type="text"
+                      placeholder="Name"
+                      autoComplete="name"
+                      maxLength={CONTACT_LIMITS.NAME_MAX}
+                      required
+                      {...fieldProps('name')}
+                    />
+                    {renderError('name')}
+                  </div>
+                  <div>
+                    <label htmlFor="contact-email" className="sr-only">Email</label>
+                    <input
+                      type="email"
+                      placeholder="Email"
+                      autoComplete="email"
+                      maxLength={CONTACT_LIMITS.EMAIL_MAX}
+                      required
+                      {...fieldProps('email')}
+                    />
+                    {renderError('email')}
+                  </div>
+                </div>
+                <div>
+                  <label htmlFor="contact-message" className="sr-only">Project details</label>
+                  <textarea
+                    placeholder="Tell us about your project..."
+                    rows={3}
+                    maxLength={CONTACT_LIMITS.MESSAGE_MAX}
+                    required
+                    {...fieldProps('message')}
+                    className={`${fieldProps('message').className} resize-none`}
+                  />
+                  {renderError('message')}
+                </div>
+
+                <FileAttachments
+                  id="contact-attachments"
+                  files={attachments}
+                  onChange={setAttachments}
+                  onUploadingChange={setIsUploading}
+                />
+
+                {/* Honeypot - hidden from people and screen readers, irresistible to bots */}
+                <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+                  <label htmlFor={`contact-${CONTACT_HONEYPOT_FIELD}`}>Website</label>
+                  <input
+                    id={`contact-${CONTACT_HONEYPOT_FIELD}`}
+                    type="text"
+                    name={CONTACT_HONEYPOT_FIELD}
+                    tabIndex={-1}
+                    autoComplete="off"
+                    value={honeypot}
+                    onChange={(e) => setHoneypot(e.target.value)}
+                  />
+                </div>
+
+                {status === 'error' && (
+                  <p className="text-xs md:text-sm text-red-600" role="alert">
+                    {statusMessage}
+                  </p>
+                )}
+
+                <button
+                  type="submit"
+                  disabled={status === 'submitting' || isUploading}
+                  className="w-full bg-transparent text-stone-700 font-medium tracking-wide border-2 border-stone-400 rounded-full py-2 md:py-3 px-4 md:px-6 text-sm md:text-base hover:scale-105 hover:border-stone-600 hover:text-stone-800 hover:bg-stone-50/50 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-stone-400/50 focus:ring-offset-2 disabled:opacity-60 disabled:hover:scale-100"
+                >
+                  {status === 'submitting' ? 'Sending...' : isUploading ? 'Uploading files...' : 'Send Message'}
+                </button>
+              </form>
+            )}
+          </div>
+        </div>
 
         {/* Contact Info */}
         <div className="contact-element opacity-0 transform translate-y-4">
           <div className="flex flex-col space-y-3 md:space-y-4 text-xs md:text-sm">
-            <div className="flex items-center justify-center space-x-2 md:space-x-3 text-stone-600">
+            <a
+              href={`mailto:${studio.email}`}
+              className="flex items-center justify-center space-x-2 md:space-x-3 text-stone-600 hover:text-stone-800 transition-colors duration-200"
+            >
               <Mail className="w-3 h-3 md:w-4 md:h-4" />
-              <span>info@luminarestudio.com</span>
-            </div>
-            <div className="flex items-center justify-center space-x-2 md:space-x-3 text-stone-600">
+              <span>{studio.email}</span>
+            </a>
+            <a
+              href={getTelHref(studio.phone)}
+              className="flex items-center justify-center space-x-2 md:space-x-3 text-stone-600 hover:text-stone-800 transition-colors duration-200"
+            >
               <Phone className="w-3 h-3 md:w-4 md:h-4" />
-              <span>+60 333333333</span>
-            </div>
+              <span>{studio.phone}</span>
+            </a>
             <div className="flex items-center justify-center space-x-2 md:space-x-3 text-stone-600">
               <MapPin className="w-3 h-3 md:w-4 md:h-4" />
-              <span>Kuala Lumpur, Malaysia</span>
+              <span>{formatStudioAddress(studio.address)}</span>
             </div>
           </div>
+          {/* Save the studio to the visitor's address book */}
+          <div className="mt-3 md:mt-4 flex items-center justify-center space-x-4 text-xs md:text-sm">
+            <a
+              href="/api/studio/vcard"
+              download
+              className="inline-flex items-center gap-2 text-stone-600 underline-offset-4 hover:underline"
+            >
+              <Contact className="w-3 h-3 md:w-4 md:h-4" />
+              Save contact (.vcf)
+            </a>
+            <a
+              href="/api/studio/qr"
+              target="_blank"
+              rel="noopener"
+              className="inline-flex items-center gap-2 text-stone-600 underline-offset-4 hover:underline"
+            >
+              <QrCode className="w-3 h-3 md:w-4 md:h-4" />
+              QR code
+            </a>
+          </div>
+        </div>
+
+        {/* Newsletter */}
+        <div className="contact-element opacity-0 transform translate-y-4">
+          <NewsletterSignup source="contact" />
         </div>
 
         {/* Social Links */}
@@ -0,0 +1,244 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { gsap } from 'gsap';
+import { ScrollTrigger } from 'gsap/ScrollTrigger';
+import { useBookContext } from '../contexts/BookContext';
+import { useContactDraft } from '../contexts/ContactDraftContext';
+import { AREA_UNITS, AreaUnit } from '../types/brief';
+import type { EstimatorConfig } from '../types/estimator';
+import type { Service } from '../types/services';
+import { calculateEstimate, ESTIMATE_LIMITS, formatEstimateMessage, formatPriceRange } from '../utils/costEstimate';
+
+// Register GSAP plugins
+if (typeof window !== "undefined") {
+  gsap.registerPlugin(ScrollTrigger);
+}
+
+interface CostEstimatorProps {
+  // The catalogue shown in ServicesSection; only services with a rate are offered
+  services: Service[];
+  config: EstimatorConfig;
+}
+
+const choiceClass = (isSelected: boolean) =>
+  `cursor-pointer rounded-xl border px-4 py-3 text-left transition-colors duration-200 has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-amber-500 ${
+    isSelected ? 'border-stone-700' : 'border-stone-300 hover:border-stone-500'
+  }`;
+
+const FIELD_CLASS = 'w-full px-3 md:px-4 py-2 md:py-3 text-sm md:text-base border border-stone-200 rounded-lg bg-transparent focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all duration-200';
+
+// "Roughly how much?" - an indicative range from the studio's rate table that the
+// visitor can carry into the contact form
+const CostEstimator: React.FC<CostEstimatorProps> = ({ services, config }) => {
+  const sectionRef = useRef<HTMLElement>(null);
+  const { smartScrollToContact, isAnimating, isAutoScrolling, isSmartScrolling } = useBookContext();
+  const { setDraft } = useContactDraft();
+  const pricedServices = useMemo(() => services.filter(service => config.rates[service.slug]), [services, config]);
+
+  const [selected, setSelected] = useState<string[]>([]);
+  const [rooms, setRooms] = useState('');
+  const [area, setArea] = useState('');
+  const [areaUnit, setAreaUnit] = useState<AreaUnit>('sqft');
+  const [finish, setFinish] = useState(config.finishLevels[0].id);
+
+  const input = { services: selected, rooms: Number(rooms), area: Number(area), areaUnit, finish };
+  const estimate = calculateEstimate(config, input);
+  const isNavigating = isAnimating || isAutoScrolling || isSmartScrolling;
+
+  useEffect(() => {
+    if (!sectionRef.current) return;
+
+    const ctx = gsap.context(() => {
+      gsap.fromTo('.section-element',
+        { opacity: 0, y: 40 },
+        {
+          opacity: 1,
+          y: 0,
+          duration: 0.8,
+          ease: "power2.out",
+          stagger: 0.15,
+          scrollTrigger: {
+            trigger: sectionRef.current,
+            start: "top 80%",
+            toggleActions: "play none none reverse"
+          }
+        }
+      );
+    }, sectionRef);
+
+    return () => ctx.revert();
+  }, []);
+
+  const toggleService = (slug: string) => {
+    setSelected(current => current.includes(slug) ? current.filter(item => item !== slug) : [...current, slug]);
+  };
+
+  const handleSend = async () => {
+    if (!estimate || isNavigating) return;
+    const serviceTitles = Object.fromEntries(services.map(service => [service.slug, service.title]));
+    setDraft(formatEstimateMessage(config, input, estimate, serviceTitles));
+    try {
+      await smartScrollToContact();
+    } catch (error) {
+      console.error('Error during smart scroll to contact:', error);
+    }
+  };
+
+  return (
+    <section
+      ref={sectionRef}
+      id="estimator-section"
+      className="relative py-20"
+      style={{ background: 'var(--background)' }}
+      aria-labelledby="estimator-heading"
+    >
+      <div className="container mx-auto px-4 max-w-6xl">
+        <div className="section-element text-center mb-12">
+          <h2 id="estimator-heading" className="text-4xl md:text-5xl lg:text-6xl font-light tracking-wide mb-6" style={{ color: 'var(--foreground)' }}>
+            Estimate Your Project
+          </h2>
+          <p className="text-lg md:text-xl max-w-3xl mx-auto leading-relaxed" style={{ color: 'var(--typography-secondary)' }}>
+            Pick the services you need, tell us about your space and choose a finish to see an indicative budget.
+          </p>
+        </div>
+
+        <div className="section-element grid gap-8 lg:grid-cols-5">
+          <div className="lg:col-span-3 space-y-8">
+            <fieldset>
+              <legend className="mb-3 text-sm font-medium" style={{ color: 'var(--foreground)' }}>Services</legend>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {pricedServices.map(service => (
+                  <label key={service.slug} className={choiceClass(selected.includes(service.slug))}>
+                    <input
+                      type="checkbox"
+                      name="services"
+                      value={service.slug}
+                      checked={selected.includes(service.slug)}
+                      onChange={() => toggleService(service.slug)}
+                      className="sr-only"
+                    />
+                    <span className="block text-sm md:text-base font-serif" style={{ color: 'var(--foreground)' }}>
+                      {service.title}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <label htmlFor="estimator-rooms" className="mb-2 block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                  Rooms
+                </label>
+                <input
+                  id="estimator-rooms"
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  max={ESTIMATE_LIMITS.ROOMS_MAX}
+                  step={1}
+                  placeholder="e.g. 3"
+                  value={rooms}
+                  onChange={(e) => setRooms(e.target.value)}
+                  className={FIELD_CLASS}
+                  style={{ color: 'var(--foreground)' }}
+                />
+              </div>
+              <div>
+                <label htmlFor="estimator-area" className="mb-2 block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                  Floor area
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    id="estimator-area"
+                    type="number"
+                    inputMode="decimal"
+                    min={1}
+                    max={ESTIMATE_LIMITS.AREA_MAX}
+                    placeholder="e.g. 1200"
+                    value={area}
+                    onChange={(e) => setArea(e.target.value)}
+                    className={FIELD_CLASS}
+                    style={{ color: 'var(--foreground)' }}
+                  />
+                  <div className="flex shrink-0 gap-1" role="radiogroup" aria-label="Unit">
+                    {(Object.keys(AREA_UNITS) as AreaUnit[]).map(unit => (
+                      <label
+                        key={unit}
+                        className={`inline-flex cursor-pointer items-center px-3 text-sm rounded-full border transition-colors duration-200 has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-amber-500 ${
+                          areaUnit === unit ? 'border-stone-700 bg-stone-700 text-white' : 'border-stone-300 text-stone-700 hover:border-stone-500'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="estimator-area-unit"
+                          value={unit}
+                          checked={areaUnit === unit}
+                          onChange={() => setAreaUnit(unit)}
+                          className="sr-only"
+                        />
+                        {AREA_UNITS[unit]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <fieldset>
+              <legend className="mb-3 text-sm font-medium" style={{ color: 'var(--foreground)' }}>Finish level</legend>
+              <div className="grid gap-3 sm:grid-cols-3">
+                {config.finishLevels.map(level => (
+                  <label key={level.id} className={choiceClass(finish === level.id)}>
+                    <input
+                      type="radio"
+                      name="estimator-finish"
+                      value={level.id}
+                      checked={finish === level.id}
+                      onChange={() => setFinish(level.id)}
+                      className="sr-only"
+                    />
+                    <span className="block text-sm md:text-base font-serif" style={{ color: 'var(--foreground)' }}>
+                      {level.label}
+                    </span>
+                    <span className="mt-1 block text-xs leading-relaxed" style={{ color: 'var(--typography-secondary)' }}>
+                      {level.description}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          </div>
+
+          <aside className="lg:col-span-2">
+            <div className="lg:sticky lg:top-24 rounded-xl shadow-lg p-6 md:p-8" style={{ background: 'var(--secondary-background)' }}>
+              <h3 className="text-sm font-medium tracking-wide uppercase" style={{ color: 'var(--typography-secondary)' }}>
+                Indicative budget
+              </h3>
+              <p className="mt-3 font-display text-3xl md:text-4xl font-light" style={{ color: 'var(--foreground)' }} aria-live="polite">
+                {estimate ? formatPriceRange(estimate, config.currency) : '-'}
+              </p>
+              <p className="mt-3 text-sm leading-relaxed" style={{ color: 'var(--typography-secondary)' }}>
+                {estimate
+                  ? 'A starting point for conversation, not a quote. We confirm fees after a site visit.'
+                  : 'Choose at least one service and enter your rooms and floor area.'}
+              </p>
+              <button
+                type="button"
+                onClick={handleSend}
+                disabled={!estimate || isNavigating}
+                className="mt-6 w-full px-6 py-3 font-medium tracking-wide rounded-full transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-offset-2 hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+                style={{ background: 'transparent', color: 'var(--foreground)', border: '2px solid var(--accent-1)' }}
+              >
+                {isNavigating ? 'Navigating...' : 'Send this estimate with a message'}
+              </button>
+            </div>
+          </aside>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default CostEstimator;
@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { FileText, ImageIcon, Paperclip, X } from 'lucide-react';
+import type { UploadedFile, UploadResponse } from '../types/uploads';
+import { checkUploadFile, formatFileSize, UPLOAD_ACCEPT, UPLOAD_LIMITS } from '../utils/uploadRules';
+
+interface FileAttachmentsProps {
+  id: string;
+  files: UploadedFile[];
+  onChange: (files: UploadedFile[]) => void;
+  // Forms wait for uploads in progress before sending
+  onUploadingChange?: (isUploading: boolean) => void;
+}
+
+interface PendingUpload {
+  key: string;
+  name: string;
+}
+
+// Floor plans and photos for an enquiry. Each file is checked here, then uploaded
+// straight away so the form only sends the resulting upload ids.
+const FileAttachments: React.FC<FileAttachmentsProps> = ({ id, files, onChange, onUploadingChange }) => {
+  const [pending, setPending] = useState<PendingUpload[]>([]);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  // Uploads finish one at a time; always add to the latest list
+  const filesRef = useRef(files);
+  useEffect(() => {
+    filesRef.current = files;
+  }, [files]);
+
+  useEffect(() => {
+    onUploadingChange?.(pending.length > 0);
+  }, [pending.length, onUploadingChange]);
+
+  const upload = async (file: File, key: string) => {
+    try {
+      const body = new FormData();
+      body.append('file', file);
+      const response = await fetch('/api/uploads', { method: 'POST', body });
+      const result = await response.json() as UploadResponse;
+      if (!result.ok) {
+        setProblems(current => [...current, result.message]);
+        return;
+      }
+      filesRef.current = [...filesRef.current, result.file];
+      onChange(filesRef.current);
+    } catch (error) {
+      console.error(`Upload of ${file.name} failed:`, error);
+      setProblems(current => [...current, `${file.name} could not be uploaded. Please try again.`]);
+    } finally {
+      setPending(current => current.filter(item => item.key !== key));
+    }
+  };
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    // Let the same file be chosen again after removing it
+    e.target.value = '';
+
+    const nextProblems: string[] = [];
+    let available = UPLOAD_LIMITS.MAX_FILES - files.length - pending.length;
+
+    selected.forEach(file => {
+      const problem = checkUploadFile(file);
+      if (problem) {
+        nextProblems.push(problem);
+        return;
+      }
+      if (available <= 0) {
+        nextProblems.push(`You can attach up to ${UPLOAD_LIMITS.MAX_FILES} files; ${file.name} was left out.`);
+        return;
+      }
+      available -= 1;
+      const key = `${file.name}-${file.lastModified}-${Math.random().toString(36).slice(2)}`;
+      setPending(current => [...current, { key, name: file.name }]);
+      upload(file, key);
+    });
+
+    setProblems(nextProblems);
+  };
+
+  const removeFile = (fileId: string) => {
+    onChange(files.filter(file => file.id !== fileId));
+  };
+
+  const canAddMore = files.length + pending.length < UPLOAD_LIMITS.MAX_FILES;
+
+  return (
+    <div className="text-left">
+      <input
+        id={id}
+        type="file"
+        multiple
+        accept={UPLOAD_ACCEPT}
+        onChange={handleSelect}
+        className="sr-only"
+        aria-describedby={`${id}-hint`}
+      />
+      <label
+        htmlFor={id}
+        className={`inline-flex items-center gap-2 text-xs md:text-sm text-stone-600 underline-offset-4 ${
+          canAddMore ? 'cursor-pointer hover:underline' : 'pointer-events-none opacity-50'
+        }`}
+      >
+        <Paperclip className="w-3 h-3 md:w-4 md:h-4" />
+        Attach floor plans or photos
+      </label>
+      <p id={`${id}-hint`} className="mt-1 text-xs text-stone-500">
+        PDF, JPEG, PNG or HEIC, up to {formatFileSize(UPLOAD_LIMITS.MAX_BYTES)} each ({UPLOAD_LIMITS.MAX_FILES} files max)
+      </p>
+
+      {(files.length > 0 || pending.length > 0) && (
+        <ul className="mt-2 space-y-1 text-xs md:text-sm" aria-live="polite">
+          {files.map(file => (
+            <li key={file.id} className="flex items-center gap-2 text-stone-700">
+              {file.contentType === 'application/pdf'
+                ? <FileText className="w-3 h-3 md:w-4 md:h-4 shrink-0" />
+                : <ImageIcon className="w-3 h-3 md:w-4 md:h-4 shrink-0" />}
+              <span className="truncate">{file.filename}</span>
+              <span className="shrink-0 text-stone-500">{formatFileSize(file.size)}</span>
+              <button
+                type="button"
+                onClick={() => removeFile(file.id)}
+                className="ml-auto shrink-0 rounded-full p-1 hover:bg-stone-100"
+                aria-label={`Remove ${file.filename}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+          {pending.map(item => (
+            <li key={item.key} className="flex items-center gap-2 text-stone-500">
+              <Paperclip className="w-3 h-3 md:w-4 md:h-4 shrink-0 animate-pulse" />
+              <span className="truncate">{item.name}</span>
+              <span className="shrink-0">Uploading...</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {problems.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs text-red-600" role="alert">
+          {problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FileAttachments;
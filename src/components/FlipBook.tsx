@@ -0,0 +1,170 @@
+"use client";
+
+import React, { useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { gsap } from 'gsap';
+import Book3D from './Book3D';
+import BookControls from './BookControls';
+import GestureHandler from './GestureHandler';
+import type { InteriorTopic } from '../types/portfolio';
+import { getPageRestProgress } from '../utils/bookProgress';
+import { createBookTimeline, isBookRendered } from '../utils/bookTimeline';
+
+// Imperative API for driving a FlipBook from outside, e.g. campaign page buttons
+export interface FlipBookHandle {
+  flipTo: (pageIndex: number) => Promise<void>;
+  next: () => Promise<void>;
+  prev: () => Promise<void>;
+}
+
+interface FlipBookProps {
+  pages: InteriorTopic[];
+  // Front cover contents; defaults to the studio cover
+  cover?: React.ReactNode;
+  initialPage?: number;
+  onPageChange?: (pageIndex: number) => void;
+  showControls?: boolean;
+  className?: string;
+  ref?: React.Ref<FlipBookHandle>;
+}
+
+const FLIP_CONFIG = {
+  DURATION: 1.2,      // One page
+  MAX_DURATION: 2.5,  // Cap when flipping across many pages
+  EASE: "power1.inOut",
+  RESIZE_DELAY: 300   // Book3D resets page transforms after its own debounced resize
+};
+
+// Self-contained book: its timeline, queries and GSAP context never leave its own root,
+// so it can sit next to the portfolio book or other FlipBooks on the same page
+const FlipBook: React.FC<FlipBookProps> = ({
+  pages,
+  cover,
+  initialPage = 0,
+  onPageChange,
+  showControls = true,
+  className = 'h-screen',
+  ref
+}) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const timelineRef = useRef<gsap.core.Timeline | null>(null);
+  const flipRef = useRef<gsap.core.Tween | null>(null);
+  const totalPages = pages.length;
+
+  const clampPage = useCallback((pageIndex: number) => {
+    return Math.max(0, Math.min(totalPages - 1, pageIndex));
+  }, [totalPages]);
+
+  // Page the book shows, or is flipping towards
+  const pageRef = useRef(clampPage(initialPage));
+  const [currentPage, setCurrentPage] = useState(pageRef.current);
+
+  // Keep the latest callback without rebuilding the timeline
+  const onPageChangeRef = useRef(onPageChange);
+  useEffect(() => {
+    onPageChangeRef.current = onPageChange;
+  }, [onPageChange]);
+
+  // Build the paused timeline once Book3D has rendered on the client
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+
+    let ctx: gsap.Context | null = null;
+    let setupTimer: ReturnType<typeof setTimeout>;
+    let resizeTimer: ReturnType<typeof setTimeout>;
+
+    const setupTimeline = () => {
+      if (!isBookRendered(root)) {
+        setupTimer = setTimeout(setupTimeline, 100);
+        return;
+      }
+
+      pageRef.current = clampPage(pageRef.current);
+      ctx = gsap.context(() => {
+        const timeline = createBookTimeline(root, { paused: true });
+        timeline.progress(getPageRestProgress(pageRef.current, totalPages));
+        timelineRef.current = timeline;
+      }, root);
+    };
+
+    // Re-render the current page after Book3D has re-laid itself out
+    const handleResize = () => {
+      clearTimeout(resizeTimer);
+      resizeTimer = setTimeout(() => {
+        const timeline = timelineRef.current;
+        if (!timeline || flipRef.current?.isActive()) return;
+        timeline.progress(0).progress(getPageRestProgress(pageRef.current, totalPages));
+      }, FLIP_CONFIG.RESIZE_DELAY);
+    };
+
+    setupTimeline();
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      clearTimeout(setupTimer);
+      clearTimeout(resizeTimer);
+      window.removeEventListener('resize', handleResize);
+      flipRef.current?.kill();
+      ctx?.revert();
+      timelineRef.current = null;
+    };
+  }, [totalPages, clampPage]);
+
+  const flipTo = useCallback((requestedPage: number): Promise<void> => {
+    const pageIndex = clampPage(requestedPage);
+    const distance = Math.abs(pageIndex - pageRef.current);
+
+    if (pageIndex !== pageRef.current) {
+      pageRef.current = pageIndex;
+      setCurrentPage(pageIndex);
+      onPageChangeRef.current?.(pageIndex);
+    }
+
+    // Before the timeline exists it simply opens at this page
+    const timeline = timelineRef.current;
+    if (!timeline) return Promise.resolve();
+
+    flipRef.current?.kill();
+
+    return new Promise((resolve) => {
+      flipRef.current = gsap.to(timeline, {
+        progress: getPageRestProgress(pageIndex, totalPages),
+        duration: Math.min(FLIP_CONFIG.MAX_DURATION, FLIP_CONFIG.DURATION * Math.max(1, distance)),
+        ease: FLIP_CONFIG.EASE,
+        onComplete: () => resolve(),
+        onInterrupt: () => resolve()
+      });
+    });
+  }, [clampPage, totalPages]);
+
+  // Relative to the page being flipped to, so quick repeated presses keep counting
+  const next = useCallback(() => flipTo(pageRef.current + 1), [flipTo]);
+  const prev = useCallback(() => flipTo(pageRef.current - 1), [flipTo]);
+
+  useImperativeHandle(ref, () => ({ flipTo, next, prev }), [flipTo, next, prev]);
+
+  return (
+    <div
+      ref={rootRef}
+      className={`relative w-full flex items-center justify-center ${className}`}
+      role="region"
+      aria-roledescription="book"
+    >
+      <GestureHandler onSwipeLeft={next} onSwipeRight={prev} allowVerticalScroll>
+        <Book3D interiorTopics={pages} cover={cover} scrollLinkedCover={false} />
+      </GestureHandler>
+
+      {showControls && (
+        <BookControls
+          status={`Page ${currentPage + 1} of ${totalPages}`}
+          onPrevious={prev}
+          onNext={next}
+          canGoPrevious={currentPage > 0}
+          canGoNext={currentPage < totalPages - 1}
+        />
+      )}
+    </div>
+  );
+};
+
+export default FlipBook;
@@ -10,11 +10,19 @@ if (typeof window !== 'undefined') {
 }
 
 interface ObserverInstance {
-  deltaX: number;
-  deltaY: number;
+  x?: number;
+  y?: number;
+  startX?: number;
+  startY?: number;
   velocityX: number;
 }
 
+// Distance travelled since the press - Observer's deltaX/deltaY only cover the last event
+const getTravel = (self: ObserverInstance) => ({
+  x: (self.x ?? 0) - (self.startX ?? 0),
+  y: (self.y ?? 0) - (self.startY ?? 0)
+});
+
 // Register GSAP plugins with SSR safety
 if (typeof window !== 'undefined') {
   gsap.registerPlugin(Observer);
@@ -25,6 +33,8 @@ interface GestureHandlerProps {
   onSwipeRight?: () => void;
   onTap?: () => void;
   disabled?: boolean;
+  // Leave vertical panning to the browser so the page still scrolls on touch devices
+  allowVerticalScroll?: boolean;
   children: React.ReactNode;
 }
 
@@ -33,6 +43,7 @@ const GestureHandler: React.FC<GestureHandlerProps> = ({
   onSwipeRight,
   onTap,
   disabled = false,
+  allowVerticalScroll = false,
   children
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -47,7 +58,8 @@ const GestureHandler: React.FC<GestureHandlerProps> = ({
     observerRef.current = Observer.create({
       target: container,
       type: "touch,pointer",
-      preventDefault: true,
+      // Cancelling events would block native scrolling and clicks on links inside
+      preventDefault: !allowVerticalScroll,
       dragMinimum: 10, // Minimum distance for swipe detection
       
       // Touch/swipe handling
@@ -69,17 +81,21 @@ const GestureHandler: React.FC<GestureHandlerProps> = ({
         });
 
         // Handle tap if no significant movement
-        const deltaX = Math.abs(self.deltaX);
-        const deltaY = Math.abs(self.deltaY);
+        const travel = getTravel(self);
+        const deltaX = Math.abs(travel.x);
+        const deltaY = Math.abs(travel.y);
         
         if (deltaX < 10 && deltaY < 10 && onTap) {
           onTap();
           return;
         }
 
+        // Mostly vertical gestures are scrolls, not swipes
+        if (allowVerticalScroll && deltaY > deltaX) return;
+
         // Handle swipes with momentum
         const velocity = self.velocityX;
-        const distance = self.deltaX;
+        const distance = travel.x;
         
         // Swipe left (next page)
         if (distance < -50 || (distance < -20 && velocity < -300)) {
@@ -119,7 +135,7 @@ const GestureHandler: React.FC<GestureHandlerProps> = ({
 
       // Drag feedback during gesture
       onDrag: (self: ObserverInstance) => {
-        const progress = Math.max(-1, Math.min(1, self.deltaX / 100));
+        const progress = Math.max(-1, Math.min(1, getTravel(self).x / 100));
         
         // Visual feedback during drag
         gsap.set(container, {
@@ -146,14 +162,14 @@ const GestureHandler: React.FC<GestureHandlerProps> = ({
         observerRef.current.kill();
       }
     };
-  }, [disabled, onSwipeLeft, onSwipeRight, onTap]);
+  }, [disabled, allowVerticalScroll, onSwipeLeft, onSwipeRight, onTap]);
 
   return (
     <div 
       ref={containerRef}
-      className="w-full h-full touch-none"
+      className={`w-full h-full ${allowVerticalScroll ? 'touch-pan-y' : 'touch-none'}`}
       style={{ 
-        touchAction: 'none',
+        touchAction: allowVerticalScroll ? 'pan-y' : 'none',
         userSelect: 'none',
         WebkitUserSelect: 'none'
       }}
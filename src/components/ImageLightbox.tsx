@@ -0,0 +1,198 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import Image from 'next/image';
+import { ChevronLeft, ChevronRight, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { PAN_ZOOM_CONFIG, usePanZoom } from '../hooks/usePanZoom';
+
+export interface LightboxImage {
+  src: string;
+  alt: string;
+  caption: string;
+}
+
+interface ImageLightboxProps {
+  images: LightboxImage[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+// Zoom step of the buttons and the +/- keys
+const ZOOM_STEP = 1.5;
+
+// Fullscreen viewer for portfolio images at their full resolution. Mount it only while
+// open: it locks the page scroll and takes focus, and hands focus back when unmounted.
+const ImageLightbox: React.FC<ImageLightboxProps> = ({ images, index, onIndexChange, onClose }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const image = images[index];
+  const hasSeveral = images.length > 1;
+
+  const showRelative = useCallback((offset: number) => {
+    onIndexChange((index + offset + images.length) % images.length);
+  }, [index, images.length, onIndexChange]);
+
+  const { scale, x, y, zoomBy, reset, handlers } = usePanZoom(stageRef, {
+    onSwipe: (direction) => showRelative(-direction)
+  });
+
+  // Every image opens fitted to the screen
+  useEffect(() => {
+    reset();
+  }, [index, reset]);
+
+  // Lock the page behind the lightbox and give focus back to the opener on close
+  useEffect(() => {
+    const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    closeButtonRef.current?.focus();
+
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      opener?.focus({ preventScroll: true });
+    };
+  }, []);
+
+  // Captured on the window and stopped there: the lightbox is modal, so no key reaches
+  // the book's own keyboard navigation behind it. Buttons still activate with Enter.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.stopPropagation();
+
+      if (event.key === 'Tab') {
+        // Keep focus inside the lightbox
+        const focusable = Array.from(dialogRef.current?.querySelectorAll<HTMLElement>('button:not([disabled])') ?? []);
+        const currentIndex = focusable.indexOf(document.activeElement as HTMLElement);
+        const nextIndex = (currentIndex + (event.shiftKey ? -1 : 1) + focusable.length) % focusable.length;
+        focusable[nextIndex]?.focus();
+      } else if (event.key === 'Escape') {
+        onClose();
+      } else if (event.key === 'ArrowLeft' && hasSeveral) {
+        showRelative(-1);
+      } else if (event.key === 'ArrowRight' && hasSeveral) {
+        showRelative(1);
+      } else if (event.key === '+' || event.key === '=') {
+        zoomBy(ZOOM_STEP);
+      } else if (event.key === '-') {
+        zoomBy(1 / ZOOM_STEP);
+      } else if (event.key === '0') {
+        reset();
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [hasSeveral, onClose, showRelative, zoomBy, reset]);
+
+  if (!image) return null;
+
+  const buttonClass = 'w-10 h-10 md:w-12 md:h-12 rounded-full bg-white/10 text-stone-100 flex items-center justify-center hover:bg-white/20 transition-colors duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-white/70 disabled:opacity-40';
+
+  return createPortal(
+    <div
+      ref={dialogRef}
+      className="fixed inset-0 z-[100] flex flex-col bg-stone-950/95 text-stone-100"
+      role="dialog"
+      aria-modal="true"
+      aria-label={`${image.caption}, image ${index + 1} of ${images.length}`}
+    >
+      {/* Caption and close */}
+      <div className="flex items-center justify-between gap-4 px-4 md:px-8 py-3 md:py-4">
+        <p className="text-sm md:text-base font-light truncate" aria-live="polite">
+          {image.caption}
+          {hasSeveral && <span className="ml-3 text-stone-400 tabular-nums">{index + 1} / {images.length}</span>}
+        </p>
+        <button ref={closeButtonRef} type="button" onClick={onClose} className={buttonClass} aria-label="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="relative flex-1 min-h-0">
+        {/* Zoomable image */}
+        <div
+          ref={stageRef}
+          className={`absolute inset-0 overflow-hidden select-none ${scale > PAN_ZOOM_CONFIG.MIN_SCALE ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'}`}
+          style={{ touchAction: 'none' }}
+          {...handlers}
+        >
+          <div
+            className="absolute inset-0"
+            style={{
+              transform: `translate(${x}px, ${y}px) scale(${scale})`,
+              transformOrigin: 'center center',
+              willChange: 'transform'
+            }}
+          >
+            <Image
+              key={image.src}
+              src={image.src}
+              alt={image.alt}
+              fill
+              sizes="100vw"
+              quality={90}
+              priority
+              draggable={false}
+              className="object-contain"
+            />
+          </div>
+        </div>
+
+        {hasSeveral && (
+          <>
+            <button
+              type="button"
+              onClick={() => showRelative(-1)}
+              className={`${buttonClass} absolute left-2 md:left-6 top-1/2 -translate-y-1/2`}
+              aria-label="Previous image"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => showRelative(1)}
+              className={`${buttonClass} absolute right-2 md:right-6 top-1/2 -translate-y-1/2`}
+              aria-label="Next image"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Zoom controls */}
+      <div className="flex items-center justify-center gap-3 px-4 py-3 md:py-4">
+        <button
+          type="button"
+          onClick={() => zoomBy(1 / ZOOM_STEP)}
+          disabled={scale <= PAN_ZOOM_CONFIG.MIN_SCALE}
+          className={buttonClass}
+          aria-label="Zoom out"
+        >
+          <ZoomOut className="w-5 h-5" />
+        </button>
+        <span className="w-14 text-center text-sm tabular-nums text-stone-300" aria-live="polite">
+          {Math.round(scale * 100)}%
+        </span>
+        <button
+          type="button"
+          onClick={() => zoomBy(ZOOM_STEP)}
+          disabled={scale >= PAN_ZOOM_CONFIG.MAX_SCALE}
+          className={buttonClass}
+          aria-label="Zoom in"
+        >
+          <ZoomIn className="w-5 h-5" />
+        </button>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ImageLightbox;
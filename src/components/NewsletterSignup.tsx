@@ -0,0 +1,108 @@
+"use client";
+
+import React, { useState } from 'react';
+import type { NewsletterResponse, NewsletterSource } from '../types/newsletter';
+import { CONTACT_HONEYPOT_FIELD, CONTACT_LIMITS, validateContactField } from '../utils/contactValidation';
+
+type SubmitStatus = 'idle' | 'submitting' | 'success' | 'error';
+
+interface NewsletterSignupProps {
+  // Where the form sits; also keeps element ids unique when it appears twice
+  source: NewsletterSource;
+  className?: string;
+}
+
+// Email-only signup. The server emails a confirmation link, so success here
+// means "check your inbox", not "subscribed".
+const NewsletterSignup: React.FC<NewsletterSignupProps> = ({ source, className = '' }) => {
+  const [email, setEmail] = useState('');
+  const [honeypot, setHoneypot] = useState('');
+  const [status, setStatus] = useState<SubmitStatus>('idle');
+  const [message, setMessage] = useState('');
+  const id = `newsletter-${source}`;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (status === 'submitting') return;
+
+    const error = validateContactField('email', email.trim());
+    if (error) {
+      setStatus('error');
+      setMessage(error);
+      return;
+    }
+
+    setStatus('submitting');
+    try {
+      const response = await fetch('/api/newsletter', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim(), source, [CONTACT_HONEYPOT_FIELD]: honeypot })
+      });
+      const body = await response.json() as NewsletterResponse;
+      setStatus(body.ok ? 'success' : 'error');
+      setMessage(body.message);
+      if (body.ok) setEmail('');
+    } catch (error) {
+      console.error('Newsletter signup failed:', error);
+      setStatus('error');
+      setMessage('We could not sign you up. Please check your connection and try again.');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className={`text-left ${className}`}>
+      <label htmlFor={`${id}-email`} className="block mb-2 text-xs md:text-sm text-stone-600">
+        Design notes and new projects, a few times a year
+      </label>
+      <div className="flex gap-2">
+        <input
+          id={`${id}-email`}
+          type="email"
+          name="email"
+          placeholder="Email"
+          autoComplete="email"
+          maxLength={CONTACT_LIMITS.EMAIL_MAX}
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          aria-invalid={status === 'error'}
+          aria-describedby={status === 'idle' ? undefined : `${id}-status`}
+          className={`min-w-0 flex-1 px-3 py-2 text-sm border rounded-full focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all duration-200 ${
+            status === 'error' ? 'border-red-400' : 'border-stone-200'
+          }`}
+        />
+        <button
+          type="submit"
+          disabled={status === 'submitting'}
+          className="shrink-0 rounded-full border-2 border-stone-400 px-4 py-2 text-sm font-medium text-stone-700 hover:border-stone-600 hover:text-stone-800 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-stone-400/50 focus:ring-offset-2 disabled:opacity-60"
+        >
+          {status === 'submitting' ? 'Sending...' : 'Subscribe'}
+        </button>
+      </div>
+
+      {/* Honeypot - hidden from people and screen readers, irresistible to bots */}
+      <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+        <label htmlFor={`${id}-${CONTACT_HONEYPOT_FIELD}`}>Website</label>
+        <input
+          id={`${id}-${CONTACT_HONEYPOT_FIELD}`}
+          type="text"
+          name={CONTACT_HONEYPOT_FIELD}
+          tabIndex={-1}
+          autoComplete="off"
+          value={honeypot}
+          onChange={(e) => setHoneypot(e.target.value)}
+        />
+      </div>
+
+      <p
+        id={`${id}-status`}
+        className={`mt-2 text-xs ${status === 'error' ? 'text-red-600' : 'text-stone-600'}`}
+        aria-live="polite"
+      >
+        {status === 'success' || status === 'error' ? message : ''}
+      </p>
+    </form>
+  );
+};
+
+export default NewsletterSignup;
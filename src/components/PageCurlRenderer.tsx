@@ -0,0 +1,224 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { gsap } from 'gsap';
+import type { InteriorTopic } from '../types/portfolio';
+import {
+  PAGE_CURL_CONFIG,
+  applyPageCurl,
+  applyPageShading,
+  drawPageTexture,
+  getPageTextureStyle,
+  loadTextureImage,
+  type PageTextureStyle
+} from '../utils/pageCurl';
+
+interface PageCurlRendererProps {
+  // Element holding the CSS book whose turning pages are drawn here
+  rootRef: React.RefObject<HTMLElement | null>;
+  interiorTopics: InteriorTopic[];
+  // Size of one page in CSS pixels
+  width: number;
+  height: number;
+  // CSS perspective of the book, matched by the camera
+  perspective: number;
+  // WebGL stopped working; the CSS pages take over again
+  onFallback: () => void;
+}
+
+// The canvas reaches past the book: turned pages land to the left of the spine and lift
+// towards the viewer. Fractions of the book size on each side.
+const OVERLAY_MARGIN = { x: 1, y: 0.25 };
+
+// rotationY, in degrees, past which a page counts as turning rather than at rest
+const REST_TOLERANCE = 0.5;
+
+// Perspective camera that projects the z = 0 plane at CSS pixel scale, as the CSS book does
+const FitCamera: React.FC<{ viewHeight: number; distance: number }> = ({ viewHeight, distance }) => {
+  const camera = useThree((state) => state.camera);
+
+  useEffect(() => {
+    if (!(camera instanceof THREE.PerspectiveCamera)) return;
+    camera.fov = THREE.MathUtils.radToDeg(2 * Math.atan(viewHeight / 2 / distance));
+    camera.near = 1;
+    camera.far = distance * 4;
+    camera.position.set(0, 0, distance);
+    camera.lookAt(0, 0, 0);
+    camera.updateProjectionMatrix();
+  }, [camera, viewHeight, distance]);
+
+  return null;
+};
+
+interface CurlingPageProps {
+  rootRef: React.RefObject<HTMLElement | null>;
+  topic: InteriorTopic;
+  pageIndex: number;
+  width: number;
+  height: number;
+  textureStyle: PageTextureStyle;
+}
+
+// One portfolio page: follows the rotation GSAP gives its CSS page and, while it turns,
+// hides that page and draws itself in its place as a curled sheet
+const CurlingPage: React.FC<CurlingPageProps> = ({ rootRef, topic, pageIndex, width, height, textureStyle }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const pageRef = useRef<HTMLElement | null>(null);
+  const lastRotationRef = useRef<number | null>(null);
+
+  const geometry = useMemo(() => {
+    const plane = new THREE.PlaneGeometry(width, height, PAGE_CURL_CONFIG.SEGMENTS_X, PAGE_CURL_CONFIG.SEGMENTS_Y);
+    plane.setAttribute('color', new THREE.BufferAttribute(new Float32Array(plane.attributes.position.count * 3).fill(1), 3));
+    return plane;
+  }, [width, height]);
+
+  const texture = useMemo(() => {
+    const canvas = document.createElement('canvas');
+    const scale = Math.min(PAGE_CURL_CONFIG.MAX_TEXTURE_SCALE, window.devicePixelRatio || 1);
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const canvasTexture = new THREE.CanvasTexture(canvas);
+    canvasTexture.colorSpace = THREE.SRGBColorSpace;
+    canvasTexture.anisotropy = 4;
+    return canvasTexture;
+  }, [width, height]);
+
+  // Draw the text straight away and again once the image and web fonts are in
+  useEffect(() => {
+    const canvas = texture.image as HTMLCanvasElement;
+    let isCancelled = false;
+
+    drawPageTexture(canvas, topic, pageIndex, textureStyle, null);
+    texture.needsUpdate = true;
+
+    Promise.all([loadTextureImage(topic.image), document.fonts.ready]).then(([image]) => {
+      if (isCancelled) return;
+      drawPageTexture(canvas, topic, pageIndex, textureStyle, image);
+      texture.needsUpdate = true;
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [texture, topic, pageIndex, textureStyle]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  // Give the page back to the CSS book when the renderer goes away
+  useEffect(() => () => {
+    delete pageRef.current?.dataset.curling;
+  }, []);
+
+  useFrame(() => {
+    const group = groupRef.current;
+    if (!group) return;
+
+    // Book3D re-renders its pages on layout changes, so look the page up again when needed
+    if (!pageRef.current?.isConnected) {
+      pageRef.current = rootRef.current?.querySelector<HTMLElement>(`.book-page[data-page="${pageIndex}"]`) ?? null;
+      lastRotationRef.current = null;
+    }
+    const page = pageRef.current;
+    if (!page) return;
+
+    const rotation = Number(gsap.getProperty(page, 'rotationY')) || 0;
+    const isTurning = rotation < -REST_TOLERANCE && rotation > -180 + REST_TOLERANCE;
+
+    group.visible = isTurning;
+    if (isTurning) {
+      page.dataset.curling = '';
+    } else {
+      delete page.dataset.curling;
+    }
+
+    if (!isTurning || rotation === lastRotationRef.current) return;
+    lastRotationRef.current = rotation;
+
+    const positions = geometry.attributes.position;
+    const colors = geometry.attributes.color;
+    applyPageCurl(positions.array as Float32Array, width, height, THREE.MathUtils.degToRad(-rotation));
+    positions.needsUpdate = true;
+    geometry.computeVertexNormals();
+    applyPageShading(geometry.attributes.normal.array as Float32Array, colors.array as Float32Array);
+    colors.needsUpdate = true;
+    geometry.computeBoundingSphere();
+  });
+
+  return (
+    <group ref={groupRef} visible={false}>
+      <mesh geometry={geometry}>
+        <meshBasicMaterial map={texture} vertexColors side={THREE.FrontSide} />
+      </mesh>
+      {/* Page backs are blank in the single-page book */}
+      <mesh geometry={geometry}>
+        <meshBasicMaterial color={textureStyle.background} vertexColors side={THREE.BackSide} />
+      </mesh>
+    </group>
+  );
+};
+
+// WebGL layer over the CSS book that draws turning pages as curled paper. The CSS book keeps
+// running underneath: GSAP still drives every flip and this only mirrors the page rotations.
+const PageCurlRenderer: React.FC<PageCurlRendererProps> = ({
+  rootRef,
+  interiorTopics,
+  width,
+  height,
+  perspective,
+  onFallback
+}) => {
+  const [textureStyle, setTextureStyle] = useState<PageTextureStyle | null>(null);
+
+  const onFallbackRef = useRef(onFallback);
+  useEffect(() => {
+    onFallbackRef.current = onFallback;
+  }, [onFallback]);
+
+  // Read the theme once the CSS pages are on screen
+  useEffect(() => {
+    if (rootRef.current) setTextureStyle(getPageTextureStyle(rootRef.current));
+  }, [rootRef]);
+
+  return (
+    <div
+      className="absolute pointer-events-none"
+      aria-hidden="true"
+      style={{
+        left: `${-OVERLAY_MARGIN.x * 100}%`,
+        right: `${-OVERLAY_MARGIN.x * 100}%`,
+        top: `${-OVERLAY_MARGIN.y * 100}%`,
+        bottom: `${-OVERLAY_MARGIN.y * 100}%`,
+        // In front of the flat pages, which all lie at z = 0
+        transform: 'translateZ(1px)',
+        zIndex: interiorTopics.length + 3
+      }}
+    >
+      <Canvas
+        flat
+        dpr={[1, 2]}
+        gl={{ alpha: true, antialias: true }}
+        onCreated={({ gl }) => {
+          gl.domElement.addEventListener('webglcontextlost', () => onFallbackRef.current());
+        }}
+      >
+        <FitCamera viewHeight={height * (1 + OVERLAY_MARGIN.y * 2)} distance={perspective} />
+        {textureStyle && interiorTopics.map((topic, index) => (
+          <CurlingPage
+            key={topic.slug}
+            rootRef={rootRef}
+            topic={topic}
+            pageIndex={index}
+            width={width}
+            height={height}
+            textureStyle={textureStyle}
+          />
+        ))}
+      </Canvas>
+    </div>
+  );
+};
+
+export default PageCurlRenderer;
@@ -2,9 +2,22 @@
 
 import React, { useEffect, useRef } from 'react';
 import { SectionAnimations } from '../utils/animations';
-import BookAnimation from './BookAnimation';
+import BookAnimation, { type ResponsiveBookMode } from './BookAnimation';
+import type { InteriorTopic } from '../types/portfolio';
+import type { StudioConfig } from '../types/studio';
 
-const PortfolioSection: React.FC = () => {
+// Phones turn pages with buttons instead of the pinned scroll scrub
+const BOOK_MODE: ResponsiveBookMode = { mobile: 'paged', desktop: 'scroll' };
+
+// Wide landscape screens open the book out into two-page spreads
+const BOOK_LAYOUT = 'auto';
+
+interface PortfolioSectionProps {
+  projects: InteriorTopic[];
+  studio: StudioConfig;
+}
+
+const PortfolioSection: React.FC<PortfolioSectionProps> = ({ projects, studio }) => {
   const sectionRef = useRef<HTMLElement>(null);
   const headerRef = useRef<HTMLDivElement>(null);
 
@@ -78,7 +91,7 @@ const PortfolioSection: React.FC = () => {
 
       {/* Interactive Book Container */}
       <div className="relative z-10">
-        <BookAnimation />
+        <BookAnimation projects={projects} studio={studio} mode={BOOK_MODE} layout={BOOK_LAYOUT} />
       </div>
 
       {/* Portfolio Footer */}
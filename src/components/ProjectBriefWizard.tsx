@@ -0,0 +1,569 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Image from 'next/image';
+import FileAttachments from './FileAttachments';
+import {
+  AREA_UNITS,
+  BRIEF_TIMELINES,
+  BriefField,
+  BriefFieldErrors,
+  BriefFormValues,
+  BriefResponse,
+  BUDGET_BANDS,
+  ROOM_TYPES
+} from '../types/brief';
+import type { InteriorTopic } from '../types/portfolio';
+import type { UploadedFile } from '../types/uploads';
+import { CONTACT_HONEYPOT_FIELD, CONTACT_LIMITS } from '../utils/contactValidation';
+import {
+  BRIEF_LIMITS,
+  BRIEF_STEPS,
+  EMPTY_BRIEF,
+  getBriefSummary,
+  validateBrief,
+  validateBriefField,
+  validateBriefFields
+} from '../utils/projectBrief';
+
+type SubmitStatus = 'idle' | 'submitting' | 'success' | 'error';
+
+interface ProjectBriefWizardProps {
+  // Portfolio book pages the visitor picks style preferences from
+  projects: InteriorTopic[];
+}
+
+interface BriefDraft {
+  values: BriefFormValues;
+  step: number;
+}
+
+const DRAFT_STORAGE_KEY = 'luminare-project-brief';
+const DRAFT_SAVE_DELAY = 400;
+const REVIEW_STEP = BRIEF_STEPS.length - 1;
+
+const FIELD_CLASS = 'w-full px-3 md:px-4 py-2 md:py-3 text-sm md:text-base border rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all duration-200';
+
+const choiceClass = (isSelected: boolean) =>
+  `inline-flex cursor-pointer items-center px-3 py-1.5 text-xs md:text-sm rounded-full border transition-colors duration-200 has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-amber-500 ${
+    isSelected ? 'border-stone-700 bg-stone-700 text-white' : 'border-stone-300 text-stone-700 hover:border-stone-500'
+  }`;
+
+// Only keep what still fits the current form, e.g. styles of projects that still exist
+const readDraft = (styleSlugs: string[]): BriefDraft | null => {
+  try {
+    const stored = window.localStorage.getItem(DRAFT_STORAGE_KEY);
+    if (!stored) return null;
+    const draft = JSON.parse(stored) as Partial<BriefDraft>;
+    const values = { ...EMPTY_BRIEF };
+    (Object.keys(EMPTY_BRIEF) as BriefField[]).forEach(field => {
+      const value = draft.values?.[field];
+      if (value !== undefined && Array.isArray(value) === Array.isArray(EMPTY_BRIEF[field])) {
+        (values as Record<BriefField, unknown>)[field] = value;
+      }
+    });
+    values.styles = values.styles.filter(style => styleSlugs.includes(style));
+    const step = Number.isInteger(draft.step) ? Math.max(0, Math.min(REVIEW_STEP, draft.step as number)) : 0;
+    return { values, step };
+  } catch (error) {
+    console.warn('Project brief draft could not be restored:', error);
+    return null;
+  }
+};
+
+const ProjectBriefWizard: React.FC<ProjectBriefWizardProps> = ({ projects }) => {
+  const formRef = useRef<HTMLFormElement>(null);
+  const headingRef = useRef<HTMLHeadingElement>(null);
+  const [values, setValues] = useState<BriefFormValues>(EMPTY_BRIEF);
+  const [step, setStep] = useState(0);
+  const [errors, setErrors] = useState<BriefFieldErrors>({});
+  const [honeypot, setHoneypot] = useState('');
+  // Uploads are not part of the draft: they only live until the brief is sent
+  const [attachments, setAttachments] = useState<UploadedFile[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [status, setStatus] = useState<SubmitStatus>('idle');
+  const [statusMessage, setStatusMessage] = useState('');
+  // The draft is read after mounting; saving waits for that so it never overwrites it
+  const [isDraftLoaded, setIsDraftLoaded] = useState(false);
+  const [isDraftRestored, setIsDraftRestored] = useState(false);
+  const hasNavigatedRef = useRef(false);
+
+  const styleSlugs = useMemo(() => projects.map(project => project.slug), [projects]);
+  const styleTitles = useMemo(
+    () => Object.fromEntries(projects.map(project => [project.slug, project.title])),
+    [projects]
+  );
+
+  useEffect(() => {
+    const draft = readDraft(styleSlugs);
+    if (draft) {
+      setValues(draft.values);
+      setStep(draft.step);
+      setIsDraftRestored(JSON.stringify(draft.values) !== JSON.stringify(EMPTY_BRIEF));
+    }
+    setIsDraftLoaded(true);
+  }, [styleSlugs]);
+
+  // Autosave the draft shortly after the visitor stops typing
+  useEffect(() => {
+    if (!isDraftLoaded || status === 'success') return;
+    const timer = setTimeout(() => {
+      try {
+        window.localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify({ values, step } satisfies BriefDraft));
+      } catch (error) {
+        console.warn('Project brief draft could not be saved:', error);
+      }
+    }, DRAFT_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [values, step, isDraftLoaded, status]);
+
+  // Move focus to the new step's heading so screen readers announce it
+  useEffect(() => {
+    if (hasNavigatedRef.current) headingRef.current?.focus();
+  }, [step]);
+
+  const goToStep = (nextStep: number) => {
+    hasNavigatedRef.current = true;
+    setStep(nextStep);
+  };
+
+  const focusFirstError = (fieldErrors: BriefFieldErrors) => {
+    const field = (Object.keys(EMPTY_BRIEF) as BriefField[]).find(name => fieldErrors[name]);
+    if (field) {
+      formRef.current?.querySelector<HTMLElement>(`[name="${field}"]`)?.focus();
+    }
+  };
+
+  const updateValue = <F extends BriefField>(field: F, value: BriefFormValues[F]) => {
+    const next = { ...values, [field]: value };
+    setValues(next);
+    // Clear a field's error as soon as it is fixed
+    if (errors[field]) {
+      setErrors(current => ({ ...current, [field]: validateBriefField(field, next, styleSlugs) }));
+    }
+  };
+
+  const toggleListValue = (field: 'roomTypes' | 'styles', value: string) => {
+    const list = values[field] as string[];
+    const next = list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+    updateValue(field, next as BriefFormValues[typeof field]);
+  };
+
+  const handleTextChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    updateValue(e.target.name as 'area' | 'notes' | 'name' | 'email', e.target.value);
+  };
+
+  const handleTextBlur = (e: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const field = e.target.name as BriefField;
+    if (!e.target.value) return;
+    setErrors(current => ({ ...current, [field]: validateBriefField(field, values, styleSlugs) }));
+  };
+
+  const startOver = () => {
+    window.localStorage.removeItem(DRAFT_STORAGE_KEY);
+    setValues(EMPTY_BRIEF);
+    setErrors({});
+    setIsDraftRestored(false);
+    setStatus('idle');
+    goToStep(0);
+  };
+
+  const submitBrief = async () => {
+    const result = validateBrief(values, styleSlugs);
+    if (!result.success) {
+      // Send the visitor back to the first step with something to fix
+      setErrors(result.errors);
+      goToStep(Math.max(0, BRIEF_STEPS.findIndex(({ fields }) => fields.some(field => result.errors[field]))));
+      return;
+    }
+
+    setStatus('submitting');
+
+    try {
+      const response = await fetch('/api/brief', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...values,
+          attachments: attachments.map(file => file.id),
+          [CONTACT_HONEYPOT_FIELD]: honeypot
+        })
+      });
+      const body = await response.json() as BriefResponse;
+
+      if (body.ok) {
+        window.localStorage.removeItem(DRAFT_STORAGE_KEY);
+        setAttachments([]);
+        setStatus('success');
+        setStatusMessage(body.message);
+        return;
+      }
+
+      setErrors(body.errors ?? {});
+      setStatus('error');
+      setStatusMessage(body.message);
+      const errorStep = BRIEF_STEPS.findIndex(({ fields }) => fields.some(field => body.errors?.[field]));
+      if (errorStep !== -1) goToStep(errorStep);
+    } catch (error) {
+      console.error('Project brief submission failed:', error);
+      setStatus('error');
+      setStatusMessage('We could not send your brief. Please check your connection and try again - your answers are saved.');
+    }
+  };
+
+  // Enter and the primary button move forward; the review step submits
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (status === 'submitting' || isUploading) return;
+
+    if (step === REVIEW_STEP) {
+      submitBrief();
+      return;
+    }
+
+    const stepErrors = validateBriefFields(BRIEF_STEPS[step].fields, values, styleSlugs);
+    setErrors(current => ({ ...current, ...Object.fromEntries(BRIEF_STEPS[step].fields.map(field => [field, stepErrors[field]])) }));
+    if (Object.keys(stepErrors).length > 0) {
+      focusFirstError(stepErrors);
+      return;
+    }
+    if (status === 'error') setStatus('idle');
+    goToStep(step + 1);
+  };
+
+  const renderError = (field: BriefField) => errors[field] && (
+    <p id={`brief-${field}-error`} className="mt-1 text-left text-xs text-red-600">
+      {errors[field]}
+    </p>
+  );
+
+  const describedBy = (field: BriefField) => (errors[field] ? `brief-${field}-error` : undefined);
+
+  const textFieldProps = (field: 'area' | 'notes' | 'name' | 'email') => ({
+    id: `brief-${field}`,
+    name: field,
+    value: values[field],
+    onChange: handleTextChange,
+    onBlur: handleTextBlur,
+    'aria-invalid': Boolean(errors[field]),
+    'aria-describedby': describedBy(field),
+    className: `${FIELD_CLASS} ${errors[field] ? 'border-red-400' : 'border-stone-200'}`
+  });
+
+  if (status === 'success') {
+    return (
+      <div className="space-y-3 rounded-lg border border-stone-200 p-4 md:p-6" role="status">
+        <p className="text-sm md:text-base text-stone-700">{statusMessage}</p>
+        <button
+          type="button"
+          onClick={startOver}
+          className="text-xs md:text-sm font-medium text-stone-600 underline-offset-4 hover:underline"
+        >
+          Start a new brief
+        </button>
+      </div>
+    );
+  }
+
+  const review = step === REVIEW_STEP ? validateBrief(values, styleSlugs) : null;
+
+  return (
+    <form ref={formRef} onSubmit={handleSubmit} noValidate className="space-y-3 md:space-y-4 text-left">
+      {/* Progress */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-xs text-stone-500">
+          <span>Step {step + 1} of {BRIEF_STEPS.length}</span>
+          {isDraftRestored && (
+            <button type="button" onClick={startOver} className="underline-offset-4 hover:underline">
+              Draft restored &middot; start over
+            </button>
+          )}
+        </div>
+        <div
+          className="h-1 w-full overflow-hidden rounded-full bg-stone-200"
+          role="progressbar"
+          aria-label="Brief progress"
+          aria-valuemin={1}
+          aria-valuemax={BRIEF_STEPS.length}
+          aria-valuenow={step + 1}
+          aria-valuetext={`Step ${step + 1} of ${BRIEF_STEPS.length}: ${BRIEF_STEPS[step].title}`}
+        >
+          <div
+            className="h-full rounded-full bg-stone-700 transition-all duration-300"
+            style={{ width: `${((step + 1) / BRIEF_STEPS.length) * 100}%` }}
+          />
+        </div>
+      </div>
+
+      <h3
+        ref={headingRef}
+        tabIndex={-1}
+        className="font-display text-base md:text-lg text-stone-800 focus:outline-none"
+      >
+        {BRIEF_STEPS[step].title}
+      </h3>
+
+      {/* Step 1: rooms and size */}
+      {step === 0 && (
+        <>
+          <fieldset aria-describedby={describedBy('roomTypes')}>
+            <legend className="mb-2 text-xs md:text-sm text-stone-600">Which spaces are we designing?</legend>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(ROOM_TYPES) as (keyof typeof ROOM_TYPES)[]).map(room => (
+                <label key={room} className={choiceClass(values.roomTypes.includes(room))}>
+                  <input
+                    type="checkbox"
+                    name="roomTypes"
+                    value={room}
+                    checked={values.roomTypes.includes(room)}
+                    onChange={() => toggleListValue('roomTypes', room)}
+                    className="sr-only"
+                  />
+                  {ROOM_TYPES[room]}
+                </label>
+              ))}
+            </div>
+            {renderError('roomTypes')}
+          </fieldset>
+
+          <div>
+            <label htmlFor="brief-area" className="mb-2 block text-xs md:text-sm text-stone-600">
+              Approximate size
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                inputMode="decimal"
+                min={1}
+                max={BRIEF_LIMITS.AREA_MAX}
+                placeholder="e.g. 1200"
+                {...textFieldProps('area')}
+              />
+              <div className="flex shrink-0 gap-1" role="radiogroup" aria-label="Unit">
+                {(Object.keys(AREA_UNITS) as (keyof typeof AREA_UNITS)[]).map(unit => (
+                  <label key={unit} className={choiceClass(values.areaUnit === unit)}>
+                    <input
+                      type="radio"
+                      name="areaUnit"
+                      value={unit}
+                      checked={values.areaUnit === unit}
+                      onChange={() => updateValue('areaUnit', unit)}
+                      className="sr-only"
+                    />
+                    {AREA_UNITS[unit]}
+                  </label>
+                ))}
+              </div>
+            </div>
+            {renderError('area')}
+          </div>
+        </>
+      )}
+
+      {/* Step 2: styles from the portfolio book */}
+      {step === 1 && (
+        <fieldset aria-describedby={describedBy('styles')}>
+          <legend className="mb-2 text-xs md:text-sm text-stone-600">
+            Which of our projects feel closest to what you want? Pick up to {BRIEF_LIMITS.STYLES_MAX}.
+          </legend>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 max-h-56 overflow-y-auto p-1">
+            {projects.map(project => {
+              const isSelected = values.styles.includes(project.slug);
+              return (
+                <label
+                  key={project.slug}
+                  className={`relative block cursor-pointer overflow-hidden rounded-lg border-2 transition-colors duration-200 has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-amber-500 ${
+                    isSelected ? 'border-stone-700' : 'border-transparent'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    name="styles"
+                    value={project.slug}
+                    checked={isSelected}
+                    disabled={!isSelected && values.styles.length >= BRIEF_LIMITS.STYLES_MAX}
+                    onChange={() => toggleListValue('styles', project.slug)}
+                    className="sr-only"
+                  />
+                  <Image
+                    src={project.image}
+                    alt=""
+                    width={160}
+                    height={120}
+                    className="aspect-[4/3] w-full object-cover"
+                  />
+                  <span className="block px-2 py-1 text-xs text-stone-700 bg-white/90">
+                    {project.title}
+                  </span>
+                  {isSelected && (
+                    <span className="absolute right-1 top-1 rounded-full bg-stone-700 px-1.5 text-xs text-white" aria-hidden="true">
+                      ✓
+                    </span>
+                  )}
+                </label>
+              );
+            })}
+          </div>
+          {renderError('styles')}
+        </fieldset>
+      )}
+
+      {/* Step 3: budget and timeline */}
+      {step === 2 && (
+        <>
+          <fieldset aria-describedby={describedBy('budget')}>
+            <legend className="mb-2 text-xs md:text-sm text-stone-600">Budget</legend>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(BUDGET_BANDS) as (keyof typeof BUDGET_BANDS)[]).map(band => (
+                <label key={band} className={choiceClass(values.budget === band)}>
+                  <input
+                    type="radio"
+                    name="budget"
+                    value={band}
+                    checked={values.budget === band}
+                    onChange={() => updateValue('budget', band)}
+                    className="sr-only"
+                  />
+                  {BUDGET_BANDS[band]}
+                </label>
+              ))}
+            </div>
+            {renderError('budget')}
+          </fieldset>
+
+          <fieldset aria-describedby={describedBy('timeline')}>
+            <legend className="mb-2 text-xs md:text-sm text-stone-600">When would you like to start?</legend>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(BRIEF_TIMELINES) as (keyof typeof BRIEF_TIMELINES)[]).map(timeline => (
+                <label key={timeline} className={choiceClass(values.timeline === timeline)}>
+                  <input
+                    type="radio"
+                    name="timeline"
+                    value={timeline}
+                    checked={values.timeline === timeline}
+                    onChange={() => updateValue('timeline', timeline)}
+                    className="sr-only"
+                  />
+                  {BRIEF_TIMELINES[timeline]}
+                </label>
+              ))}
+            </div>
+            {renderError('timeline')}
+          </fieldset>
+        </>
+      )}
+
+      {/* Step 4: notes and contact details */}
+      {step === 3 && (
+        <>
+          <div>
+            <label htmlFor="brief-notes" className="sr-only">Anything else (optional)</label>
+            <textarea
+              placeholder="Anything else we should know? (optional)"
+              rows={3}
+              maxLength={BRIEF_LIMITS.NOTES_MAX}
+              {...textFieldProps('notes')}
+              className={`${textFieldProps('notes').className} resize-none`}
+            />
+            {renderError('notes')}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4">
+            <div>
+              <label htmlFor="brief-name" className="sr-only">Name</label>
+              <input
+                type="text"
+                placeholder="Name"
+                autoComplete="name"
+                maxLength={CONTACT_LIMITS.NAME_MAX}
+                required
+                {...textFieldProps('name')}
+              />
+              {renderError('name')}
+            </div>
+            <div>
+              <label htmlFor="brief-email" className="sr-only">Email</label>
+              <input
+                type="email"
+                placeholder="Email"
+                autoComplete="email"
+                maxLength={CONTACT_LIMITS.EMAIL_MAX}
+                required
+                {...textFieldProps('email')}
+              />
+              {renderError('email')}
+            </div>
+          </div>
+          <FileAttachments
+            id="brief-attachments"
+            files={attachments}
+            onChange={setAttachments}
+            onUploadingChange={setIsUploading}
+          />
+        </>
+      )}
+
+      {/* Step 5: review */}
+      {step === REVIEW_STEP && review?.success && (
+        <dl className="max-h-56 overflow-y-auto rounded-lg border border-stone-200 p-3 text-xs md:text-sm">
+          {[
+            ...getBriefSummary(review.brief, styleTitles),
+            { label: 'Name', value: review.contact.name },
+            { label: 'Email', value: review.contact.email },
+            ...(attachments.length > 0
+              ? [{ label: 'Files', value: attachments.map(file => file.filename).join('\n') }]
+              : [])
+          ].map(({ label, value }) => (
+            <div key={label} className="grid grid-cols-3 gap-2 py-1">
+              <dt className="text-stone-500">{label}</dt>
+              <dd className="col-span-2 whitespace-pre-line break-words text-stone-800">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {/* Honeypot - hidden from people and screen readers, irresistible to bots */}
+      <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+        <label htmlFor={`brief-${CONTACT_HONEYPOT_FIELD}`}>Website</label>
+        <input
+          id={`brief-${CONTACT_HONEYPOT_FIELD}`}
+          type="text"
+          name={CONTACT_HONEYPOT_FIELD}
+          tabIndex={-1}
+          autoComplete="off"
+          value={honeypot}
+          onChange={(e) => setHoneypot(e.target.value)}
+        />
+      </div>
+
+      {status === 'error' && (
+        <p className="text-center text-xs md:text-sm text-red-600" role="alert">
+          {statusMessage}
+        </p>
+      )}
+
+      <div className="flex gap-3">
+        {step > 0 && (
+          <button
+            type="button"
+            onClick={() => goToStep(step - 1)}
+            disabled={status === 'submitting'}
+            className="rounded-full px-4 md:px-6 py-2 md:py-3 text-sm md:text-base font-medium text-stone-600 hover:text-stone-800 transition-colors duration-300 disabled:opacity-60"
+          >
+            ← Back
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={status === 'submitting' || isUploading}
+          className="flex-1 bg-transparent text-stone-700 font-medium tracking-wide border-2 border-stone-400 rounded-full py-2 md:py-3 px-4 md:px-6 text-sm md:text-base hover:scale-105 hover:border-stone-600 hover:text-stone-800 hover:bg-stone-50/50 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-stone-400/50 focus:ring-offset-2 disabled:opacity-60 disabled:hover:scale-100"
+        >
+          {isUploading
+            ? 'Uploading files...'
+            : step < REVIEW_STEP ? 'Continue →' : status === 'submitting' ? 'Sending...' : 'Send brief'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ProjectBriefWizard;
@@ -13,8 +13,27 @@ import 'swiper/css/navigation';
 import 'swiper/css/pagination';
 import { useBookContext } from '../contexts/BookContext';
 import Image from 'next/image';
+import Link from 'next/link';
+import type { Service } from '../types/services';
 
-const ServicesSection: React.FC = () => {
+// Service icons keyed by service slug
+const SERVICE_ICON_PATHS: Record<string, string> = {
+  'residential-design': "M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4",
+  'commercial-interiors': "M21 13.255A23.931 23.931 0 0112 15c-3.183 0-6.22-.62-9-1.745M16 6V4a2 2 0 00-2-2h-4a2 2 0 00-2-2v2m8 0V6a2 2 0 012 2v6a2 2 0 01-2 2H8a2 2 0 01-2-2V8a2 2 0 012-2V6",
+  'custom-renovations': "M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10",
+  'concept-development-styling': "M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zM21 5a2 2 0 00-2-2h-4a2 2 0 00-2 2v12a4 4 0 004 4h4a2 2 0 002-2V5z",
+  'sustainable-design-consulting': "M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z",
+  'lighting-design': "M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"
+};
+
+// Fallback icon for services added without a dedicated one
+const DEFAULT_ICON_PATH = "M4 6h16M4 12h16M4 18h16";
+
+interface ServicesSectionProps {
+  services: Service[];
+}
+
+const ServicesSection: React.FC<ServicesSectionProps> = ({ services }) => {
   const sectionRef = useRef<HTMLElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const swiperRef = useRef<SwiperRef | null>(null);
@@ -88,69 +107,6 @@ const ServicesSection: React.FC = () => {
     };
   }, [isMobile]);
 
-  const services = [
-    {
-      title: "Residential Design",
-      description: "Sophisticated living environments that marry comfort with style — from cozy apartments to expansive estates, emphasizing natural light, texture, and smart spatial flow.",
-      icon: (
-        <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
-        </svg>
-      ),
-      image: "/photos/residential-design.jpg"
-    },
-    {
-      title: "Commercial Interiors",
-      description: "Inspiring workplaces, retail spaces, and hospitality venues designed to enhance brand identity and create memorable customer experiences through layout and lighting.",
-      icon: (
-        <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 13.255A23.931 23.931 0 0112 15c-3.183 0-6.22-.62-9-1.745M16 6V4a2 2 0 00-2-2h-4a2 2 0 00-2-2v2m8 0V6a2 2 0 012 2v6a2 2 0 01-2 2H8a2 2 0 01-2-2V8a2 2 0 012-2V6" />
-        </svg>
-      ),
-      image: "/photos/commercial-interiors.jpg"
-    },
-    {
-      title: "Custom Renovations",
-      description: "Reimagining existing spaces with expert renovations that respect architectural heritage while adding modern elegance and functionality.",
-      icon: (
-        <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
-        </svg>
-      ),
-      image: "/photos/custom-renovations.jpg"
-    },
-    {
-      title: "Concept Development & Styling",
-      description: "Collaborative concept planning with curated finishes — from furnishings and art selection to refined accessorizing.",
-      icon: (
-        <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zM21 5a2 2 0 00-2-2h-4a2 2 0 00-2 2v12a4 4 0 004 4h4a2 2 0 002-2V5z" />
-        </svg>
-      ),
-      image: "/photos/concept-development.jpg"
-    },
-    {
-      title: "Sustainable Design Consulting",
-      description: "Eco-conscious interiors using natural, energy-efficient materials that preserve luxury and reduce environmental impact.",
-      icon: (
-        <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-        </svg>
-      ),
-      image: "/photos/sustainable-design-consulting.jpg"
-    },
-    {
-      title: "Lighting Design",
-      description: "Strategic lighting solutions that enhance ambiance and highlight architectural features, creating the perfect mood for every space.",
-      icon: (
-        <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
-        </svg>
-      ),
-      image: "/photos/lighting-concept.jpg"
-    }
-  ];
-
   return (
     <section
       ref={sectionRef}
@@ -275,9 +231,9 @@ const ServicesSection: React.FC = () => {
                   });
                 }}
               >
-                {services.map((service, index) => (
-                  <SwiperSlide key={index} className="pb-12">
-                    <div className="service-card group h-full">
+                {services.map((service) => (
+                  <SwiperSlide key={service.slug} className="pb-12">
+                    <Link href={`/services/${service.slug}`} className="service-card group h-full block" aria-label={`${service.title} - learn more`}>
                       <div className="rounded-xl shadow-lg overflow-hidden w-full h-[500px] flex flex-col"
                            style={{ background: 'var(--secondary-background)' }}>
                         {/* Service Image */}
@@ -296,10 +252,9 @@ const ServicesSection: React.FC = () => {
                           {/* Service Icon */}
                           <div className="w-10 h-10 rounded-full flex items-center justify-center mb-3 group-hover:transition-colors duration-300 flex-shrink-0"
                                style={{ background: 'var(--accent-1)' }}>
-                            {React.cloneElement(service.icon, { 
-                              className: 'w-5 h-5',
-                              style: { color: 'var(--foreground)' }
-                            })}
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" style={{ color: 'var(--foreground)' }}>
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d={SERVICE_ICON_PATHS[service.slug] ?? DEFAULT_ICON_PATH} />
+                            </svg>
                           </div>
 
                           {/* Service Title */}
@@ -313,9 +268,15 @@ const ServicesSection: React.FC = () => {
                              style={{ color: 'var(--typography-secondary)' }}>
                             {service.description}
                           </p>
+
+                          {/* Detail page link */}
+                          <span className="mt-auto pt-3 text-sm font-medium tracking-wide group-hover:underline underline-offset-4"
+                                style={{ color: 'var(--foreground)' }}>
+                            Learn more &rarr;
+                          </span>
                         </div>
                       </div>
-                    </div>
+                    </Link>
                   </SwiperSlide>
                 ))}
               </Swiper>
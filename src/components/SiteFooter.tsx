@@ -0,0 +1,31 @@
+"use client";
+
+import React from 'react';
+import NewsletterSignup from './NewsletterSignup';
+
+// Closes the page after the portfolio book
+const SiteFooter: React.FC = () => (
+  <footer className="relative z-10 border-t py-12" style={{ borderColor: 'var(--accent-1)', background: 'var(--secondary-background)' }}>
+    <div className="container mx-auto px-4 max-w-6xl grid gap-10 md:grid-cols-2 md:items-end">
+      <div>
+        <p className="font-display text-2xl font-light" style={{ color: 'var(--foreground)' }}>
+          Luminare Studio
+        </p>
+        <p className="mt-2 text-sm font-light" style={{ color: 'var(--typography-secondary)' }}>
+          Illuminating spaces with harmony and elegance.
+        </p>
+      </div>
+      <div className="md:justify-self-end w-full max-w-sm">
+        <h2 className="text-sm font-medium tracking-wide uppercase mb-3" style={{ color: 'var(--foreground)' }}>
+          Newsletter
+        </h2>
+        <NewsletterSignup source="footer" />
+      </div>
+    </div>
+    <p className="container mx-auto px-4 max-w-6xl mt-10 text-xs" style={{ color: 'var(--typography-secondary)' }}>
+      &copy; {new Date().getFullYear()} Luminare Studio. All rights reserved.
+    </p>
+  </footer>
+);
+
+export default SiteFooter;
@@ -0,0 +1,30 @@
+"use client";
+
+import React from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+
+interface SoundToggleProps {
+  isOn: boolean;
+  onToggle: () => void;
+}
+
+// Mute/unmute button for the page-turn sound, in the corner of the book
+const SoundToggle: React.FC<SoundToggleProps> = ({ isOn, onToggle }) => {
+  const Icon = isOn ? Volume2 : VolumeX;
+
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      className="absolute bottom-6 right-6 z-30 w-10 h-10 rounded-full shadow-lg flex items-center justify-center transition-opacity duration-200 hover:opacity-80 focus:outline-none focus-visible:ring-2 focus-visible:ring-stone-400/70"
+      style={{ background: 'var(--secondary-background)', color: 'var(--foreground)' }}
+      aria-pressed={isOn}
+      aria-label="Page-turn sound"
+      title={isOn ? 'Mute page-turn sound' : 'Play page-turn sound'}
+    >
+      <Icon className="w-5 h-5" aria-hidden="true" />
+    </button>
+  );
+};
+
+export default SoundToggle;
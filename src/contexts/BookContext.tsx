@@ -4,6 +4,7 @@ import React, { createContext, useContext, useState, useRef, useCallback, useEff
 import { gsap } from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
 import { ScrollToPlugin } from 'gsap/ScrollToPlugin';
+import { getContactProgress, getContentsRestProgress, getPageRestProgress, getViewStart, progressToScroll } from '../utils/bookProgress';
 
 // Register GSAP plugins
 if (typeof window !== 'undefined') {
@@ -28,7 +29,25 @@ const PERFORMANCE_CONFIG = {
 //   };
 // };
 
+// 'scroll' pins the book and scrubs it with the page scroll; 'paged' turns pages with controls
+export type BookMode = 'scroll' | 'paged';
+
+// 'single' shows one page at a time; 'spread' shows a left and a right page side by side
+export type BookLayout = 'single' | 'spread';
+
+export const PAGES_PER_VIEW: Record<BookLayout, number> = { single: 1, spread: 2 };
+
+// A book in paged mode: tweening `progress` turns its pages
+export interface PagedBook {
+  element: HTMLElement;
+  progress: number;
+}
+
 interface BookContextType {
+  bookMode: BookMode;
+  bookLayout: BookLayout;
+  // 2 in a spread: navigation moves by whole views and currentPage is the left page
+  pagesPerView: number;
   currentPage: number;
   totalPages: number;
   isAnimating: boolean;
@@ -36,12 +55,17 @@ interface BookContextType {
   isSmartScrolling: boolean;
   scrollToLastPage: () => Promise<void>;
   scrollToContact: () => Promise<void>;
+  scrollToContents: () => Promise<void>;
   smartScrollToContact: () => Promise<void>;
   naturalPageFlip: (targetPage: number) => Promise<void>;
   setCurrentPage: (page: number) => void;
   setIsAnimating: (animating: boolean) => void;
   setIsAutoScrolling: (autoScrolling: boolean) => void;
   setIsSmartScrolling: (smartScrolling: boolean) => void;
+  registerPagedBook: (book: PagedBook | null) => void;
+  setBookLayout: (layout: BookLayout) => void;
+  isBookActive: () => boolean;
+  revealBook: () => boolean;
 }
 
 const BookContext = createContext<BookContextType | undefined>(undefined);
@@ -55,16 +79,21 @@ export const useBookContext = () => {
 };
 
 interface BookProviderProps {
+  // Number of portfolio pages rendered by Book3D, taken from the content collection
+  totalPages: number;
   children: React.ReactNode;
 }
 
-export const BookProvider: React.FC<BookProviderProps> = ({ children }) => {
+export const BookProvider: React.FC<BookProviderProps> = ({ totalPages, children }) => {
   const [currentPage, setCurrentPage] = useState(0);
   const [isAnimating, setIsAnimating] = useState(false);
   const [isAutoScrolling, setIsAutoScrolling] = useState(false);
   const [isSmartScrolling, setIsSmartScrolling] = useState(false);
-  const totalPages = 4; // Based on the current book structure
+  const [bookMode, setBookMode] = useState<BookMode>('scroll');
+  const [bookLayout, setBookLayout] = useState<BookLayout>('single');
+  const pagesPerView = PAGES_PER_VIEW[bookLayout];
   const scrollTriggerRef = useRef<ScrollTrigger | null>(null);
+  const pagedBookRef = useRef<PagedBook | null>(null);
 
   // Get the ScrollTrigger instance with performance optimization
   const getScrollTrigger = useCallback(() => {
@@ -82,19 +111,82 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children }) => {
     return scrollTriggerRef.current;
   }, []);
 
-  // Calculate the progress for a specific page
+  // Switch navigation to a paged book, or back to the scroll-driven one
+  const registerPagedBook = useCallback((book: PagedBook | null) => {
+    pagedBookRef.current = book;
+    setBookMode(book ? 'paged' : 'scroll');
+  }, []);
+
+  const isBookReady = useCallback(() => {
+    return Boolean(pagedBookRef.current || getScrollTrigger());
+  }, [getScrollTrigger]);
+
+  // Navigation tweens the paged book's progress, or the window scroll in scroll mode
+  const getProgressTarget = useCallback((): gsap.TweenTarget => {
+    return pagedBookRef.current ?? window;
+  }, []);
+
+  const getProgressVars = useCallback((progress: number): gsap.TweenVars => {
+    const scrollTrigger = getScrollTrigger();
+    if (pagedBookRef.current || !scrollTrigger) {
+      return { progress };
+    }
+    return {
+      scrollTo: {
+        y: progressToScroll(scrollTrigger, progress),
+        offsetY: 0
+      }
+    };
+  }, [getScrollTrigger]);
+
+  // Whether the book is the thing on screen - pinned in scroll mode, centred in paged mode
+  const isBookActive = useCallback(() => {
+    const pagedBook = pagedBookRef.current;
+    if (pagedBook) {
+      const rect = pagedBook.element.getBoundingClientRect();
+      const middle = window.innerHeight / 2;
+      return rect.top < middle && rect.bottom > middle;
+    }
+    return Boolean(ScrollTrigger.getById('book-animation')?.isActive);
+  }, []);
+
+  // Bring the book on screen; false while it is not set up yet
+  const revealBook = useCallback(() => {
+    const pagedBook = pagedBookRef.current;
+    if (pagedBook) {
+      if (!isBookActive()) {
+        pagedBook.element.scrollIntoView({ block: 'center' });
+      }
+      return true;
+    }
+
+    const trigger = ScrollTrigger.getById('book-animation');
+    if (!trigger) return false;
+    if (!trigger.isActive) {
+      window.scrollTo(0, trigger.start);
+      ScrollTrigger.update();
+    }
+    return true;
+  }, [isBookActive]);
+
+  // Keep page targets inside the book so navigation survives content changes.
+  // In a spread every target becomes the left page of its view.
+  const clampPage = useCallback((pageIndex: number) => {
+    return getViewStart(Math.max(0, Math.min(totalPages - 1, pageIndex)), pagesPerView);
+  }, [totalPages, pagesPerView]);
+
+  // Calculate the progress at which a page is fully shown
   const getPageProgress = useCallback((pageIndex: number) => {
-    const pagesProgress = 0.84; // 84% for pages (8% cover + 84% pages + 8% contact transition)
-    const progressPerPage = pagesProgress / totalPages;
-    return 0.08 + (pageIndex * progressPerPage); // 8% offset for cover
-  }, [totalPages]);
+    return getPageRestProgress(pageIndex, totalPages, pagesPerView);
+  }, [totalPages, pagesPerView]);
 
   // Animate to a specific page with performance optimization
-  const scrollToPage = useCallback(async (pageIndex: number): Promise<void> => {
+  const scrollToPage = useCallback(async (requestedPage: number): Promise<void> => {
+    const pageIndex = clampPage(requestedPage);
+
     return new Promise((resolve) => {
-      const scrollTrigger = getScrollTrigger();
-      if (!scrollTrigger) {
-        console.warn('ScrollTrigger not found, retrying in 100ms...');
+      if (!isBookReady()) {
+        console.warn('Book not ready, retrying in 100ms...');
         setTimeout(() => scrollToPage(pageIndex).then(resolve), 100);
         return;
       }
@@ -105,12 +197,9 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children }) => {
       console.log(`Scrolling to page ${pageIndex}, target progress: ${targetProgress}`);
       
       // Animate to the target progress with GPU acceleration
-      gsap.to(window, {
+      gsap.to(getProgressTarget(), {
         duration: 1.5,
-        scrollTo: {
-          y: scrollTrigger.start + (scrollTrigger.end - scrollTrigger.start) * targetProgress,
-          offsetY: 0
-        },
+        ...getProgressVars(targetProgress),
         ease: "power2.inOut",
         force3D: PERFORMANCE_CONFIG.FORCE_3D,
         onComplete: () => {
@@ -120,35 +209,31 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children }) => {
         }
       });
     });
-  }, [getScrollTrigger, getPageProgress]);
+  }, [isBookReady, getProgressTarget, getProgressVars, getPageProgress, clampPage]);
 
   // Scroll to the last page
   const scrollToLastPage = useCallback(async (): Promise<void> => {
-    const lastPageIndex = totalPages - 1;
+    const lastPageIndex = clampPage(totalPages - 1);
     await scrollToPage(lastPageIndex);
-  }, [scrollToPage, totalPages]);
+  }, [scrollToPage, clampPage, totalPages]);
 
   // Scroll directly to contact section with performance optimization
   const scrollToContact = useCallback(async (): Promise<void> => {
     return new Promise((resolve) => {
-      const scrollTrigger = getScrollTrigger();
-      if (!scrollTrigger) {
-        console.warn('ScrollTrigger not found, retrying in 100ms...');
+      if (!isBookReady()) {
+        console.warn('Book not ready, retrying in 100ms...');
         setTimeout(() => scrollToContact().then(resolve), 100);
         return;
       }
 
       setIsAnimating(true);
-      const contactProgress = 0.92; // Contact section threshold
+      const contactProgress = getContactProgress();
       
       console.log(`Scrolling to contact section, target progress: ${contactProgress}`);
       
-      gsap.to(window, {
+      gsap.to(getProgressTarget(), {
         duration: 2,
-        scrollTo: {
-          y: scrollTrigger.start + (scrollTrigger.end - scrollTrigger.start) * contactProgress,
-          offsetY: 0
-        },
+        ...getProgressVars(contactProgress),
         ease: "power2.inOut",
         force3D: PERFORMANCE_CONFIG.FORCE_3D,
         onComplete: () => {
@@ -158,10 +243,39 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children }) => {
         }
       });
     });
-  }, [getScrollTrigger, totalPages]);
+  }, [isBookReady, getProgressTarget, getProgressVars, totalPages]);
+
+  // Turn back to the table of contents after the cover
+  const scrollToContents = useCallback(async (): Promise<void> => {
+    return new Promise((resolve) => {
+      if (!isBookReady()) {
+        console.warn('Book not ready, retrying in 100ms...');
+        setTimeout(() => scrollToContents().then(resolve), 100);
+        return;
+      }
+
+      setIsAnimating(true);
+      const contentsProgress = getContentsRestProgress();
+
+      console.log(`Scrolling to table of contents, target progress: ${contentsProgress}`);
+
+      gsap.to(getProgressTarget(), {
+        duration: 1.5,
+        ...getProgressVars(contentsProgress),
+        ease: "power2.inOut",
+        force3D: PERFORMANCE_CONFIG.FORCE_3D,
+        onComplete: () => {
+          setCurrentPage(0);
+          setIsAnimating(false);
+          resolve();
+        }
+      });
+    });
+  }, [isBookReady, getProgressTarget, getProgressVars]);
 
-  // Disable scroll input during animations
+  // Disable scroll input during animations - a paged book does not own the page scroll
   const disableScrollInput = useCallback(() => {
+    if (pagedBookRef.current) return;
     document.body.style.overflow = 'hidden';
     document.body.style.pointerEvents = 'none';
   }, []);
@@ -173,11 +287,12 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children }) => {
   }, []);
 
   // Natural page flip with realistic timing and overlapping delays - optimized
-  const naturalPageFlip = useCallback(async (targetPage: number): Promise<void> => {
+  const naturalPageFlip = useCallback(async (requestedPage: number): Promise<void> => {
+    const targetPage = clampPage(requestedPage);
+
     return new Promise((resolve) => {
-      const scrollTrigger = getScrollTrigger();
-      if (!scrollTrigger) {
-        console.warn('ScrollTrigger not found, retrying in 100ms...');
+      if (!isBookReady()) {
+        console.warn('Book not ready, retrying in 100ms...');
         setTimeout(() => naturalPageFlip(targetPage).then(resolve), 100);
         return;
       }
@@ -191,9 +306,12 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children }) => {
       // Calculate the target progress
       const targetProgress = getPageProgress(targetPage);
       
-      // If flipping multiple pages, use overlapping delays for realistic effect
-      if (Math.abs(targetPage - currentPage) > 1) {
-        console.log(`Flipping ${Math.abs(targetPage - currentPage)} pages with overlapping delays`);
+      // If flipping multiple pages, use overlapping delays for realistic effect.
+      // A spread turns a whole view per flip.
+      const fromPage = clampPage(currentPage);
+      const pagesToFlip = Math.abs(targetPage - fromPage) / pagesPerView;
+      if (pagesToFlip > 1) {
+        console.log(`Flipping ${pagesToFlip} pages with overlapping delays`);
         
         // Create a timeline for multiple page flips with GPU acceleration
         const tl = gsap.timeline({
@@ -213,31 +331,24 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children }) => {
         });
         
         // Add overlapping page flip animations with GPU acceleration
-        const pagesToFlip = Math.abs(targetPage - currentPage);
         const delayPerPage = 0.3; // 300ms delay between page flips
         
         for (let i = 1; i <= pagesToFlip; i++) {
-          const pageIndex = currentPage + (targetPage > currentPage ? i : -i);
+          const pageIndex = fromPage + (targetPage > fromPage ? i : -i) * pagesPerView;
           const pageProgress = getPageProgress(pageIndex);
           
-          tl.to(window, {
+          tl.to(getProgressTarget(), {
             duration: 1.2, // Shorter duration for individual page flips
-            scrollTo: {
-              y: scrollTrigger.start + (scrollTrigger.end - scrollTrigger.start) * pageProgress,
-              offsetY: 0
-            },
+            ...getProgressVars(pageProgress),
             ease: "power1.inOut",
             force3D: PERFORMANCE_CONFIG.FORCE_3D
           }, i * delayPerPage);
         }
       } else {
         // Single page flip with natural easing and GPU acceleration
-        gsap.to(window, {
+        gsap.to(getProgressTarget(), {
           duration: 2.5, // Longer duration for more natural feel
-          scrollTo: {
-            y: scrollTrigger.start + (scrollTrigger.end - scrollTrigger.start) * targetProgress,
-            offsetY: 0
-          },
+          ...getProgressVars(targetProgress),
           ease: "power1.inOut", // Natural page turning easing
           force3D: PERFORMANCE_CONFIG.FORCE_3D,
           onComplete: () => {
@@ -257,7 +368,7 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children }) => {
         });
       }
     });
-  }, [getScrollTrigger, getPageProgress, disableScrollInput, enableScrollInput, currentPage]);
+  }, [isBookReady, getProgressTarget, getProgressVars, getPageProgress, clampPage, disableScrollInput, enableScrollInput, currentPage, pagesPerView]);
 
   // Unified smart scroll with single timeline for seamless transition - optimized
   const smartScrollToContact = useCallback(async (): Promise<void> => {
@@ -266,9 +377,8 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children }) => {
       return;
     }
 
-    const scrollTrigger = getScrollTrigger();
-    if (!scrollTrigger) {
-      console.warn('ScrollTrigger not found, retrying in 100ms...');
+    if (!isBookReady()) {
+      console.warn('Book not ready, retrying in 100ms...');
       setTimeout(() => smartScrollToContact(), 100);
       return;
     }
@@ -302,22 +412,20 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children }) => {
       });
 
       // Detect if we're flipping to the last page for conditional handling
-      const isFlippingToLastPage = currentPage < totalPages - 1;
-      const isAlreadyOnLastPage = currentPage === totalPages - 1;
+      const lastPage = clampPage(totalPages - 1);
+      const isFlippingToLastPage = currentPage < lastPage;
+      const isAlreadyOnLastPage = currentPage === lastPage;
       const flipDuration = isFlippingToLastPage ? 1.5 : 2.5; // Shorter duration for last page
       const shouldSkipDelay = isFlippingToLastPage; // Skip delay for last page
 
       // If not on the last page, animate to last page first
       if (isFlippingToLastPage) {
         console.log('Adding last page flip animation with optimized timing...');
-        const lastPageProgress = getPageProgress(totalPages - 1);
+        const lastPageProgress = getPageProgress(lastPage);
         
-        unifiedTimeline.to(window, {
+        unifiedTimeline.to(getProgressTarget(), {
           duration: flipDuration,
-          scrollTo: {
-            y: scrollTrigger.start + (scrollTrigger.end - scrollTrigger.start) * lastPageProgress,
-            offsetY: 0
-          },
+          ...getProgressVars(lastPageProgress),
           ease: "power1.inOut",
           force3D: PERFORMANCE_CONFIG.FORCE_3D
         });
@@ -339,23 +447,23 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children }) => {
 
       // Then scroll to contact section with conditional duration and GPU acceleration
       console.log('Adding contact scroll to timeline...');
-      const contactProgress = 0.92;
+      const contactProgress = getContactProgress();
       const contactScrollDuration = (isFlippingToLastPage || isAlreadyOnLastPage) ? 1.5 : 2; // Shorter duration for last page scenarios
       
-      unifiedTimeline.to(window, {
+      unifiedTimeline.to(getProgressTarget(), {
         duration: contactScrollDuration,
-        scrollTo: {
-          y: scrollTrigger.start + (scrollTrigger.end - scrollTrigger.start) * contactProgress,
-          offsetY: 0
-        },
+        ...getProgressVars(contactProgress),
         ease: "power2.inOut",
         force3D: PERFORMANCE_CONFIG.FORCE_3D
       });
 
     });
-  }, [currentPage, totalPages, isAnimating, getScrollTrigger, getPageProgress, disableScrollInput, enableScrollInput]);
+  }, [currentPage, totalPages, isAnimating, isBookReady, getProgressTarget, getProgressVars, getPageProgress, clampPage, disableScrollInput, enableScrollInput]);
 
   const value: BookContextType = {
+    bookMode,
+    bookLayout,
+    pagesPerView,
     currentPage,
     totalPages,
     isAnimating,
@@ -363,12 +471,17 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children }) => {
     isSmartScrolling,
     scrollToLastPage,
     scrollToContact,
+    scrollToContents,
     smartScrollToContact,
     naturalPageFlip,
     setCurrentPage,
     setIsAnimating,
     setIsAutoScrolling,
     setIsSmartScrolling,
+    registerPagedBook,
+    setBookLayout,
+    isBookActive,
+    revealBook,
   };
 
   // Cleanup effect to ensure proper reset
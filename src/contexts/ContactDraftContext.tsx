@@ -0,0 +1,37 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+
+// Lets sections outside the book hand a message to the contact form, which lives
+// on the book's last spread. The contact form takes the draft once and clears it.
+
+interface ContactDraftContextType {
+  draft: string | null;
+  setDraft: (message: string) => void;
+  clearDraft: () => void;
+}
+
+const ContactDraftContext = createContext<ContactDraftContextType | undefined>(undefined);
+
+export const useContactDraft = () => {
+  const context = useContext(ContactDraftContext);
+  if (!context) {
+    throw new Error('useContactDraft must be used within a ContactDraftProvider');
+  }
+  return context;
+};
+
+export const ContactDraftProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [draft, setDraftState] = useState<string | null>(null);
+
+  const setDraft = useCallback((message: string) => setDraftState(message), []);
+  const clearDraft = useCallback(() => setDraftState(null), []);
+
+  const value = useMemo(() => ({ draft, setDraft, clearDraft }), [draft, setDraft, clearDraft]);
+
+  return (
+    <ContactDraftContext.Provider value={value}>
+      {children}
+    </ContactDraftContext.Provider>
+  );
+};
@@ -0,0 +1,106 @@
+import { useEffect, useRef } from "react";
+import { ScrollTrigger } from "gsap/ScrollTrigger";
+import { useBookContext } from "../contexts/BookContext";
+import type { InteriorTopic } from "../types/portfolio";
+
+// Book deep links: `/#portfolio/<slug>` or `/?page=<number>` (1-based, as printed on the page)
+const DEEP_LINK_PREFIX = "#portfolio/";
+const PAGE_PARAM = "page";
+
+// Resolve the page index a URL points at, or null when it does not target the book
+const getLinkedPage = (projects: InteriorTopic[]): number | null => {
+  const { hash, search } = window.location;
+
+  if (hash.startsWith(DEEP_LINK_PREFIX)) {
+    const slug = decodeURIComponent(hash.slice(DEEP_LINK_PREFIX.length));
+    const pageIndex = projects.findIndex((project) => project.slug === slug);
+    return pageIndex === -1 ? null : pageIndex;
+  }
+
+  const pageNumber = Number(new URLSearchParams(search).get(PAGE_PARAM));
+  if (Number.isInteger(pageNumber) && pageNumber >= 1 && pageNumber <= projects.length) {
+    return pageNumber - 1;
+  }
+
+  return null;
+};
+
+// Replace the URL without adding history entries or triggering hashchange
+const replaceBookUrl = (hash: string) => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(PAGE_PARAM);
+  url.hash = hash;
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, "", url.href);
+  }
+};
+
+// Open the book at the page named in the URL and keep the URL in sync while reading
+export const useBookDeepLink = (projects: InteriorTopic[]) => {
+  const { currentPage, naturalPageFlip, isBookActive, revealBook } = useBookContext();
+
+  // naturalPageFlip changes with currentPage; listeners always use the latest one
+  const naturalPageFlipRef = useRef(naturalPageFlip);
+  useEffect(() => {
+    naturalPageFlipRef.current = naturalPageFlip;
+  }, [naturalPageFlip]);
+
+  // Set while a linked page is being opened so the URL is not rewritten underneath it
+  const isOpeningLinkRef = useRef(false);
+
+  // Open the linked page on load and whenever the hash is edited by hand
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+
+    let timer: ReturnType<typeof setTimeout>;
+
+    const openLinkedPage = () => {
+      const pageIndex = getLinkedPage(projects);
+      if (pageIndex === null) return;
+
+      isOpeningLinkRef.current = true;
+
+      // Bring the book on screen unless the reader is already in it
+      if (!revealBook()) {
+        timer = setTimeout(openLinkedPage, 100);
+        return;
+      }
+      naturalPageFlipRef.current(pageIndex).finally(() => {
+        isOpeningLinkRef.current = false;
+      });
+    };
+
+    openLinkedPage();
+    window.addEventListener("hashchange", openLinkedPage);
+
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener("hashchange", openLinkedPage);
+    };
+  }, [projects, revealBook]);
+
+  // Mirror the page being read into the URL so it can be shared or reloaded
+  const currentPageRef = useRef(currentPage);
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+
+    const syncUrl = () => {
+      if (isOpeningLinkRef.current) return;
+
+      const project = projects[currentPageRef.current];
+      if (isBookActive() && project) {
+        replaceBookUrl(`${DEEP_LINK_PREFIX}${project.slug}`);
+      } else if (window.location.hash.startsWith(DEEP_LINK_PREFIX)) {
+        // The reader has left the book
+        replaceBookUrl("");
+      }
+    };
+
+    currentPageRef.current = currentPage;
+    syncUrl();
+
+    // Entering or leaving the book does not always change the current page
+    ScrollTrigger.addEventListener("scrollEnd", syncUrl);
+    return () => ScrollTrigger.removeEventListener("scrollEnd", syncUrl);
+  }, [currentPage, projects, isBookActive]);
+};
@@ -0,0 +1,78 @@
+import { useEffect, useRef, type RefObject } from "react";
+import { useBookContext } from "../contexts/BookContext";
+import { getViewStart } from "../utils/bookProgress";
+
+// Keys that move through the book while it is on screen
+const PREVIOUS_KEYS = ["ArrowLeft", "ArrowUp", "PageUp"];
+const NEXT_KEYS = ["ArrowRight", "ArrowDown", "PageDown"];
+
+// Typing in the contact form must never turn pages
+const isFormField = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Enter on a link or button keeps its own meaning
+const isInteractive = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (isFormField(target) || ["A", "BUTTON"].includes(target.tagName));
+
+// Move focus to the page that just became visible so screen readers announce it
+const focusPage = (root: HTMLElement | null, pageIndex: number) => {
+  const page = root?.querySelector<HTMLElement>(`.book-page[data-page="${pageIndex}"]`);
+  page?.focus({ preventScroll: true });
+};
+
+// Drive the book rendered inside `bookRef` with arrow keys, PageUp/PageDown, Home/End and Enter
+export const useBookKeyboardNavigation = (bookRef: RefObject<HTMLElement | null>) => {
+  const { currentPage, totalPages, pagesPerView, isAnimating, naturalPageFlip, smartScrollToContact, isBookActive } = useBookContext();
+
+  // Keep the listener stable while reading the latest navigation state
+  const stateRef = useRef({ currentPage, totalPages, pagesPerView, isAnimating, naturalPageFlip, smartScrollToContact, isBookActive });
+  useEffect(() => {
+    stateRef.current = { currentPage, totalPages, pagesPerView, isAnimating, naturalPageFlip, smartScrollToContact, isBookActive };
+  }, [currentPage, totalPages, pagesPerView, isAnimating, naturalPageFlip, smartScrollToContact, isBookActive]);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey || event.ctrlKey || event.metaKey || isFormField(event.target)) return;
+
+      // Only while the book is on screen
+      const state = stateRef.current;
+      if (!state.isBookActive()) return;
+
+      // In a spread each key turns a whole view, from one left page to the next
+      const step = state.pagesPerView;
+      const lastPage = getViewStart(state.totalPages - 1, step);
+      const page = Math.min(state.currentPage, lastPage);
+      let targetPage: number | null = null;
+
+      if (PREVIOUS_KEYS.includes(event.key)) {
+        // From the contact section the previous page is the last one
+        targetPage = state.currentPage > lastPage ? lastPage : page - step;
+      } else if (NEXT_KEYS.includes(event.key)) {
+        targetPage = page + step;
+      } else if (event.key === "Home") {
+        targetPage = 0;
+      } else if (event.key === "End") {
+        targetPage = lastPage;
+      } else if (event.key === "Enter" && page === lastPage && !isInteractive(event.target)) {
+        event.preventDefault();
+        if (!state.isAnimating) state.smartScrollToContact();
+        return;
+      } else {
+        return;
+      }
+
+      // Swallow the key so the browser does not scroll underneath the flip
+      event.preventDefault();
+      if (state.isAnimating || targetPage < 0 || targetPage > lastPage || targetPage === state.currentPage) return;
+
+      const pageIndex = targetPage;
+      state.naturalPageFlip(pageIndex).then(() => focusPage(bookRef.current, pageIndex));
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [bookRef]);
+};
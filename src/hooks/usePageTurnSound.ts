@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from "react";
+import { pageTurnAudio } from "../utils/pageTurnAudio";
+
+const SOUND_STORAGE_KEY = "luminare-page-turn-sound";
+
+// Page-turn sound preference, off until the visitor turns it on and remembered per browser
+export const usePageTurnSound = () => {
+  const [isSoundOn, setIsSoundOn] = useState(false);
+  const [isSupported, setIsSupported] = useState(false);
+
+  // Read after mount: the server render always starts muted
+  useEffect(() => {
+    setIsSupported(pageTurnAudio.isSupported);
+    try {
+      if (window.localStorage.getItem(SOUND_STORAGE_KEY) === "on") {
+        setIsSoundOn(true);
+        pageTurnAudio.setEnabled(true);
+      }
+    } catch (error) {
+      console.warn("Page-turn sound preference could not be read:", error);
+    }
+  }, []);
+
+  // Called from the click itself, so the browser lets the audio start right away
+  const toggleSound = useCallback(() => {
+    const next = !isSoundOn;
+    setIsSoundOn(next);
+    pageTurnAudio.setEnabled(next);
+    try {
+      window.localStorage.setItem(SOUND_STORAGE_KEY, next ? "on" : "off");
+    } catch (error) {
+      console.warn("Page-turn sound preference could not be saved:", error);
+    }
+  }, [isSoundOn]);
+
+  return { isSoundOn, isSupported, toggleSound };
+};
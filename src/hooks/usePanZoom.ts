@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useRef, useState, type MouseEvent, type PointerEvent, type RefObject } from "react";
+
+export const PAN_ZOOM_CONFIG = {
+  MIN_SCALE: 1,
+  MAX_SCALE: 5,
+  // Scale a double click or double tap zooms to
+  DOUBLE_CLICK_SCALE: 2.5,
+  // Wheel deltaY per doubling of the scale
+  WHEEL_SENSITIVITY: 400,
+  // Horizontal travel that counts as a swipe while not zoomed in
+  SWIPE_DISTANCE: 60
+};
+
+export interface PanZoomState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface PanZoomOptions {
+  // Swipe at the base scale: -1 for left (next), 1 for right (previous)
+  onSwipe?: (direction: -1 | 1) => void;
+}
+
+const INITIAL_STATE: PanZoomState = { scale: 1, x: 0, y: 0 };
+
+const clampScale = (scale: number) =>
+  Math.max(PAN_ZOOM_CONFIG.MIN_SCALE, Math.min(PAN_ZOOM_CONFIG.MAX_SCALE, scale));
+
+// Keep the zoomed content covering the stage so it can't be dragged out of view
+const clampOffset = (stage: HTMLElement, { scale, x, y }: PanZoomState): PanZoomState => {
+  const maxX = ((scale - 1) * stage.clientWidth) / 2;
+  const maxY = ((scale - 1) * stage.clientHeight) / 2;
+  return {
+    scale,
+    x: Math.max(-maxX, Math.min(maxX, x)),
+    y: Math.max(-maxY, Math.min(maxY, y)),
+  };
+};
+
+// Point relative to the stage centre, where the content's transform origin is
+const toStagePoint = (stage: HTMLElement, clientX: number, clientY: number) => {
+  const rect = stage.getBoundingClientRect();
+  return { x: clientX - rect.left - rect.width / 2, y: clientY - rect.top - rect.height / 2 };
+};
+
+// Wheel, pinch and double-click zoom with drag panning for content centred in `stageRef`.
+// Apply the state as `translate(x, y) scale(scale)` with a centred transform origin.
+export const usePanZoom = (stageRef: RefObject<HTMLElement | null>, { onSwipe }: PanZoomOptions = {}) => {
+  const [state, setState] = useState<PanZoomState>(INITIAL_STATE);
+
+  // Pointer handlers read the latest state without being recreated on every move
+  const stateRef = useRef(state);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const swipeStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  const onSwipeRef = useRef(onSwipe);
+  useEffect(() => {
+    onSwipeRef.current = onSwipe;
+  }, [onSwipe]);
+
+  const apply = useCallback((next: PanZoomState) => {
+    const stage = stageRef.current;
+    const clamped = stage ? clampOffset(stage, next) : next;
+    stateRef.current = clamped;
+    setState(clamped);
+  }, [stageRef]);
+
+  // Zoom by `factor` keeping the stage point under the cursor or fingers in place
+  const zoomAt = useCallback((factor: number, point = { x: 0, y: 0 }) => {
+    const current = stateRef.current;
+    const scale = clampScale(current.scale * factor);
+    const ratio = scale / current.scale;
+    apply({
+      scale,
+      x: point.x - (point.x - current.x) * ratio,
+      y: point.y - (point.y - current.y) * ratio,
+    });
+  }, [apply]);
+
+  const zoomBy = useCallback((factor: number) => zoomAt(factor), [zoomAt]);
+
+  const reset = useCallback(() => apply(INITIAL_STATE), [apply]);
+
+  // React registers wheel listeners as passive, so zooming could not stop the page scrolling
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      // Trackpad pinches arrive as ctrl+wheel with small deltas
+      const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * 16 : event.deltaY;
+      zoomAt(2 ** (-delta / PAN_ZOOM_CONFIG.WHEEL_SENSITIVITY), toStagePoint(stage, event.clientX, event.clientY));
+    };
+
+    stage.addEventListener("wheel", handleWheel, { passive: false });
+    return () => stage.removeEventListener("wheel", handleWheel);
+  }, [stageRef, zoomAt]);
+
+  const onPointerDown = useCallback((event: PointerEvent<HTMLElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    swipeStartRef.current = pointersRef.current.size === 1 ? { x: event.clientX, y: event.clientY } : null;
+  }, []);
+
+  const onPointerMove = useCallback((event: PointerEvent<HTMLElement>) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(event.pointerId);
+    const stage = stageRef.current;
+    if (!previous || !stage) return;
+
+    const point = { x: event.clientX, y: event.clientY };
+
+    if (pointers.size === 2) {
+      // Pinch: scale by the change in finger distance around their midpoint
+      const other = [...pointers.entries()].find(([id]) => id !== event.pointerId)?.[1];
+      if (other) {
+        const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+        const after = Math.hypot(point.x - other.x, point.y - other.y);
+        if (before > 0) {
+          zoomAt(after / before, toStagePoint(stage, (point.x + other.x) / 2, (point.y + other.y) / 2));
+        }
+      }
+    } else if (pointers.size === 1 && stateRef.current.scale > PAN_ZOOM_CONFIG.MIN_SCALE) {
+      const current = stateRef.current;
+      apply({ ...current, x: current.x + point.x - previous.x, y: current.y + point.y - previous.y });
+    }
+
+    pointers.set(event.pointerId, point);
+  }, [stageRef, apply, zoomAt]);
+
+  const onPointerUp = useCallback((event: PointerEvent<HTMLElement>) => {
+    const pointers = pointersRef.current;
+    pointers.delete(event.pointerId);
+
+    // A horizontal swipe at the base scale moves between images
+    const start = swipeStartRef.current;
+    if (pointers.size === 0 && start && stateRef.current.scale === PAN_ZOOM_CONFIG.MIN_SCALE) {
+      const dx = event.clientX - start.x;
+      const dy = event.clientY - start.y;
+      if (Math.abs(dx) > PAN_ZOOM_CONFIG.SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy)) {
+        onSwipeRef.current?.(dx < 0 ? -1 : 1);
+      }
+    }
+    if (pointers.size === 0) swipeStartRef.current = null;
+  }, []);
+
+  const onDoubleClick = useCallback((event: MouseEvent<HTMLElement>) => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    if (stateRef.current.scale > PAN_ZOOM_CONFIG.MIN_SCALE) {
+      reset();
+    } else {
+      zoomAt(PAN_ZOOM_CONFIG.DOUBLE_CLICK_SCALE, toStagePoint(stage, event.clientX, event.clientY));
+    }
+  }, [stageRef, reset, zoomAt]);
+
+  return {
+    ...state,
+    zoomBy,
+    reset,
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp,
+      onDoubleClick,
+    },
+  };
+};
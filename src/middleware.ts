@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ADMIN_REALM, isAdminAuthorization } from "./utils/adminAuth";
+
+// HTTP Basic auth in front of everything under /admin. Server actions check the
+// credentials again themselves, see utils/adminAuth.ts.
+
+export function middleware(request: NextRequest) {
+  if (isAdminAuthorization(request.headers.get("authorization"))) {
+    return NextResponse.next();
+  }
+
+  return new NextResponse("Authentication required", {
+    status: 401,
+    headers: { "WWW-Authenticate": `Basic realm="${ADMIN_REALM}", charset="UTF-8"` },
+  });
+}
+
+export const config = {
+  matcher: ["/admin/:path*"],
+};
@@ -0,0 +1,62 @@
+// Consultation booking: studio availability (content/availability.json), the
+// payloads exchanged with /api/bookings and the bookings the server stores
+
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+// "HH:MM" wall-clock times in the studio's time zone
+export interface WorkingHours {
+  start: string;
+  end: string;
+}
+
+export interface AvailabilityConfig {
+  // IANA zone the working hours and blackout dates are written in
+  timeZone: string;
+  slotMinutes: number;
+  // Kept free after every consultation
+  bufferMinutes: number;
+  minimumNoticeHours: number;
+  bookingWindowDays: number;
+  location: string;
+  workingHours: Record<Weekday, WorkingHours[]>;
+  // "YYYY-MM-DD" studio-local days with no consultations
+  blackoutDates: string[];
+}
+
+// ISO 8601 UTC instants; the browser renders them in the visitor's own time zone
+export interface BookingSlot {
+  start: string;
+  end: string;
+}
+
+export interface BookingFormValues {
+  name: string;
+  email: string;
+  notes: string;
+}
+
+export type BookingField = keyof BookingFormValues;
+
+export type BookingFieldErrors = Partial<Record<BookingField, string>>;
+
+export interface BookingRequest extends BookingFormValues {
+  start: string;
+  // Visitor's IANA time zone, used for the times in their confirmation email
+  timeZone: string;
+}
+
+export interface Booking extends BookingRequest {
+  id: string;
+  end: string;
+  createdAt: string;
+}
+
+export type SlotsResponse =
+  | { ok: true; timeZone: string; slotMinutes: number; slots: BookingSlot[] }
+  | { ok: false; message: string };
+
+export type BookingResponse =
+  | { ok: true; message: string }
+  | { ok: false; message: string; errors?: BookingFieldErrors; slotTaken?: boolean };
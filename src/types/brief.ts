@@ -0,0 +1,75 @@
+// Project brief collected by the multi-step wizard in the contact section and
+// stored with the enquiry it creates. Option keys are stored; labels are for display.
+
+export const ROOM_TYPES = {
+  'living-room': 'Living room',
+  kitchen: 'Kitchen',
+  dining: 'Dining room',
+  bedroom: 'Bedroom',
+  bathroom: 'Bathroom',
+  'home-office': 'Home office',
+  'kids-room': "Children's room",
+  outdoor: 'Outdoor / balcony',
+  'whole-home': 'Whole home',
+  commercial: 'Commercial space'
+} as const;
+
+export const AREA_UNITS = {
+  sqft: 'sq ft',
+  m2: 'm²'
+} as const;
+
+export const BUDGET_BANDS = {
+  'under-25k': 'Under RM 25,000',
+  '25k-75k': 'RM 25,000 - 75,000',
+  '75k-150k': 'RM 75,000 - 150,000',
+  '150k-300k': 'RM 150,000 - 300,000',
+  'over-300k': 'Over RM 300,000',
+  unsure: 'Not sure yet'
+} as const;
+
+export const BRIEF_TIMELINES = {
+  asap: 'As soon as possible',
+  '1-3-months': 'Within 1-3 months',
+  '3-6-months': 'Within 3-6 months',
+  '6-plus-months': 'In 6 months or more',
+  flexible: 'Flexible'
+} as const;
+
+export type RoomType = keyof typeof ROOM_TYPES;
+export type AreaUnit = keyof typeof AREA_UNITS;
+export type BudgetBand = keyof typeof BUDGET_BANDS;
+export type BriefTimeline = keyof typeof BRIEF_TIMELINES;
+
+// What the wizard holds while the visitor fills it in (and saves as a draft)
+export interface BriefFormValues {
+  roomTypes: RoomType[];
+  area: string;
+  areaUnit: AreaUnit;
+  budget: BudgetBand | '';
+  // Portfolio project slugs the visitor would like their space to feel like
+  styles: string[];
+  timeline: BriefTimeline | '';
+  notes: string;
+  name: string;
+  email: string;
+}
+
+export type BriefField = keyof BriefFormValues;
+
+export type BriefFieldErrors = Partial<Record<BriefField, string>>;
+
+// The validated brief, as sent to /api/brief and stored with the enquiry
+export interface ProjectBrief {
+  roomTypes: RoomType[];
+  area: number;
+  areaUnit: AreaUnit;
+  budget: BudgetBand;
+  styles: string[];
+  timeline: BriefTimeline;
+  notes: string;
+}
+
+export type BriefResponse =
+  | { ok: true; message: string }
+  | { ok: false; message: string; errors?: BriefFieldErrors };
@@ -0,0 +1,16 @@
+// Contact form payloads shared by ContactSection and the /api/contact route
+
+export interface ContactFormValues {
+  name: string;
+  email: string;
+  message: string;
+}
+
+export type ContactField = keyof ContactFormValues;
+
+// One message per invalid field, shown under that field in the form
+export type ContactFieldErrors = Partial<Record<ContactField, string>>;
+
+export type ContactResponse =
+  | { ok: true; message: string }
+  | { ok: false; message: string; errors?: ContactFieldErrors };
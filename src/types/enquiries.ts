@@ -0,0 +1,26 @@
+import type { ProjectBrief } from './brief';
+import type { ContactFormValues } from './contact';
+import type { UploadedFile } from './uploads';
+
+// Stored contact enquiries, shared by the enquiry store and the admin pages
+
+export const ENQUIRY_STATUSES = ['new', 'contacted', 'won', 'lost'] as const;
+
+export type EnquiryStatus = typeof ENQUIRY_STATUSES[number];
+
+export interface Enquiry extends ContactFormValues {
+  id: string;
+  status: EnquiryStatus;
+  createdAt: string;
+  updatedAt: string;
+  // Set when the enquiry came from the project brief wizard; `message` then holds its summary
+  brief?: ProjectBrief;
+  // Floor plans and photos the visitor uploaded with the enquiry
+  attachments?: UploadedFile[];
+}
+
+export interface EnquiryFilter {
+  status?: EnquiryStatus;
+  // Matched against name, email and message
+  query?: string;
+}
@@ -0,0 +1,41 @@
+import type { AreaUnit } from './brief';
+
+// Cost estimator rate table from /content/estimator.json, and the visitor's inputs.
+// Prices are whole units of `currency`.
+
+export interface PriceRange {
+  min: number;
+  max: number;
+}
+
+// A service's rates: by floor area in square feet, plus a per-room amount
+export interface ServiceRate {
+  perSqft: PriceRange;
+  perRoom: PriceRange;
+}
+
+export interface FinishLevel {
+  id: string;
+  label: string;
+  description: string;
+  // Applied to every rate: 1 for the base finish, more for richer materials
+  multiplier: number;
+}
+
+export interface EstimatorConfig {
+  currency: string;
+  // Estimates are rounded outwards to this step so they never look precise
+  roundTo: number;
+  minimumFee: number;
+  finishLevels: FinishLevel[];
+  // Keyed by service slug; services without a rate are not offered
+  rates: Record<string, ServiceRate>;
+}
+
+export interface EstimateInput {
+  services: string[];
+  rooms: number;
+  area: number;
+  areaUnit: AreaUnit;
+  finish: string;
+}
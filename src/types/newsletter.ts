@@ -0,0 +1,27 @@
+// Newsletter subscribers, shared by the signup form, the newsletter routes and admin
+
+// Pending until the emailed confirmation link is opened
+export const SUBSCRIBER_STATUSES = ['pending', 'subscribed', 'unsubscribed'] as const;
+
+export type SubscriberStatus = typeof SUBSCRIBER_STATUSES[number];
+
+// Where on the site the visitor signed up
+export const NEWSLETTER_SOURCES = ['contact', 'footer'] as const;
+
+export type NewsletterSource = typeof NEWSLETTER_SOURCES[number];
+
+export interface Subscriber {
+  id: string;
+  // Stored lower-cased so one address is one subscriber
+  email: string;
+  status: SubscriberStatus;
+  source: NewsletterSource;
+  createdAt: string;
+  updatedAt: string;
+  confirmedAt?: string;
+  unsubscribedAt?: string;
+}
+
+export type NewsletterResponse =
+  | { ok: true; message: string }
+  | { ok: false; message: string };
@@ -0,0 +1,21 @@
+// Portfolio content shared between the content loader and the book components
+
+export interface ProjectCredit {
+  role: string;
+  name: string;
+}
+
+export interface InteriorTopic {
+  slug: string;
+  title: string;
+  subtitle: string;
+  content: string;
+  scene: string;
+  year: string;
+  artist: string;
+  image: string;
+  // Detail page content - the loader falls back to image, content and artist
+  gallery: string[];
+  description: string;
+  credits: ProjectCredit[];
+}
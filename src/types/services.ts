@@ -0,0 +1,18 @@
+// Services catalogue shared between the content loader and the services components
+
+export interface ServiceProcessStep {
+  title: string;
+  description: string;
+}
+
+export interface Service {
+  slug: string;
+  title: string;
+  description: string;
+  image: string;
+  // Detail page content
+  overview: string[];
+  deliverables: string[];
+  process: ServiceProcessStep[];
+  relatedProjects: string[];
+}
@@ -0,0 +1,23 @@
+// The studio's own contact details from /content/studio.json, shown in the contact
+// section and published as a vCard
+
+export interface StudioAddress {
+  street?: string;
+  locality: string;
+  region?: string;
+  postalCode?: string;
+  country: string;
+}
+
+export interface StudioConfig {
+  name: string;
+  email: string;
+  // International format, e.g. "+60 3 1234 5678"
+  phone: string;
+  website?: string;
+  address: StudioAddress;
+}
+
+export const VCARD_VERSIONS = ['3.0', '4.0'] as const;
+
+export type VCardVersion = typeof VCARD_VERSIONS[number];
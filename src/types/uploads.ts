@@ -0,0 +1,23 @@
+// Files visitors attach to enquiries. They are uploaded one by one before the
+// form is sent, then claimed by the enquiry that lists their ids.
+
+// What the browser and the admin pages see of an upload
+export interface UploadedFile {
+  id: string;
+  filename: string;
+  // Sniffed from the file's bytes, not taken from the browser
+  contentType: string;
+  size: number;
+}
+
+export interface StoredUpload extends UploadedFile {
+  // Where the storage backend keeps the bytes
+  storageKey: string;
+  createdAt: string;
+  // Set once an enquiry has taken the file, so it cannot be attached twice
+  claimedAt?: string;
+}
+
+export type UploadResponse =
+  | { ok: true; file: UploadedFile }
+  | { ok: false; message: string };
@@ -0,0 +1,40 @@
+import type { Enquiry } from './enquiries';
+
+// Outbound lead webhooks and the delivery log kept for the admin pages
+
+export type WebhookEventType = 'enquiry.created';
+
+// The JSON body every webhook receives
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Enquiry;
+}
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'delivered', 'failed'] as const;
+
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+export interface WebhookAttempt {
+  at: string;
+  // HTTP status, absent when the request never got a response
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+}
+
+// One event sent to one URL, with every attempt made so far
+export interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  url: string;
+  // Exact body that is signed and sent on every attempt
+  body: string;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  nextAttemptAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
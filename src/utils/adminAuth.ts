@@ -0,0 +1,49 @@
+import { headers } from 'next/headers';
+
+// HTTP Basic auth for the admin area. Credentials come from ADMIN_USER and ADMIN_PASSWORD;
+// without them the admin area stays locked. The middleware checks every /admin request,
+// and server actions call requireAdmin themselves: an action can be invoked by a POST to
+// any page, so the path-based middleware alone does not cover it. No Node APIs here, as the
+// middleware runs on the edge runtime.
+
+export const ADMIN_REALM = 'Luminare Studio admin';
+
+export class AdminAuthError extends Error {
+  constructor() {
+    super('Admin credentials are required');
+    this.name = 'AdminAuthError';
+  }
+}
+
+// Compare without bailing out at the first difference
+const safeEqual = (a: string, b: string) => {
+  let mismatch = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    mismatch |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return mismatch === 0;
+};
+
+// Whether an Authorization header carries the admin credentials
+export const isAdminAuthorization = (header: string | null) => {
+  const user = process.env.ADMIN_USER;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!user || !password || !header?.startsWith('Basic ')) return false;
+
+  let credentials: string;
+  try {
+    credentials = atob(header.slice('Basic '.length));
+  } catch {
+    return false;
+  }
+
+  const separator = credentials.indexOf(':');
+  if (separator === -1) return false;
+  return safeEqual(credentials.slice(0, separator), user) && safeEqual(credentials.slice(separator + 1), password);
+};
+
+// First line of every admin server action: throws unless the request carries the credentials
+export const requireAdmin = async () => {
+  const requestHeaders = await headers();
+  if (!isAdminAuthorization(requestHeaders.get('authorization'))) throw new AdminAuthError();
+};
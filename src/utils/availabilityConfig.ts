@@ -0,0 +1,88 @@
+import { AvailabilityConfig, WEEKDAYS, Weekday, WorkingHours } from '../types/booking';
+import { isValidTimeZone, parseTimeOfDay } from './bookingSlots';
+import { ContentFile, fail, loadContentFile, requireString, requireStringList } from './contentCollection';
+
+// Server-only loader for the studio's consultation hours in /content/availability.json
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const requirePositiveInteger = (source: ContentFile, value: unknown, field: string, allowZero = false): number => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || (value === 0 && !allowZero)) {
+    return fail(source, `"${field}" must be a ${allowZero ? 'non-negative' : 'positive'} whole number`);
+  }
+  return value;
+};
+
+const parseWorkingHours = (source: ContentFile, value: unknown): Record<Weekday, WorkingHours[]> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return fail(source, '"workingHours" must be an object keyed by weekday (sun, mon, ...)');
+  }
+
+  const days = value as Record<string, unknown>;
+  Object.keys(days).forEach(key => {
+    if (!(WEEKDAYS as readonly string[]).includes(key)) {
+      fail(source, `"workingHours.${key}" is not a weekday, use one of ${WEEKDAYS.join(', ')}`);
+    }
+  });
+
+  return Object.fromEntries(WEEKDAYS.map(weekday => {
+    const ranges = days[weekday] ?? [];
+    if (!Array.isArray(ranges)) {
+      return fail(source, `"workingHours.${weekday}" must be an array`);
+    }
+
+    return [weekday, ranges.map((range, index) => {
+      const field = `workingHours.${weekday}[${index}]`;
+      const { start, end } = (range ?? {}) as Record<string, unknown>;
+      const hours = {
+        start: requireString(source, start, `${field}.start`),
+        end: requireString(source, end, `${field}.end`)
+      };
+      const opening = parseTimeOfDay(hours.start);
+      const closing = parseTimeOfDay(hours.end);
+      if (Number.isNaN(opening) || Number.isNaN(closing)) {
+        fail(source, `"${field}" times must be written as HH:MM`);
+      }
+      if (opening >= closing) {
+        fail(source, `"${field}" must end after it starts`);
+      }
+      return hours;
+    })];
+  })) as Record<Weekday, WorkingHours[]>;
+};
+
+const parseAvailability = (source: ContentFile, data: Record<string, unknown>): AvailabilityConfig => {
+  const timeZone = requireString(source, data.timeZone, 'timeZone');
+  if (!isValidTimeZone(timeZone)) {
+    fail(source, `"timeZone" "${timeZone}" is not an IANA time zone such as "Asia/Kuala_Lumpur"`);
+  }
+
+  const blackoutDates = data.blackoutDates === undefined
+    ? []
+    : requireStringList(source, data.blackoutDates, 'blackoutDates');
+  blackoutDates.forEach(date => {
+    if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))) {
+      fail(source, `blackout date "${date}" must be written as YYYY-MM-DD`);
+    }
+  });
+
+  return {
+    timeZone,
+    slotMinutes: requirePositiveInteger(source, data.slotMinutes, 'slotMinutes'),
+    bufferMinutes: requirePositiveInteger(source, data.bufferMinutes ?? 0, 'bufferMinutes', true),
+    minimumNoticeHours: requirePositiveInteger(source, data.minimumNoticeHours ?? 0, 'minimumNoticeHours', true),
+    bookingWindowDays: requirePositiveInteger(source, data.bookingWindowDays, 'bookingWindowDays'),
+    location: requireString(source, data.location, 'location'),
+    workingHours: parseWorkingHours(source, data.workingHours),
+    blackoutDates
+  };
+};
+
+let cachedAvailability: AvailabilityConfig | null = null;
+
+export const getAvailabilityConfig = (): AvailabilityConfig => {
+  if (!cachedAvailability) {
+    cachedAvailability = loadContentFile('availability', parseAvailability);
+  }
+  return cachedAvailability;
+};
@@ -0,0 +1,99 @@
+// Book progress map shared by BookContext navigation and the BookAnimation timeline.
+// The `book-animation` ScrollTrigger runs from progress 0 to 1; these phases split
+// that range in order. Lengths are normalised, so adding or resizing a phase here
+// moves navigation targets and timeline positions together.
+
+export const BOOK_PHASES = [
+  { name: 'cover', length: 0.08 },   // Cover opens
+  { name: 'contents', length: 0.08 }, // Table of contents is read and flipped
+  { name: 'pages', length: 0.76 },   // Every portfolio page is read and flipped
+  { name: 'contact', length: 0.08 }  // Contact section takes over
+] as const;
+
+export type BookPhaseName = typeof BOOK_PHASES[number]['name'];
+
+export const BOOK_PROGRESS_CONFIG = {
+  // How long before the contact phase the contact overlay starts fading in
+  CONTACT_FADE_LENGTH: 0.07,
+  // Share of each page's span spent revealing its content; the flip takes the rest.
+  // The table of contents is split the same way.
+  PAGE_CONTENT_RATIO: 0.6
+};
+
+export interface ProgressRange {
+  start: number;
+  end: number;
+}
+
+// Anything with ScrollTrigger-like start/end scroll positions
+export interface ScrollRange {
+  start: number;
+  end: number;
+}
+
+const totalLength = BOOK_PHASES.reduce((sum, phase) => sum + phase.length, 0);
+
+const phaseRanges = BOOK_PHASES.reduce<Record<string, ProgressRange>>((ranges, phase, index) => {
+  const start = index === 0 ? 0 : ranges[BOOK_PHASES[index - 1].name].end;
+  ranges[phase.name] = { start, end: start + phase.length / totalLength };
+  return ranges;
+}, {});
+
+// Start and end progress of a phase
+export const getPhase = (name: BookPhaseName): ProgressRange => phaseRanges[name];
+
+// Progress at which scrolling stops and the contact section is fully shown
+export const getContactProgress = () => getPhase('contact').start;
+
+// Progress at which the table of contents is fully shown and its flip has not started
+export const getContentsRestProgress = () => {
+  const contents = getPhase('contents');
+  return contents.start + (contents.end - contents.start) * BOOK_PROGRESS_CONFIG.PAGE_CONTENT_RATIO;
+};
+
+// Pages in view at once: 1 for single pages, 2 for a two-page spread. Each view gets
+// one span of the pages phase, and a spread turns its two pages with a single flip.
+
+// First page of the view a page belongs to
+export const getViewStart = (pageIndex: number, pagesPerView = 1) =>
+  pageIndex - (pageIndex % pagesPerView);
+
+// Number of views - and so of flips - needed to show every page
+export const getViewCount = (totalPages: number, pagesPerView = 1) =>
+  Math.ceil(totalPages / pagesPerView);
+
+// Share of the timeline each view gets
+export const getPageSpan = (totalPages: number, pagesPerView = 1) => {
+  const pages = getPhase('pages');
+  return (pages.end - pages.start) / Math.max(1, getViewCount(totalPages, pagesPerView));
+};
+
+// Progress at which the view showing a page starts
+export const getPageProgress = (pageIndex: number, totalPages: number, pagesPerView = 1) =>
+  getPhase('pages').start + Math.floor(pageIndex / pagesPerView) * getPageSpan(totalPages, pagesPerView);
+
+// Progress at which a page's content is fully revealed and its flip has not started
+export const getPageRestProgress = (pageIndex: number, totalPages: number, pagesPerView = 1) =>
+  getPageProgress(pageIndex, totalPages, pagesPerView) +
+  getPageSpan(totalPages, pagesPerView) * BOOK_PROGRESS_CONFIG.PAGE_CONTENT_RATIO;
+
+// Progress at which the contact overlay starts fading in - never over the last page's content
+export const getContactFadeStart = (totalPages: number, pagesPerView = 1) =>
+  Math.max(
+    getPageRestProgress(totalPages - 1, totalPages, pagesPerView),
+    getContactProgress() - BOOK_PROGRESS_CONFIG.CONTACT_FADE_LENGTH
+  );
+
+// Page being read at a given progress - the first page of its view
+export const getPageFromProgress = (progress: number, totalPages: number, pagesPerView = 1) => {
+  const viewProgress = Math.max(0, (progress - getPhase('pages').start) / getPageSpan(totalPages, pagesPerView));
+  const view = Math.min(Math.floor(viewProgress), getViewCount(totalPages, pagesPerView) - 1);
+  return view * pagesPerView;
+};
+
+// Convert between timeline progress and window scroll position
+export const progressToScroll = (range: ScrollRange, progress: number) =>
+  range.start + (range.end - range.start) * progress;
+
+export const scrollToProgress = (range: ScrollRange, scrollY: number) =>
+  range.end === range.start ? 0 : (scrollY - range.start) / (range.end - range.start);
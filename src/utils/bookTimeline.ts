@@ -0,0 +1,337 @@
+import { gsap } from 'gsap';
+import { BOOK_PROGRESS_CONFIG, getPageProgress, getPageSpan, getPhase, getViewCount } from './bookProgress';
+
+// Page-turning timeline shared by the scroll-driven BookAnimation and the standalone FlipBook.
+// Every element is looked up inside the book's own root element, so several books can
+// live on one page without picking up each other's covers and pages.
+
+export const BOOK_TIMELINE_CONFIG = {
+  // Split of each page's span between revealing content and flipping
+  CONTENT_PHASE_RATIO: BOOK_PROGRESS_CONFIG.PAGE_CONTENT_RATIO,
+  FLIP_PHASE_RATIO: 1 - BOOK_PROGRESS_CONFIG.PAGE_CONTENT_RATIO,
+
+  // Easing functions for smooth animations
+  EASING: {
+    CONTENT: "power2.out",
+    FLIP: "power2.inOut",
+    COVER: "power2.inOut"
+  },
+
+  // Stagger timing for content elements - Optimized for smooth sequential reveals
+  STAGGER: {
+    YEAR_BADGE: 0,
+    TITLE: 0.1,
+    SUBTITLE: 0.2,
+    IMAGE: 0.3,
+    CONTENT: 0.4,
+    ARTIST: 0.5,
+    PAGE_NUMBER: 0.6
+  },
+
+  // Animation properties
+  CONTENT: {
+    INITIAL: { opacity: 0, y: 20 },
+    FINAL: { opacity: 1, y: 0 }
+  },
+
+  GPU_ACCELERATION: true
+};
+
+const PAGE_CONTENT_SELECTOR = '.year-badge, .page-title, .page-subtitle, .page-content, .artist-name, .page-number, img';
+const CONTENTS_ENTRY_SELECTOR = '.contents-heading, .contents-entry';
+
+export interface BookTimelineOptions {
+  // Shorter content reveals while pages are turned programmatically
+  fastContent?: boolean;
+  // Called as each page swings over, whichever way the timeline is played
+  onPageTurn?: () => void;
+}
+
+// Cover, table of contents, pages and base of the book rendered inside `root`.
+// The table of contents is optional and is not one of the numbered pages. A two-page
+// spread also has leaves: each carries a right page on its front and the next left
+// page on its back, and it is the leaves that turn.
+export const getBookElements = (root: HTMLElement) => ({
+  cover: root.querySelector<HTMLElement>('.book-cover'),
+  contents: root.querySelector<HTMLElement>('.book-contents'),
+  pages: Array.from(root.querySelectorAll<HTMLElement>('.book-page[data-page]'))
+    .sort((a, b) => Number(a.dataset.page) - Number(b.dataset.page)),
+  leaves: Array.from(root.querySelectorAll<HTMLElement>('.book-leaf')),
+  bookBase: root.querySelector<HTMLElement>('.book-base')
+});
+
+// Book3D renders on the client only, so callers retry until this is true
+export const isBookRendered = (root: HTMLElement) => {
+  const { cover, pages, bookBase } = getBookElements(root);
+  return Boolean(cover && pages.length > 0 && bookBase);
+};
+
+// Turn `page` over from right to left between flipStart and flipStart + flipDuration.
+// Shared by the table of contents and the portfolio pages. In a spread, turned pages
+// stay in view on the left, so each one is raised above those turned before it.
+const addPageFlip = (
+  timeline: gsap.core.Timeline,
+  page: HTMLElement,
+  bookBase: HTMLElement | null,
+  flipStart: number,
+  flipDuration: number,
+  turnedZIndex?: number,
+  onTurn?: () => void
+) => {
+  const config = BOOK_TIMELINE_CONFIG;
+  const pageBack = page.lastElementChild;
+
+  // REALISTIC BOOK PAGE FLIP ANIMATION - Improved timing with GPU acceleration
+  // Phase 1: Prepare page for flip
+  timeline.set(page, {
+    opacity: 1,
+    visibility: 'visible',
+    transformOrigin: 'left center',
+    force3D: config.GPU_ACCELERATION,
+    willChange: 'transform'
+  }, flipStart);
+
+  // Phase 2: Initial curl effect with GPU acceleration
+  timeline.to(page, {
+    rotationX: 0,
+    rotationY: -15,
+    duration: flipDuration * 0.2,
+    ease: "power2.out",
+    force3D: config.GPU_ACCELERATION
+  }, flipStart + flipDuration * 0.05);
+
+  // Phase 3: Main flip animation with GPU acceleration
+  timeline.to(page, {
+    rotationY: -180,
+    rotationX: 0,
+    duration: flipDuration * 0.5,
+    ease: config.EASING.FLIP,
+    force3D: config.GPU_ACCELERATION
+  }, flipStart + flipDuration * 0.25);
+
+  if (onTurn) {
+    timeline.call(onTurn, undefined, flipStart + flipDuration * 0.25);
+  }
+
+  // Restack while the page stands on edge, halfway through the main flip
+  if (turnedZIndex !== undefined) {
+    timeline.set(page, { zIndex: turnedZIndex }, flipStart + flipDuration * 0.5);
+  }
+
+  if (pageBack) {
+    // Phase 4: Show page back ONLY when page is fully flipped
+    timeline.set(pageBack, {
+      opacity: 1,
+      visibility: 'visible',
+      backfaceVisibility: 'visible',
+      force3D: config.GPU_ACCELERATION
+    }, flipStart + flipDuration * 0.75);
+
+    // Reverse: hide the page back again when turning back
+    timeline.set(pageBack, {
+      opacity: 0,
+      visibility: 'hidden',
+      backfaceVisibility: 'hidden',
+      force3D: config.GPU_ACCELERATION
+    }, flipStart + flipDuration * 0.25 - 0.001);
+  }
+
+  // Phase 5: Final settling with GPU acceleration
+  timeline.to(page, {
+    rotationX: 0,
+    rotationY: -180,
+    duration: flipDuration * 0.25,
+    ease: "power2.out",
+    force3D: config.GPU_ACCELERATION
+  }, flipStart + flipDuration * 0.75);
+
+  // Add subtle book movement for realism with GPU acceleration
+  if (bookBase) {
+    timeline.to(bookBase, {
+      rotationY: -1,
+      duration: flipDuration * 0.4,
+      ease: "power2.inOut",
+      yoyo: true,
+      repeat: 1,
+      force3D: config.GPU_ACCELERATION
+    }, flipStart + flipDuration * 0.3);
+  }
+};
+
+// Build the cover and page timeline of the book inside `root`.
+// Timeline positions follow utils/bookProgress and the timeline is padded to exactly 1.
+export const createBookTimeline = (
+  root: HTMLElement,
+  vars: gsap.TimelineVars = {},
+  { fastContent = false, onPageTurn }: BookTimelineOptions = {}
+): gsap.core.Timeline => {
+  const { cover, contents, pages, leaves, bookBase } = getBookElements(root);
+  const config = BOOK_TIMELINE_CONFIG;
+  const isSpread = leaves.length > 0;
+
+  // Set initial states for all content elements with performance optimizations
+  pages.forEach((page) => {
+    gsap.set(page.querySelectorAll(PAGE_CONTENT_SELECTOR), {
+      ...config.CONTENT.INITIAL,
+      clearProps: "transform",
+      force3D: config.GPU_ACCELERATION,
+      willChange: 'transform, opacity'
+    });
+  });
+
+  // Ensure book base remains visible throughout animations with GPU acceleration
+  if (bookBase) {
+    gsap.set(bookBase, {
+      opacity: 1,
+      visibility: 'visible',
+      zIndex: 1,
+      force3D: config.GPU_ACCELERATION,
+      willChange: 'transform'
+    });
+  }
+
+  const timeline = gsap.timeline(vars);
+
+  const coverPhase = getPhase('cover');
+  const coverDuration = coverPhase.end - coverPhase.start;
+
+  // Phase 1: Cover opens with GPU acceleration
+  if (cover) {
+    timeline.to(cover, {
+      rotationY: -180,
+      transformOrigin: 'left center',
+      duration: coverDuration,
+      ease: config.EASING.COVER,
+      force3D: config.GPU_ACCELERATION
+    }, coverPhase.start);
+
+    // Fade in the inside cover as the cover flips
+    timeline.fromTo(cover.querySelectorAll('.cover-inside'), {
+      opacity: 0.7
+    }, {
+      opacity: 1,
+      duration: coverDuration * 0.7,
+      ease: 'power1.out',
+      force3D: config.GPU_ACCELERATION
+    }, coverPhase.start + coverDuration * 0.5);
+
+    // The open cover becomes the left-hand board, under every page turned onto it
+    if (isSpread) {
+      timeline.set(cover, { zIndex: 0 }, coverPhase.start + coverDuration * 0.5);
+    }
+  }
+
+  // A closed spread is only its right half: keep it centred, then slide the spine to
+  // the centre as the cover opens
+  if (isSpread && bookBase) {
+    timeline.fromTo(bookBase, {
+      xPercent: -25
+    }, {
+      xPercent: 0,
+      duration: coverDuration,
+      ease: config.EASING.COVER,
+      force3D: config.GPU_ACCELERATION
+    }, coverPhase.start);
+  }
+
+  // Fade in the first page - or the table of contents - as the cover finishes flipping
+  const firstPage = contents ?? leaves[0] ?? pages[0];
+  if (firstPage) {
+    timeline.fromTo(firstPage, {
+      opacity: 0
+    }, {
+      opacity: 1,
+      duration: coverDuration * 0.7,
+      ease: 'power1.out',
+      force3D: config.GPU_ACCELERATION
+    }, coverPhase.end - coverDuration * 0.25);
+  }
+
+  // Table of contents: entries come in one after another, then it turns like a page.
+  // Books without one simply rest on the first page through this phase.
+  if (contents) {
+    const contentsPhase = getPhase('contents');
+    const contentsSpan = contentsPhase.end - contentsPhase.start;
+    const contentDuration = contentsSpan * config.CONTENT_PHASE_RATIO;
+
+    timeline.fromTo(
+      contents.querySelectorAll(CONTENTS_ENTRY_SELECTOR),
+      config.CONTENT.INITIAL,
+      {
+        ...config.CONTENT.FINAL,
+        duration: contentDuration * (fastContent ? 0.25 : 0.4),
+        stagger: { amount: contentDuration * 0.4 },
+        ease: config.EASING.CONTENT,
+        force3D: config.GPU_ACCELERATION
+      },
+      contentsPhase.start
+    );
+
+    addPageFlip(
+      timeline,
+      contents,
+      bookBase,
+      contentsPhase.start + contentDuration * 1.1,
+      contentsSpan * config.FLIP_PHASE_RATIO,
+      isSpread ? 1 : undefined,
+      onPageTurn
+    );
+  }
+
+  // Phase 2: Pages with unified content animations, one view - a page or a spread - at a time
+  const totalPages = pages.length;
+  const pagesPerView = isSpread ? 2 : 1;
+  const progressPerPage = getPageSpan(totalPages, pagesPerView);
+
+  const contentAnimations = [
+    { selector: '.year-badge', stagger: config.STAGGER.YEAR_BADGE },
+    { selector: '.page-title', stagger: config.STAGGER.TITLE },
+    { selector: '.page-subtitle', stagger: config.STAGGER.SUBTITLE },
+    { selector: 'img', stagger: config.STAGGER.IMAGE },
+    { selector: '.page-content', stagger: config.STAGGER.CONTENT },
+    { selector: '.artist-name', stagger: config.STAGGER.ARTIST },
+    { selector: '.page-number', stagger: config.STAGGER.PAGE_NUMBER }
+  ];
+
+  for (let view = 0; view < getViewCount(totalPages, pagesPerView); view++) {
+    const firstPageIndex = view * pagesPerView;
+    const viewPages = pages.slice(firstPageIndex, firstPageIndex + pagesPerView);
+    const startProgress = getPageProgress(firstPageIndex, totalPages, pagesPerView);
+    const contentDuration = progressPerPage * config.CONTENT_PHASE_RATIO;
+    const flipDuration = progressPerPage * config.FLIP_PHASE_RATIO;
+    const flipStartProgress = startProgress + contentDuration;
+
+    // Content reveal animations with unified timing and GPU acceleration.
+    // Both pages of a spread are revealed together.
+    contentAnimations.forEach(({ selector, stagger }) => {
+      const duration = fastContent ? contentDuration * 0.25 : contentDuration * 0.4;
+
+      timeline.fromTo(
+        viewPages.flatMap((page) => Array.from(page.querySelectorAll(selector))),
+        config.CONTENT.INITIAL,
+        {
+          ...config.CONTENT.FINAL,
+          duration,
+          ease: config.EASING.CONTENT,
+          force3D: config.GPU_ACCELERATION,
+          willChange: 'transform, opacity'
+        },
+        startProgress + (contentDuration * stagger)
+      );
+    });
+
+    // Add a small delay before page flip to ensure content animations complete
+    const flipStart = flipStartProgress + contentDuration * 0.1;
+
+    // A spread turns the leaf under its right page; the cover and contents sit below it
+    const turningPage = isSpread ? leaves[view] : viewPages[0];
+    if (turningPage) {
+      addPageFlip(timeline, turningPage, bookBase, flipStart, flipDuration, isSpread ? view + 2 : undefined, onPageTurn);
+    }
+  }
+
+  // Pad the timeline to exactly 1 so timeline positions equal book progress
+  timeline.set({}, {}, 1);
+
+  return timeline;
+};
@@ -0,0 +1,115 @@
+import type { AvailabilityConfig, Booking } from '../types/booking';
+import { ICS_CONTENT_TYPE, renderCalendarInvite } from './icsCalendar';
+import { getMailAddress, MailAttachment, MailMessage } from './mailMessage';
+import { getMailTransport } from './mailTransport';
+import { escapeHtml, getSender, getStudioEmail, renderLayout, STUDIO_NAME, toHtmlParagraphs } from './mailTemplate';
+
+// Server-only: the confirmation emails for a booked consultation. The studio sees
+// the time in its own zone, the visitor in theirs; both get the same calendar invite.
+
+// "Monday, 2 November 2026, 10:00 – 10:45 (GMT+8)"
+const formatSlot = (booking: Booking, timeZone: string) => {
+  const date = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric'
+  }).format(new Date(booking.start));
+  const time = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit' });
+  const zone = new Intl.DateTimeFormat('en-GB', { timeZone, timeZoneName: 'short' })
+    .formatToParts(new Date(booking.start))
+    .find(part => part.type === 'timeZoneName')?.value ?? timeZone;
+
+  return `${date}, ${time.format(new Date(booking.start))} – ${time.format(new Date(booking.end))} (${zone})`;
+};
+
+const renderInvite = (booking: Booking, config: AvailabilityConfig): MailAttachment => ({
+  filename: 'invite.ics',
+  contentType: ICS_CONTENT_TYPE,
+  content: renderCalendarInvite({
+    uid: `${booking.id}@${getMailAddress(getStudioEmail()).split('@')[1] ?? 'luminarestudio.com'}`,
+    start: new Date(booking.start),
+    end: new Date(booking.end),
+    summary: `${STUDIO_NAME} design consultation with ${booking.name}`,
+    description: booking.notes
+      ? `Design consultation.\n\nNotes from ${booking.name}:\n${booking.notes}`
+      : 'Design consultation.',
+    location: config.location,
+    organizer: { name: STUDIO_NAME, email: getMailAddress(getStudioEmail()) },
+    attendees: [{ name: booking.name, email: booking.email }]
+  }, new Date(booking.createdAt))
+});
+
+export const renderBookingNotification = (booking: Booking, config: AvailabilityConfig): MailMessage => {
+  const when = formatSlot(booking, config.timeZone);
+  return {
+    from: getSender(),
+    to: [getStudioEmail()],
+    replyTo: `${booking.name} <${booking.email}>`,
+    subject: `Consultation booked: ${booking.name}, ${when}`,
+    text: [
+      'A consultation has been booked on the website',
+      '',
+      `When: ${when}`,
+      `Visitor's time zone: ${booking.timeZone}`,
+      `Name: ${booking.name}`,
+      `Email: ${booking.email}`,
+      ...(booking.notes ? ['', booking.notes] : []),
+      '',
+      'The calendar invite is attached.'
+    ].join('\n'),
+    html: renderLayout('A consultation has been booked', [
+      `<p><strong>When:</strong> ${escapeHtml(when)}<br>`,
+      `<strong>Visitor's time zone:</strong> ${escapeHtml(booking.timeZone)}<br>`,
+      `<strong>Name:</strong> ${escapeHtml(booking.name)}<br>`,
+      `<strong>Email:</strong> <a href="mailto:${escapeHtml(booking.email)}">${escapeHtml(booking.email)}</a></p>`,
+      booking.notes ? toHtmlParagraphs(booking.notes) : '',
+      '<p style="color:#78716c;">The calendar invite is attached.</p>'
+    ].join('\n')),
+    attachments: [renderInvite(booking, config)]
+  };
+};
+
+export const renderBookingConfirmation = (booking: Booking, config: AvailabilityConfig): MailMessage => {
+  const when = formatSlot(booking, booking.timeZone);
+  return {
+    from: getSender(),
+    to: [`${booking.name} <${booking.email}>`],
+    replyTo: getStudioEmail(),
+    subject: `Your consultation with ${STUDIO_NAME}`,
+    text: [
+      `Dear ${booking.name},`,
+      '',
+      'Thank you for booking a design consultation with us.',
+      '',
+      `When: ${when}`,
+      `Where: ${config.location}`,
+      '',
+      'The attached invite adds it to your calendar. If you need to change the time, simply reply to this email.',
+      '',
+      'Warm regards,',
+      STUDIO_NAME
+    ].join('\n'),
+    html: renderLayout(`See you soon, ${booking.name}`, [
+      '<p>Thank you for booking a design consultation with us.</p>',
+      `<p><strong>When:</strong> ${escapeHtml(when)}<br>`,
+      `<strong>Where:</strong> ${escapeHtml(config.location)}</p>`,
+      '<p>The attached invite adds it to your calendar. If you need to change the time, simply reply to this email.</p>',
+      `<p>Warm regards,<br>${STUDIO_NAME}</p>`
+    ].join('\n')),
+    attachments: [renderInvite(booking, config)]
+  };
+};
+
+// As with enquiries, the studio copy must go out and a failed confirmation is only logged
+export const sendBookingEmails = async (booking: Booking, config: AvailabilityConfig) => {
+  const transport = getMailTransport();
+  await transport.send(renderBookingNotification(booking, config));
+
+  try {
+    await transport.send(renderBookingConfirmation(booking, config));
+  } catch (error) {
+    console.error(`Booking confirmation to ${booking.email} via ${transport.name} failed:`, error);
+  }
+};
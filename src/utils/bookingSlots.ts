@@ -0,0 +1,131 @@
+import { AvailabilityConfig, BookingSlot, WEEKDAYS } from '../types/booking';
+
+// Consultation slots from the studio's availability. Working hours are wall-clock
+// times in the studio's zone and are converted with Intl alone, so daylight-saving
+// changes in either zone are handled without a date library. No server-only imports.
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Calendar fields of an instant as seen in `timeZone`
+const getZonedParts = (date: Date, timeZone: string) => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(date).forEach(({ type, value }) => {
+    if (type !== 'literal') parts[type] = Number(value);
+  });
+  return parts as Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number>;
+};
+
+// Milliseconds `timeZone` is ahead of UTC at this instant
+const getZoneOffset = (date: Date, timeZone: string) => {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// "YYYY-MM-DD" day an instant falls on in `timeZone`
+export const getZonedDate = (date: Date, timeZone: string) => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return [year, month, day].map((value, index) => String(value).padStart(index === 0 ? 4 : 2, '0')).join('-');
+};
+
+// The instant a studio-local "YYYY-MM-DD" day plus `minutes` after midnight happens
+export const zonedTimeToUtc = (date: string, minutes: number, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  // Guess with the offset at the wall-clock time, then correct once if that
+  // guess landed on the other side of a DST change
+  const guess = wallClock - getZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getZoneOffset(new Date(guess), timeZone));
+};
+
+// "HH:MM" to minutes after midnight
+export const parseTimeOfDay = (value: string) => {
+  const match = value.match(/^([01]\d|2[0-4]):([0-5]\d)$/);
+  if (!match) return NaN;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= 24 * 60 ? minutes : NaN;
+};
+
+// A slot clashes with a booking when either would eat into the other's buffer
+const overlaps = (slot: BookingSlot, booking: BookingSlot, bufferMs: number) =>
+  Date.parse(slot.start) < Date.parse(booking.end) + bufferMs &&
+  Date.parse(booking.start) < Date.parse(slot.end) + bufferMs;
+
+// Every slot that can still be booked, earliest first
+export const getAvailableSlots = (
+  config: AvailabilityConfig,
+  bookings: BookingSlot[],
+  now = new Date()
+): BookingSlot[] => {
+  const earliest = now.getTime() + config.minimumNoticeHours * 60 * MINUTE;
+  const bufferMs = config.bufferMinutes * MINUTE;
+  const blackoutDates = new Set(config.blackoutDates);
+  const [year, month, day] = getZonedDate(now, config.timeZone).split('-').map(Number);
+  const slots: BookingSlot[] = [];
+
+  for (let offset = 0; offset <= config.bookingWindowDays; offset++) {
+    // Walk calendar days, not 24h steps, so DST days are not skipped or repeated
+    const calendarDay = new Date(Date.UTC(year, month - 1, day) + offset * DAY);
+    const date = calendarDay.toISOString().slice(0, 10);
+    if (blackoutDates.has(date)) continue;
+
+    config.workingHours[WEEKDAYS[calendarDay.getUTCDay()]].forEach(hours => {
+      const closing = parseTimeOfDay(hours.end);
+      for (
+        let minutes = parseTimeOfDay(hours.start);
+        minutes + config.slotMinutes <= closing;
+        minutes += config.slotMinutes + config.bufferMinutes
+      ) {
+        const start = zonedTimeToUtc(date, minutes, config.timeZone);
+        if (start.getTime() < earliest) continue;
+
+        const slot = {
+          start: start.toISOString(),
+          end: new Date(start.getTime() + config.slotMinutes * MINUTE).toISOString()
+        };
+        if (!bookings.some(booking => overlaps(slot, booking, bufferMs))) {
+          slots.push(slot);
+        }
+      }
+    });
+  }
+
+  return slots;
+};
+
+// The open slot starting at `start`, if there is one
+export const findAvailableSlot = (
+  config: AvailabilityConfig,
+  bookings: BookingSlot[],
+  start: string,
+  now = new Date()
+): BookingSlot | undefined => {
+  const time = Date.parse(start);
+  return getAvailableSlots(config, bookings, now).find(slot => Date.parse(slot.start) === time);
+};
@@ -0,0 +1,30 @@
+import crypto from 'crypto';
+import type { AvailabilityConfig, Booking, BookingRequest } from '../types/booking';
+import { findAvailableSlot } from './bookingSlots';
+import { createJsonLinesStore } from './jsonLinesStore';
+
+// Server-only: confirmed consultations. A slot is checked and taken under the
+// store's lock, so two visitors racing for the same time cannot both get it.
+
+const store = createJsonLinesStore<Booking>('bookings');
+
+export const listBookings = () => store.list();
+
+// Book the requested slot, or return undefined when it is no longer open
+export const reserveBooking = (
+  request: BookingRequest,
+  config: AvailabilityConfig,
+  now = new Date()
+): Promise<Booking | undefined> =>
+  store.transact((bookings) => {
+    const slot = findAvailableSlot(config, bookings, request.start, now);
+    if (!slot) return { result: undefined };
+
+    const booking: Booking = {
+      id: crypto.randomUUID(),
+      ...request,
+      ...slot,
+      createdAt: now.toISOString()
+    };
+    return { records: [...bookings, booking], result: booking };
+  });
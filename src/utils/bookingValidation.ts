@@ -0,0 +1,58 @@
+import type { BookingField, BookingFieldErrors, BookingRequest } from '../types/booking';
+import { isValidTimeZone } from './bookingSlots';
+import { validateContactField } from './contactValidation';
+
+// Booking form rules shared by ConsultationBooking and the /api/bookings route.
+// Name and email follow the contact form; notes are optional.
+
+export const BOOKING_LIMITS = {
+  NOTES_MAX: 2000
+};
+
+export type BookingValidationResult =
+  | { success: true; data: BookingRequest }
+  | { success: false; errors: BookingFieldErrors; message?: string };
+
+const readString = (input: Record<string, unknown>, field: string) => {
+  const value = input[field];
+  return typeof value === 'string' ? value.trim() : '';
+};
+
+export const validateBookingField = (field: BookingField, value: string): string | undefined => {
+  switch (field) {
+    case 'name':
+    case 'email':
+      return validateContactField(field, value);
+    case 'notes':
+      if (value.length > BOOKING_LIMITS.NOTES_MAX) return `Please keep your notes under ${BOOKING_LIMITS.NOTES_MAX} characters.`;
+      return undefined;
+  }
+};
+
+// Validate an untrusted payload. The slot itself is checked against the
+// studio's availability when it is reserved.
+export const validateBookingRequest = (input: unknown): BookingValidationResult => {
+  const source = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const start = readString(source, 'start');
+  if (!start || Number.isNaN(Date.parse(start))) {
+    return { success: false, errors: {}, message: 'Please choose a time for your consultation.' };
+  }
+
+  // An unknown zone only affects how the confirmation email shows the time
+  const timeZone = readString(source, 'timeZone');
+  const data: BookingRequest = {
+    start: new Date(start).toISOString(),
+    timeZone: isValidTimeZone(timeZone) ? timeZone : 'UTC',
+    name: readString(source, 'name'),
+    email: readString(source, 'email'),
+    notes: readString(source, 'notes')
+  };
+
+  const errors: BookingFieldErrors = {};
+  (['name', 'email', 'notes'] as BookingField[]).forEach(field => {
+    const error = validateBookingField(field, data[field]);
+    if (error) errors[field] = error;
+  });
+
+  return Object.keys(errors).length > 0 ? { success: false, errors } : { success: true, data };
+};
@@ -0,0 +1,76 @@
+import type { ContactField, ContactFieldErrors, ContactFormValues } from '../types/contact';
+
+// Contact form rules shared by the browser and the /api/contact route, so both
+// report the same per-field messages. Keep this module free of server-only imports.
+
+export const CONTACT_LIMITS = {
+  NAME_MAX: 100,
+  EMAIL_MAX: 254,
+  MESSAGE_MIN: 10,
+  MESSAGE_MAX: 5000
+};
+
+// Hidden field real visitors never see; anything typed into it comes from a bot
+export const CONTACT_HONEYPOT_FIELD = 'website';
+
+// Also checks the studio's own address in content/studio.json
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Names and addresses end up in mail and calendar headers, where a line break starts a
+// new header: no C0 or C1 control characters, including CR and LF
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f-\u009f]/;
+
+export type ContactValidationResult =
+  | { success: true; data: ContactFormValues }
+  | { success: false; errors: ContactFieldErrors };
+
+const readField = (input: Record<string, unknown>, field: ContactField) => {
+  const value = input[field];
+  return typeof value === 'string' ? value.trim() : '';
+};
+
+export const validateContactField = (field: ContactField, value: string): string | undefined => {
+  switch (field) {
+    case 'name':
+      if (!value) return 'Please tell us your name.';
+      if (value.length > CONTACT_LIMITS.NAME_MAX) return `Please keep your name under ${CONTACT_LIMITS.NAME_MAX} characters.`;
+      if (CONTROL_CHARACTERS.test(value)) return 'Please write your name on a single line.';
+      return undefined;
+    case 'email':
+      if (!value) return 'Please enter your email address.';
+      if (value.length > CONTACT_LIMITS.EMAIL_MAX || !EMAIL_PATTERN.test(value) || CONTROL_CHARACTERS.test(value)) {
+        return 'Please enter a valid email address.';
+      }
+      return undefined;
+    case 'message':
+      if (!value) return 'Please tell us about your project.';
+      if (value.length < CONTACT_LIMITS.MESSAGE_MIN) return `Please write at least ${CONTACT_LIMITS.MESSAGE_MIN} characters.`;
+      if (value.length > CONTACT_LIMITS.MESSAGE_MAX) return `Please keep your message under ${CONTACT_LIMITS.MESSAGE_MAX} characters.`;
+      return undefined;
+  }
+};
+
+// Validate an untrusted payload, trimming every field
+export const validateContactForm = (input: unknown): ContactValidationResult => {
+  const source = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const data: ContactFormValues = {
+    name: readField(source, 'name'),
+    email: readField(source, 'email'),
+    message: readField(source, 'message')
+  };
+
+  const errors: ContactFieldErrors = {};
+  (Object.keys(data) as ContactField[]).forEach(field => {
+    const error = validateContactField(field, data[field]);
+    if (error) errors[field] = error;
+  });
+
+  return Object.keys(errors).length > 0 ? { success: false, errors } : { success: true, data };
+};
+
+export const isHoneypotFilled = (input: unknown) => {
+  const value = input && typeof input === 'object'
+    ? (input as Record<string, unknown>)[CONTACT_HONEYPOT_FIELD]
+    : undefined;
+  return typeof value === 'string' && value.trim() !== '';
+};
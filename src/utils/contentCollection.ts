@@ -0,0 +1,131 @@
+import fs from 'fs';
+import path from 'path';
+
+// Shared server-only plumbing for the JSON collections in /content.
+// Every entry is one JSON file whose name (without extension) is its slug,
+// unless the file sets "slug" itself. An optional numeric "order" sorts the
+// collection. Validation errors are thrown so that `next build` fails.
+
+const CONTENT_ROOT = path.join(process.cwd(), 'content');
+const PUBLIC_DIR = path.join(process.cwd(), 'public');
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export class ContentValidationError extends Error {
+  constructor(collection: string, file: string, message: string) {
+    super(`Invalid ${collection} entry "${file}": ${message}`);
+    this.name = 'ContentValidationError';
+  }
+}
+
+// The file being validated, passed to the field helpers for error messages
+export interface ContentFile {
+  collection: string;
+  file: string;
+}
+
+export const fail = (source: ContentFile, message: string): never => {
+  throw new ContentValidationError(source.collection, source.file, message);
+};
+
+export const requireString = (source: ContentFile, value: unknown, field: string): string => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return fail(source, `"${field}" must be a non-empty string`);
+  }
+  return value.trim();
+};
+
+export const optionalString = (source: ContentFile, value: unknown, field: string): string | undefined => {
+  return value === undefined ? undefined : requireString(source, value, field);
+};
+
+export const requireList = (source: ContentFile, value: unknown, field: string): unknown[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    return fail(source, `"${field}" must be a non-empty array`);
+  }
+  return value;
+};
+
+export const requireStringList = (source: ContentFile, value: unknown, field: string): string[] => {
+  return requireList(source, value, field).map((item, index) => requireString(source, item, `${field}[${index}]`));
+};
+
+// Images are referenced by their public URL and must exist in /public
+export const requirePublicImage = (source: ContentFile, value: unknown, field: string): string => {
+  const image = requireString(source, value, field);
+  if (!image.startsWith('/')) {
+    fail(source, `${field} "${image}" must be an absolute path inside /public`);
+  }
+  if (!fs.existsSync(path.join(PUBLIC_DIR, image))) {
+    fail(source, `${field} "${image}" does not exist in /public`);
+  }
+  return image;
+};
+
+const readJsonObject = (source: ContentFile, filePath: string): Record<string, unknown> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    return fail(source, `could not parse JSON (${(error as Error).message})`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return fail(source, 'expected a JSON object');
+  }
+  return raw as Record<string, unknown>;
+};
+
+// Load and validate a single settings file, /content/<name>.json
+export const loadContentFile = <T>(
+  name: string,
+  parse: (source: ContentFile, data: Record<string, unknown>) => T
+): T => {
+  const source: ContentFile = { collection: name, file: `${name}.json` };
+  return parse(source, readJsonObject(source, path.join(CONTENT_ROOT, source.file)));
+};
+
+// Load, validate and order every entry of /content/<collection>
+export const loadCollection = <T extends { slug: string }>(
+  collection: string,
+  parse: (source: ContentFile, data: Record<string, unknown>, slug: string) => T
+): T[] => {
+  const directory = path.join(CONTENT_ROOT, collection);
+  const files = fs.existsSync(directory)
+    ? fs.readdirSync(directory).filter(file => file.endsWith('.json'))
+    : [];
+  if (files.length === 0) {
+    throw new Error(`No ${collection} entries found in ${directory}`);
+  }
+
+  const entries = files.map(file => {
+    const source: ContentFile = { collection, file };
+
+    const data = readJsonObject(source, path.join(directory, file));
+    const slug = typeof data.slug === 'string' ? data.slug : path.basename(file, '.json');
+    if (!SLUG_PATTERN.test(slug)) {
+      fail(source, `slug "${slug}" must be lowercase words separated by hyphens`);
+    }
+    if (data.order !== undefined && (typeof data.order !== 'number' || !Number.isFinite(data.order))) {
+      fail(source, '"order" must be a number');
+    }
+
+    return {
+      file,
+      order: (data.order as number | undefined) ?? Number.MAX_SAFE_INTEGER,
+      item: parse(source, data, slug)
+    };
+  });
+
+  // Slugs become URLs, so they must be unique across the collection
+  const seen = new Map<string, string>();
+  entries.forEach(({ file, item }) => {
+    const existing = seen.get(item.slug);
+    if (existing) {
+      fail({ collection, file }, `duplicate slug "${item.slug}" (already used by "${existing}")`);
+    }
+    seen.set(item.slug, file);
+  });
+
+  return entries
+    .sort((a, b) => a.order - b.order || a.item.slug.localeCompare(b.item.slug))
+    .map(({ item }) => item);
+};
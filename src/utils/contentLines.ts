@@ -0,0 +1,32 @@
+// Text escaping and line folding shared by the iCalendar (RFC 5545) and vCard
+// (RFC 2426, RFC 6350) writers, which use the same content-line rules.
+// No node APIs, so vCards can be built in the browser too.
+
+export const escapeText = (value: string) => value
+  .replace(/\\/g, '\\\\')
+  .replace(/\r?\n/g, '\\n')
+  .replace(/([,;])/g, '\\$1');
+
+const encoder = new TextEncoder();
+
+// Lines longer than 75 octets continue on the next line after a single space,
+// never splitting a multi-byte character
+export const foldLine = (line: string) => {
+  const folded: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const character of line) {
+    const size = encoder.encode(character).length;
+    const limit = folded.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      folded.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += character;
+    octets += size;
+  }
+
+  return [...folded, current].join('\r\n ');
+};
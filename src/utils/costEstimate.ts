@@ -0,0 +1,62 @@
+import { AREA_UNITS } from '../types/brief';
+import type { EstimateInput, EstimatorConfig, PriceRange } from '../types/estimator';
+
+// Indicative project prices from the studio's rate table, shared by the estimator
+// section and the message it hands to the contact form. Keep this module free of
+// server-only imports.
+
+export const ESTIMATE_LIMITS = {
+  ROOMS_MAX: 50,
+  AREA_MAX: 1000000
+};
+
+export const SQFT_PER_M2 = 10.7639;
+
+export const toSquareFeet = (area: number, unit: EstimateInput['areaUnit']) =>
+  unit === 'm2' ? area * SQFT_PER_M2 : area;
+
+// Sum every chosen service's area and room rates, scale by the finish level, then
+// apply the minimum fee and round outwards. Undefined until the inputs make sense.
+export const calculateEstimate = (config: EstimatorConfig, input: EstimateInput): PriceRange | undefined => {
+  const finish = config.finishLevels.find(level => level.id === input.finish);
+  const rates = input.services.map(slug => config.rates[slug]).filter(Boolean);
+  const area = toSquareFeet(input.area, input.areaUnit);
+  if (!finish || rates.length === 0) return undefined;
+  if (!(input.area > 0) || input.area > ESTIMATE_LIMITS.AREA_MAX) return undefined;
+  if (!Number.isInteger(input.rooms) || input.rooms < 1 || input.rooms > ESTIMATE_LIMITS.ROOMS_MAX) return undefined;
+
+  const total = rates.reduce((sum, rate) => ({
+    min: sum.min + area * rate.perSqft.min + input.rooms * rate.perRoom.min,
+    max: sum.max + area * rate.perSqft.max + input.rooms * rate.perRoom.max
+  }), { min: 0, max: 0 });
+
+  const min = Math.max(config.minimumFee, total.min * finish.multiplier);
+  const max = Math.max(min, total.max * finish.multiplier);
+  return {
+    min: Math.floor(min / config.roundTo) * config.roundTo,
+    max: Math.ceil(max / config.roundTo) * config.roundTo
+  };
+};
+
+export const formatPriceRange = (range: PriceRange, currency: string) => {
+  const format = new Intl.NumberFormat('en-MY', { style: 'currency', currency, maximumFractionDigits: 0 });
+  return range.min === range.max ? format.format(range.min) : `${format.format(range.min)} - ${format.format(range.max)}`;
+};
+
+// Plain-text summary the visitor sends as the start of their contact message.
+// `serviceTitles` maps service slugs to the titles shown in the catalogue.
+export const formatEstimateMessage = (
+  config: EstimatorConfig,
+  input: EstimateInput,
+  estimate: PriceRange,
+  serviceTitles: Record<string, string>
+) => [
+  'My estimate from your website:',
+  `Services: ${input.services.map(slug => serviceTitles[slug] ?? slug).join(', ')}`,
+  `Rooms: ${input.rooms}`,
+  `Size: ${input.area.toLocaleString('en-US')} ${AREA_UNITS[input.areaUnit]}`,
+  `Finish: ${config.finishLevels.find(level => level.id === input.finish)?.label ?? input.finish}`,
+  `Indicative range: ${formatPriceRange(estimate, config.currency)}`,
+  '',
+  ''
+].join('\n');
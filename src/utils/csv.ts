@@ -0,0 +1,13 @@
+// CSV exports for the admin pages. Every cell is quoted, and a leading =, +, -, @, tab or
+// carriage return is defused so spreadsheets don't evaluate it as a formula.
+
+const toCsvCell = (value: unknown) => {
+  const text = String(value ?? '');
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+};
+
+export const toCsv = <T>(columns: (keyof T & string)[], records: T[]) =>
+  [columns, ...records.map(record => columns.map(column => record[column]))]
+    .map(row => row.map(toCsvCell).join(','))
+    .join('\r\n');
@@ -0,0 +1,78 @@
+import type { ContactFormValues } from '../types/contact';
+import type { UploadedFile } from '../types/uploads';
+import type { MailMessage } from './mailMessage';
+import { getMailTransport } from './mailTransport';
+import { escapeHtml, getSender, getStudioEmail, renderLayout, STUDIO_NAME, toHtmlParagraphs } from './mailTemplate';
+import { formatFileSize } from './uploadRules';
+
+// Server-only: the two emails every contact enquiry produces - a notification to
+// the studio and an auto-reply to the visitor - rendered from the contact form fields.
+
+// Attachments stay in upload storage; the studio opens them from the admin listing
+const renderAttachmentList = (attachments: UploadedFile[]) => attachments.length === 0 ? [] : [
+  '',
+  `Attached files (open them from Enquiries in the studio admin):`,
+  ...attachments.map(file => `- ${file.filename} (${formatFileSize(file.size)})`)
+];
+
+export const renderStudioNotification = (enquiry: ContactFormValues, attachments: UploadedFile[] = []): MailMessage => ({
+  from: getSender(),
+  to: [getStudioEmail()],
+  replyTo: `${enquiry.name} <${enquiry.email}>`,
+  subject: `New enquiry from ${enquiry.name}`,
+  text: [
+    `New enquiry from the website`,
+    '',
+    `Name: ${enquiry.name}`,
+    `Email: ${enquiry.email}`,
+    '',
+    enquiry.message,
+    ...renderAttachmentList(attachments),
+    '',
+    'Reply to this email to answer the visitor directly.'
+  ].join('\n'),
+  html: renderLayout('New enquiry from the website', [
+    `<p><strong>Name:</strong> ${escapeHtml(enquiry.name)}<br>`,
+    `<strong>Email:</strong> <a href="mailto:${escapeHtml(enquiry.email)}">${escapeHtml(enquiry.email)}</a></p>`,
+    toHtmlParagraphs(enquiry.message),
+    attachments.length > 0 ? toHtmlParagraphs(renderAttachmentList(attachments).slice(1).join('\n')) : '',
+    '<p style="color:#78716c;">Reply to this email to answer the visitor directly.</p>'
+  ].join('\n'))
+});
+
+export const renderAutoReply = (enquiry: ContactFormValues): MailMessage => ({
+  from: getSender(),
+  to: [`${enquiry.name} <${enquiry.email}>`],
+  replyTo: getStudioEmail(),
+  subject: `Thank you for contacting ${STUDIO_NAME}`,
+  text: [
+    `Dear ${enquiry.name},`,
+    '',
+    `Thank you for getting in touch. We have received your message and one of our designers will reply within two working days.`,
+    '',
+    'For reference, this is what you sent us:',
+    '',
+    enquiry.message.split('\n').map(line => `> ${line}`).join('\n'),
+    '',
+    'Warm regards,',
+    STUDIO_NAME
+  ].join('\n'),
+  html: renderLayout(`Thank you, ${enquiry.name}`, [
+    '<p>Thank you for getting in touch. We have received your message and one of our designers will reply within two working days.</p>',
+    '<p>For reference, this is what you sent us:</p>',
+    `<blockquote style="margin:0;padding:0 16px;border-left:3px solid #d6d3d1;color:#57534e;">${toHtmlParagraphs(enquiry.message)}</blockquote>`,
+    `<p>Warm regards,<br>${STUDIO_NAME}</p>`
+  ].join('\n'))
+});
+
+// The studio notification must go out; a failed auto-reply is only logged
+export const sendEnquiryEmails = async (enquiry: ContactFormValues, attachments: UploadedFile[] = []) => {
+  const transport = getMailTransport();
+  await transport.send(renderStudioNotification(enquiry, attachments));
+
+  try {
+    await transport.send(renderAutoReply(enquiry));
+  } catch (error) {
+    console.error(`Auto-reply to ${enquiry.email} via ${transport.name} failed:`, error);
+  }
+};
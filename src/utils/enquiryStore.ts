@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+import type { ContactFormValues } from '../types/contact';
+import { ENQUIRY_STATUSES, Enquiry, EnquiryFilter, EnquiryStatus } from '../types/enquiries';
+import { toCsv } from './csv';
+import { createJsonLinesStore } from './jsonLinesStore';
+
+// Server-only: every contact enquiry, saved before any email goes out
+
+const store = createJsonLinesStore<Enquiry>('enquiries');
+
+export const isEnquiryStatus = (value: unknown): value is EnquiryStatus =>
+  typeof value === 'string' && (ENQUIRY_STATUSES as readonly string[]).includes(value);
+
+// Brief and attachments are only stored when present
+export const saveEnquiry = async (
+  values: ContactFormValues,
+  { brief, attachments }: Pick<Enquiry, 'brief' | 'attachments'> = {}
+): Promise<Enquiry> => {
+  const now = new Date().toISOString();
+  return store.append({
+    id: crypto.randomUUID(),
+    ...values,
+    ...(brief ? { brief } : {}),
+    ...(attachments?.length ? { attachments } : {}),
+    status: 'new',
+    createdAt: now,
+    updatedAt: now
+  });
+};
+
+// Newest first
+export const listEnquiries = async ({ status, query }: EnquiryFilter = {}): Promise<Enquiry[]> => {
+  const search = query?.trim().toLowerCase();
+  return (await store.list())
+    .filter(enquiry => !status || enquiry.status === status)
+    .filter(enquiry => !search || [enquiry.name, enquiry.email, enquiry.message]
+      .some(value => value.toLowerCase().includes(search)))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const updateEnquiryStatus = (id: string, status: EnquiryStatus) =>
+  store.update(id, enquiry => ({ ...enquiry, status, updatedAt: new Date().toISOString() }));
+
+// Attachments are exported as their file names
+type EnquiryCsvRow = Omit<Enquiry, 'attachments'> & { attachments: string };
+
+const CSV_COLUMNS: (keyof EnquiryCsvRow)[] = ['createdAt', 'status', 'name', 'email', 'message', 'attachments', 'updatedAt', 'id'];
+
+export const enquiriesToCsv = (enquiries: Enquiry[]) => toCsv(CSV_COLUMNS, enquiries.map(enquiry => ({
+  ...enquiry,
+  attachments: (enquiry.attachments ?? []).map(file => file.filename).join('; ')
+})));
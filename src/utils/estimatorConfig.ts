@@ -0,0 +1,103 @@
+import type { EstimatorConfig, FinishLevel, PriceRange, ServiceRate } from '../types/estimator';
+import { ContentFile, fail, loadContentFile, requireList, requireString } from './contentCollection';
+import { getServices } from './servicesContent';
+
+// Server-only loader for the cost estimator's rate table in /content/estimator.json.
+// Rates must name services from /content/services.
+
+const ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const requireAmount = (source: ContentFile, value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    return fail(source, `"${field}" must be a number of zero or more`);
+  }
+  return value;
+};
+
+const requireRange = (source: ContentFile, value: unknown, field: string): PriceRange => {
+  const { min, max } = (value ?? {}) as Record<string, unknown>;
+  const range = {
+    min: requireAmount(source, min, `${field}.min`),
+    max: requireAmount(source, max, `${field}.max`)
+  };
+  if (range.min > range.max) {
+    fail(source, `"${field}.min" must not be more than "${field}.max"`);
+  }
+  return range;
+};
+
+const parseFinishLevel = (source: ContentFile, value: unknown, index: number): FinishLevel => {
+  const field = `finishLevels[${index}]`;
+  const { id, label, description, multiplier } = (value ?? {}) as Record<string, unknown>;
+  const level = {
+    id: requireString(source, id, `${field}.id`),
+    label: requireString(source, label, `${field}.label`),
+    description: requireString(source, description, `${field}.description`),
+    multiplier: requireAmount(source, multiplier, `${field}.multiplier`)
+  };
+  if (!ID_PATTERN.test(level.id)) {
+    fail(source, `"${field}.id" must be lowercase words separated by hyphens`);
+  }
+  if (level.multiplier === 0) {
+    fail(source, `"${field}.multiplier" must be more than zero`);
+  }
+  return level;
+};
+
+const parseRates = (source: ContentFile, value: unknown): Record<string, ServiceRate> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return fail(source, '"rates" must be an object keyed by service slug');
+  }
+
+  const serviceSlugs = new Set(getServices().map(service => service.slug));
+  return Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([slug, rate]) => {
+    if (!serviceSlugs.has(slug)) {
+      fail(source, `rate for "${slug}" does not match a service in /content/services`);
+    }
+    const { perSqft, perRoom } = (rate ?? {}) as Record<string, unknown>;
+    return [slug, {
+      perSqft: requireRange(source, perSqft, `rates.${slug}.perSqft`),
+      perRoom: requireRange(source, perRoom ?? { min: 0, max: 0 }, `rates.${slug}.perRoom`)
+    }];
+  }));
+};
+
+const parseEstimator = (source: ContentFile, data: Record<string, unknown>): EstimatorConfig => {
+  const currency = requireString(source, data.currency, 'currency');
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    fail(source, `"currency" "${currency}" must be an ISO 4217 code such as "MYR"`);
+  }
+
+  const finishLevels = requireList(source, data.finishLevels, 'finishLevels')
+    .map((level, index) => parseFinishLevel(source, level, index));
+  if (new Set(finishLevels.map(level => level.id)).size !== finishLevels.length) {
+    fail(source, '"finishLevels" ids must be unique');
+  }
+
+  const rates = parseRates(source, data.rates);
+  if (Object.keys(rates).length === 0) {
+    fail(source, '"rates" must price at least one service');
+  }
+
+  const roundTo = requireAmount(source, data.roundTo ?? 1, 'roundTo');
+  if (roundTo === 0) {
+    fail(source, '"roundTo" must be more than zero');
+  }
+
+  return {
+    currency,
+    roundTo,
+    minimumFee: requireAmount(source, data.minimumFee ?? 0, 'minimumFee'),
+    finishLevels,
+    rates
+  };
+};
+
+let cachedEstimator: EstimatorConfig | null = null;
+
+export const getEstimatorConfig = (): EstimatorConfig => {
+  if (!cachedEstimator) {
+    cachedEstimator = loadContentFile('estimator', parseEstimator);
+  }
+  return cachedEstimator;
+};
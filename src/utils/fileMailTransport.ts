@@ -0,0 +1,17 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { MailTransport, renderMimeMessage } from './mailMessage';
+
+// Development and test stand-in: every message becomes an .eml file that any
+// mail client can open, instead of leaving the machine
+export const createFileMailTransport = ({ directory }: { directory: string }): MailTransport => ({
+  name: 'file',
+  send: async (message) => {
+    await fs.mkdir(directory, { recursive: true });
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const file = path.join(directory, `${timestamp}-${crypto.randomBytes(4).toString('hex')}.eml`);
+    await fs.writeFile(file, renderMimeMessage(message), 'utf8');
+    console.log(`Mail "${message.subject}" written to ${file}`);
+  }
+});
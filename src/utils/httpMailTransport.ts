@@ -0,0 +1,44 @@
+import { MailDeliveryError, MailTransport, stripControlCharacters } from './mailMessage';
+
+export interface HttpMailOptions {
+  url: string;
+  apiKey?: string;
+}
+
+// Generic HTTP mail API: POSTs the message as JSON with a bearer token.
+// The body uses the common { from, to, reply_to, subject, text, html, attachments, headers }
+// shape, with attachment contents base64 encoded. Header fields lose their control
+// characters, as in renderMimeMessage, so the API never sees a line break in a header.
+export const createHttpMailTransport = ({ url, apiKey }: HttpMailOptions): MailTransport => ({
+  name: 'http',
+  send: async (message) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        from: stripControlCharacters(message.from),
+        to: message.to.map(stripControlCharacters),
+        reply_to: message.replyTo && stripControlCharacters(message.replyTo),
+        subject: stripControlCharacters(message.subject),
+        text: message.text,
+        html: message.html,
+        attachments: message.attachments?.map(attachment => ({
+          filename: stripControlCharacters(attachment.filename),
+          content_type: stripControlCharacters(attachment.contentType),
+          content: Buffer.from(attachment.content, 'utf8').toString('base64')
+        })),
+        headers: message.headers && Object.fromEntries(
+          Object.entries(message.headers).map(([name, value]) => [name, stripControlCharacters(value)])
+        )
+      })
+    });
+
+    if (!response.ok) {
+      const detail = (await response.text()).slice(0, 200);
+      throw new MailDeliveryError('HTTP', `${response.status} ${response.statusText} ${detail}`.trim());
+    }
+  }
+});
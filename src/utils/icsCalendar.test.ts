@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { renderCalendarInvite, type CalendarEvent } from './icsCalendar';
+
+const event: CalendarEvent = {
+  uid: 'booking-1@luminare.studio',
+  start: new Date('2026-11-02T02:00:00Z'),
+  end: new Date('2026-11-02T02:30:00Z'),
+  summary: 'Design consultation',
+  description: 'Video call with the studio',
+  organizer: { name: 'Luminare Studio', email: 'hello@luminare.studio' },
+  attendees: [{ name: 'Visitor', email: 'visitor@example.com' }]
+};
+
+// Content lines of the invite with folded lines joined back together
+const renderLines = (overrides: Partial<CalendarEvent>) =>
+  renderCalendarInvite({ ...event, ...overrides }).replace(/\r\n /g, '').split('\r\n');
+
+describe('renderCalendarInvite', () => {
+  it('keeps an attendee name with line breaks inside its CN parameter', () => {
+    const lines = renderLines({ attendees: [{ name: 'Bob\r\nATTENDEE:mailto:x@evil.com\nX', email: 'visitor@example.com' }] });
+
+    assert.equal(lines.filter(line => line.startsWith('ATTENDEE')).length, 1);
+    assert.ok(lines.includes('ATTENDEE;CN="BobATTENDEE:mailto:x@evil.comX";ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:visitor@example.com'));
+  });
+
+  it('quotes separators and replaces quotes in names', () => {
+    const lines = renderLines({ attendees: [{ name: 'Smith, Jo; "Studio": ^A', email: 'visitor@example.com' }] });
+
+    assert.ok(lines.some(line => line.startsWith('ATTENDEE;CN="Smith, Jo; \'Studio\': ^^A";ROLE=')));
+  });
+
+  it('keeps the attendee address to a single mailto value', () => {
+    const lines = renderLines({ attendees: [{ name: 'Visitor', email: 'visitor@example.com\r\nATTENDEE;CN=x:mailto:x@evil.com' }] });
+
+    assert.equal(lines.filter(line => line.startsWith('ATTENDEE')).length, 1);
+    assert.ok(lines.some(line => line.endsWith(':mailto:visitor@example.comATTENDEECN=xmailtox@evil.com')));
+  });
+});
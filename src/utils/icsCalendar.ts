@@ -0,0 +1,64 @@
+import { escapeText, foldLine } from './contentLines';
+
+// Server-only: iCalendar (RFC 5545) invitations attached to booking emails. Times are
+// written in UTC so every calendar shows them in its owner's own zone.
+
+export interface CalendarPerson {
+  name: string;
+  email: string;
+}
+
+export interface CalendarEvent {
+  // Stable across every copy of the invite so calendars treat them as one event
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description: string;
+  location?: string;
+  organizer: CalendarPerson;
+  attendees: CalendarPerson[];
+}
+
+// 20261102T020000Z
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// A line break would end the content line and start a property of the visitor's choosing
+const stripControlCharacters = (value: string) => value.replace(/[\u0000-\u001f\u007f-\u009f]/g, '');
+
+// RFC 5545 parameter values have no backslash escapes: `;`, `:` and `,` are escaped by
+// quoting the whole value, and a quoted value can't contain quotes or control characters.
+// `^` is doubled per RFC 6868, so calendars that decode it keep the name as written.
+const quoteParameter = (value: string) =>
+  `"${stripControlCharacters(value).replace(/\^/g, '^^').replace(/"/g, "'")}"`;
+
+// Only characters a mailto URI can hold, so the address can't break out of the value
+const mailtoAddress = (email: string) => stripControlCharacters(email).replace(/[\s;,:"<>]/g, '');
+
+const person = (property: string, { name, email }: CalendarPerson, parameters = '') =>
+  `${property};CN=${quoteParameter(name)}${parameters}:mailto:${mailtoAddress(email)}`;
+
+export const ICS_CONTENT_TYPE = 'text/calendar; method=REQUEST; charset=UTF-8';
+
+export const renderCalendarInvite = (event: CalendarEvent, stamp = new Date()): string => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Luminare Studio//Consultations//EN',
+  'CALSCALE:GREGORIAN',
+  'METHOD:REQUEST',
+  'BEGIN:VEVENT',
+  `UID:${event.uid}`,
+  `DTSTAMP:${formatUtc(stamp)}`,
+  `DTSTART:${formatUtc(event.start)}`,
+  `DTEND:${formatUtc(event.end)}`,
+  `SUMMARY:${escapeText(event.summary)}`,
+  `DESCRIPTION:${escapeText(event.description)}`,
+  ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+  person('ORGANIZER', event.organizer),
+  ...event.attendees.map(attendee => person('ATTENDEE', attendee, ';ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED')),
+  'STATUS:CONFIRMED',
+  'SEQUENCE:0',
+  'END:VEVENT',
+  'END:VCALENDAR',
+  ''
+].map(foldLine).join('\r\n');
@@ -0,0 +1,86 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Server-only embedded store: one JSON record per line in a file under DATA_DIR
+// (default .data). Writes for a file are serialised in-process and rewrites go
+// through a temp file + rename, so a crash never leaves a half-written store.
+// Meant for a single server instance - the studio's enquiry volume, not a CRM.
+
+export const getDataDirectory = () => path.resolve(process.cwd(), process.env.DATA_DIR ?? '.data');
+
+export interface JsonLinesStore<T extends { id: string }> {
+  list: () => Promise<T[]>;
+  find: (id: string) => Promise<T | undefined>;
+  append: (record: T) => Promise<T>;
+  update: (id: string, change: (record: T) => T) => Promise<T | undefined>;
+  // Read, decide and write under the store's lock; return `records` to rewrite the file
+  transact: <R>(work: (records: T[]) => { records?: T[]; result: R }) => Promise<R>;
+}
+
+// Every store writing to the same file shares one queue
+const locks = new Map<string, Promise<unknown>>();
+
+const withLock = <R>(file: string, work: () => Promise<R>): Promise<R> => {
+  const previous = locks.get(file) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(work);
+  locks.set(file, next);
+  return next;
+};
+
+const readRecords = async <T>(file: string): Promise<T[]> => {
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  return content.split('\n').flatMap((line, index) => {
+    if (!line.trim()) return [];
+    try {
+      return [JSON.parse(line) as T];
+    } catch {
+      // A torn last line from an interrupted append must not hide every other record
+      console.error(`Skipping unreadable line ${index + 1} in ${file}`);
+      return [];
+    }
+  });
+};
+
+const writeRecords = async <T>(file: string, records: T[]) => {
+  const temporaryFile = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temporaryFile, records.map(record => `${JSON.stringify(record)}\n`).join(''), 'utf8');
+  await fs.rename(temporaryFile, file);
+};
+
+export const createJsonLinesStore = <T extends { id: string }>(name: string): JsonLinesStore<T> => {
+  const file = path.join(getDataDirectory(), `${name}.jsonl`);
+
+  const transact = <R>(work: (records: T[]) => { records?: T[]; result: R }) =>
+    withLock(file, async () => {
+      const { records, result } = work(await readRecords<T>(file));
+      if (records) {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await writeRecords(file, records);
+      }
+      return result;
+    });
+
+  return {
+    list: () => withLock(file, () => readRecords<T>(file)),
+    find: async (id) => (await readRecords<T>(file)).find(record => record.id === id),
+    append: (record) => withLock(file, async () => {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.appendFile(file, `${JSON.stringify(record)}\n`, 'utf8');
+      return record;
+    }),
+    update: (id, change) => transact((records) => {
+      const index = records.findIndex(record => record.id === id);
+      if (index === -1) return { result: undefined };
+      const updated = change(records[index]);
+      return { records: records.map((record, i) => (i === index ? updated : record)), result: updated };
+    }),
+    transact
+  };
+};
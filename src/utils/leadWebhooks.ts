@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import type { Enquiry } from '../types/enquiries';
+import type { WebhookAttempt, WebhookDelivery, WebhookEvent } from '../types/webhooks';
+import { createJsonLinesStore } from './jsonLinesStore';
+
+// Server-only: every accepted enquiry is POSTed as JSON to the URLs in WEBHOOK_URLS,
+// signed with WEBHOOK_SECRET. Receivers verify
+//   X-Luminare-Signature: sha256=<hex HMAC-SHA256 of "<X-Luminare-Timestamp>.<raw body>">
+// Failed deliveries retry with exponential backoff; every attempt is kept in the
+// delivery log. Retries are timers in this process and resume after a restart.
+
+export const WEBHOOK_CONFIG = {
+  MAX_ATTEMPTS: 6,
+  BASE_DELAY_MS: 10 * 1000,      // 10s, 20s, 40s, 80s, 160s between attempts
+  MAX_DELAY_MS: 30 * 60 * 1000,
+  TIMEOUT_MS: 10 * 1000,
+  // Response body kept in the log, enough to see why a receiver refused
+  ERROR_EXCERPT: 200
+};
+
+const store = createJsonLinesStore<WebhookDelivery>('webhook-deliveries');
+
+const getWebhookUrls = () => (process.env.WEBHOOK_URLS ?? '')
+  .split(',')
+  .map(url => url.trim())
+  .filter(Boolean);
+
+export const signWebhookBody = (secret: string, timestamp: number, body: string) =>
+  `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// Exponential backoff with +-20% jitter so retries to one receiver don't bunch up
+const getRetryDelay = (attempts: number) => {
+  const delay = Math.min(WEBHOOK_CONFIG.MAX_DELAY_MS, WEBHOOK_CONFIG.BASE_DELAY_MS * 2 ** (attempts - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+const sendOnce = async (delivery: WebhookDelivery, secret: string): Promise<WebhookAttempt> => {
+  const startedAt = Date.now();
+  const timestamp = Math.floor(startedAt / 1000);
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'LuminareStudio-Webhooks/1.0',
+        'X-Luminare-Event': delivery.eventType,
+        'X-Luminare-Delivery': delivery.id,
+        'X-Luminare-Timestamp': String(timestamp),
+        'X-Luminare-Signature': signWebhookBody(secret, timestamp, delivery.body)
+      },
+      body: delivery.body,
+      signal: AbortSignal.timeout(WEBHOOK_CONFIG.TIMEOUT_MS),
+      redirect: 'manual'
+    });
+    const attempt: WebhookAttempt = {
+      at: new Date(startedAt).toISOString(),
+      responseStatus: response.status,
+      durationMs: Date.now() - startedAt
+    };
+    if (!response.ok) {
+      attempt.error = (await response.text()).slice(0, WEBHOOK_CONFIG.ERROR_EXCERPT) || response.statusText;
+    }
+    return attempt;
+  } catch (error) {
+    return {
+      at: new Date(startedAt).toISOString(),
+      error: (error as Error).message,
+      durationMs: Date.now() - startedAt
+    };
+  }
+};
+
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+const scheduleAttempt = (id: string, delayMs: number) => {
+  clearTimeout(timers.get(id));
+  const timer = setTimeout(() => {
+    timers.delete(id);
+    attemptDelivery(id).catch(error => console.error(`Webhook delivery ${id} crashed:`, error));
+  }, Math.max(0, delayMs));
+  // Pending retries must not keep the process alive on shutdown
+  timer.unref?.();
+  timers.set(id, timer);
+};
+
+const attemptDelivery = async (id: string) => {
+  const secret = process.env.WEBHOOK_SECRET;
+  const delivery = await store.find(id);
+  if (!delivery || delivery.status !== 'pending' || !secret) return;
+
+  const attempt = await sendOnce(delivery, secret);
+  const isDelivered = attempt.responseStatus !== undefined && attempt.responseStatus >= 200 && attempt.responseStatus < 300;
+  const attempts = [...delivery.attempts, attempt];
+  const isExhausted = !isDelivered && attempts.length >= WEBHOOK_CONFIG.MAX_ATTEMPTS;
+  const retryDelay = getRetryDelay(attempts.length);
+
+  await store.update(id, current => ({
+    ...current,
+    attempts: [...current.attempts, attempt],
+    status: isDelivered ? 'delivered' : isExhausted ? 'failed' : 'pending',
+    nextAttemptAt: isDelivered || isExhausted ? undefined : new Date(Date.now() + retryDelay).toISOString(),
+    updatedAt: new Date().toISOString()
+  }));
+
+  if (isDelivered) {
+    console.log(`Webhook ${delivery.eventType} delivered to ${delivery.url} (attempt ${attempts.length})`);
+  } else if (isExhausted) {
+    console.error(`Webhook ${delivery.eventType} to ${delivery.url} failed after ${attempts.length} attempts: ${attempt.error}`);
+  } else {
+    console.warn(`Webhook ${delivery.eventType} to ${delivery.url} failed (${attempt.responseStatus ?? attempt.error}), retrying in ${Math.round(retryDelay / 1000)}s`);
+    scheduleAttempt(id, retryDelay);
+  }
+};
+
+// Pick up retries that were waiting when the server last stopped
+let hasResumed = false;
+const resumePendingDeliveries = async () => {
+  if (hasResumed) return;
+  hasResumed = true;
+  (await store.list())
+    .filter(delivery => delivery.status === 'pending' && !timers.has(delivery.id))
+    .forEach(delivery => scheduleAttempt(
+      delivery.id,
+      delivery.nextAttemptAt ? Date.parse(delivery.nextAttemptAt) - Date.now() : 0
+    ));
+};
+
+// Log one delivery per configured URL and send them in the background.
+// Never throws: a broken webhook must not fail the visitor's submission.
+export const queueEnquiryWebhooks = async (enquiry: Enquiry) => {
+  try {
+    const urls = getWebhookUrls();
+    if (urls.length === 0) return;
+    if (!process.env.WEBHOOK_SECRET) {
+      console.error('WEBHOOK_URLS is set but WEBHOOK_SECRET is not; webhooks are never sent unsigned');
+      return;
+    }
+
+    await resumePendingDeliveries();
+
+    const now = new Date().toISOString();
+    const event: WebhookEvent = { id: crypto.randomUUID(), type: 'enquiry.created', createdAt: now, data: enquiry };
+    const body = JSON.stringify(event);
+
+    for (const url of urls) {
+      const delivery = await store.append({
+        id: crypto.randomUUID(),
+        eventId: event.id,
+        eventType: event.type,
+        url,
+        body,
+        status: 'pending',
+        attempts: [],
+        nextAttemptAt: now,
+        createdAt: now,
+        updatedAt: now
+      });
+      scheduleAttempt(delivery.id, 0);
+    }
+  } catch (error) {
+    console.error(`Webhooks for enquiry ${enquiry.id} could not be queued:`, error);
+  }
+};
+
+// Newest first, for the admin delivery log
+export const listWebhookDeliveries = async () => {
+  await resumePendingDeliveries();
+  return (await store.list()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Send a delivered or failed event again, keeping its earlier attempts in the log.
+// A delivery that already used up its retries gets one more attempt.
+export const redeliverWebhook = async (id: string) => {
+  const delivery = await store.update(id, current => ({
+    ...current,
+    status: 'pending',
+    nextAttemptAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  }));
+  if (delivery) scheduleAttempt(id, 0);
+  return delivery;
+};
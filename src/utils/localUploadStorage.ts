@@ -0,0 +1,32 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { UploadStorage } from './uploadStorage';
+
+// Files on the server's own disk - fine for a single instance with a persistent volume
+export const createLocalUploadStorage = ({ directory }: { directory: string }): UploadStorage => {
+  // Keys are generated by the upload store, but never let one step outside the directory
+  const resolve = (key: string) => {
+    const file = path.resolve(directory, key);
+    if (!file.startsWith(`${directory}${path.sep}`)) {
+      throw new Error(`Upload key "${key}" is outside ${directory}`);
+    }
+    return file;
+  };
+
+  return {
+    name: 'local',
+    put: async (key, data) => {
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, data);
+    },
+    get: async (key) => {
+      try {
+        return await fs.readFile(resolve(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+        throw error;
+      }
+    }
+  };
+};
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getMailAddress, renderMimeMessage, type MailMessage } from './mailMessage';
+
+const INJECTED_NAME = 'Bob\r\nBcc: x@evil.com\r\n\r\nBUY NOW';
+
+const message: MailMessage = {
+  from: 'Luminare Studio <hello@luminare.studio>',
+  to: ['Studio <studio@luminare.studio>'],
+  subject: 'New enquiry',
+  text: 'Hello'
+};
+
+// Header lines of a rendered message: everything before the first blank line
+const renderHeaders = (overrides: Partial<MailMessage>) =>
+  renderMimeMessage({ ...message, ...overrides }).split('\r\n\r\n')[0].split('\r\n');
+
+const HEADER_NAMES = ['From', 'To', 'Reply-To', 'Subject', 'Date', 'Message-ID', 'List-Unsubscribe', 'MIME-Version', 'Content-Type', 'Content-Transfer-Encoding'];
+
+const assertNoInjectedHeaders = (headers: string[]) => {
+  headers.forEach(line => assert.ok(HEADER_NAMES.includes(line.split(':')[0]), `unexpected header line: ${line}`));
+  assert.ok(headers.every(line => !/^bcc:/i.test(line)));
+};
+
+describe('renderMimeMessage', () => {
+  it('keeps a display name with line breaks on its own header line', () => {
+    const headers = renderHeaders({ to: [`${INJECTED_NAME} <visitor@example.com>`], replyTo: `${INJECTED_NAME} <visitor@example.com>` });
+
+    assertNoInjectedHeaders(headers);
+    assert.ok(headers.includes('To: "BobBcc: x@evil.comBUY NOW" <visitor@example.com>'));
+  });
+
+  it('strips line breaks from mailboxes without a display name', () => {
+    const headers = renderHeaders({ to: ['visitor@example.com\r\nBcc: x@evil.com'], replyTo: 'visitor@example.com\nBcc: x@evil.com' });
+
+    assertNoInjectedHeaders(headers);
+  });
+
+  it('strips line breaks from the subject and custom headers', () => {
+    const headers = renderHeaders({
+      subject: `Enquiry from ${INJECTED_NAME}`,
+      headers: { 'List-Unsubscribe': '<https://luminare.studio/unsubscribe>\r\nBcc: x@evil.com' }
+    });
+
+    assertNoInjectedHeaders(headers);
+    assert.ok(headers.includes('Subject: Enquiry from BobBcc: x@evil.comBUY NOW'));
+  });
+
+  it('keeps non-ASCII names encoded on one line', () => {
+    const headers = renderHeaders({ replyTo: 'Zoë\r\nBcc: x@evil.com <zoe@example.com>' });
+
+    assertNoInjectedHeaders(headers);
+    assert.ok(headers.some(line => /^Reply-To: =\?UTF-8\?B\?[A-Za-z0-9+/=]+\?= <zoe@example.com>$/.test(line)));
+  });
+});
+
+describe('getMailAddress', () => {
+  it('never returns line breaks for SMTP commands', () => {
+    assert.equal(getMailAddress('Bob <visitor@example.com\r\nRCPT TO:<x@evil.com>'), 'visitor@example.comRCPT TO:<x@evil.com');
+    assert.equal(getMailAddress('visitor@example.com\r\nDATA'), 'visitor@example.comDATA');
+  });
+});
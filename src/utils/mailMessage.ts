@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import os from 'os';
+
+// Server-only mail primitives shared by every transport in utils/*MailTransport.ts.
+// Messages are plain data; each transport turns them into whatever its backend needs.
+
+export interface MailAttachment {
+  filename: string;
+  // Full MIME type including parameters, e.g. `text/calendar; method=REQUEST; charset=UTF-8`
+  contentType: string;
+  content: string;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  replyTo?: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+  // Extra headers such as List-Unsubscribe, added as given
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  name: string;
+  send: (message: MailMessage) => Promise<void>;
+}
+
+export class MailDeliveryError extends Error {
+  constructor(transport: string, message: string) {
+    super(`${transport} mail delivery failed: ${message}`);
+    this.name = 'MailDeliveryError';
+  }
+}
+
+// A line break in a header value starts a new header (or the body), so every value that
+// goes into a header or an SMTP command loses its C0 and C1 control characters first
+export const stripControlCharacters = (value: string) => value.replace(/[\u0000-\u001f\u007f-\u009f]/g, '');
+
+// Bare address of a mailbox written as `Name <address>` or `address`
+export const getMailAddress = (mailbox: string) => {
+  const match = mailbox.match(/<([^>]+)>/);
+  return stripControlCharacters(match ? match[1] : mailbox).trim();
+};
+
+// RFC 2047 encoded-word for headers that are not plain ASCII
+const encodeHeader = (value: string) => {
+  const text = stripControlCharacters(value);
+  return /^[\x20-\x7e]*$/.test(text) ? text : `=?UTF-8?B?${Buffer.from(text, 'utf8').toString('base64')}?=`;
+};
+
+// Display names are encoded, addresses are left alone
+const encodeMailbox = (value: string) => {
+  const mailbox = stripControlCharacters(value);
+  const match = mailbox.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) return mailbox.trim();
+  const name = match[1].replace(/^"|"$/g, '');
+  return `${/^[\x20-\x7e]*$/.test(name) ? `"${name.replace(/"/g, '\\"')}"` : encodeHeader(name)} <${match[2]}>`;
+};
+
+// Base64 body wrapped at 76 characters per line
+const encodeBody = (content: string) =>
+  (Buffer.from(content, 'utf8').toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+
+const bodyPart = (contentType: string, content: string) => [
+  `Content-Type: ${contentType}; charset=UTF-8`,
+  'Content-Transfer-Encoding: base64',
+  '',
+  encodeBody(content)
+].join('\r\n');
+
+const attachmentPart = ({ filename, contentType, content }: MailAttachment) => {
+  const name = encodeHeader(filename).replace(/"/g, '');
+  return [
+    `Content-Type: ${stripControlCharacters(contentType)}; name="${name}"`,
+    `Content-Disposition: attachment; filename="${name}"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(content)
+  ].join('\r\n');
+};
+
+const multipart = (subtype: string, parts: string[]) => {
+  const boundary = `=_${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    '',
+    ...parts.flatMap(part => [`--${boundary}`, part]),
+    `--${boundary}--`
+  ].join('\r\n');
+};
+
+// Text body, or text and HTML alternatives, followed by any attachments
+const renderContent = (message: MailMessage) => {
+  const body = message.html
+    ? multipart('alternative', [bodyPart('text/plain', message.text), bodyPart('text/html', message.html)])
+    : bodyPart('text/plain', message.text);
+
+  if (!message.attachments?.length) return body;
+  return multipart('mixed', [body, ...message.attachments.map(attachmentPart)]);
+};
+
+// Render a complete RFC 5322 message with CRLF line endings, as written to .eml files
+// and sent over SMTP DATA
+export const renderMimeMessage = (message: MailMessage, date = new Date()): string => {
+  const domain = getMailAddress(message.from).split('@')[1] ?? os.hostname();
+  const headers = [
+    `From: ${encodeMailbox(message.from)}`,
+    `To: ${message.to.map(encodeMailbox).join(', ')}`,
+    ...(message.replyTo ? [`Reply-To: ${encodeMailbox(message.replyTo)}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    ...Object.entries(message.headers ?? {}).map(([name, value]) => `${name.replace(/[^\x21-\x39\x3b-\x7e]/g, '')}: ${encodeHeader(value)}`),
+    'MIME-Version: 1.0'
+  ];
+
+  return [...headers, renderContent(message), ''].join('\r\n');
+};
@@ -0,0 +1,36 @@
+import { getStudioConfig } from './studioConfig';
+
+// Server-only: sender, studio address and the HTML shell shared by every email
+// the site sends.
+
+export const STUDIO_NAME = 'Luminare Studio';
+
+// STUDIO_EMAIL overrides the public address in /content/studio.json, e.g. for staging
+export const getStudioEmail = () => process.env.STUDIO_EMAIL ?? getStudioConfig().email;
+export const getSender = () => process.env.MAIL_FROM ?? `${STUDIO_NAME} <${getStudioEmail()}>`;
+
+// Base for links in emails. SITE_URL wins, so links never point at an internal host
+// a proxy forwarded the request to.
+export const getSiteUrl = (request: Request) => (process.env.SITE_URL ?? new URL(request.url).origin).replace(/\/+$/, '');
+
+export const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Visitors' line breaks survive in HTML mail
+export const toHtmlParagraphs = (value: string) =>
+  value.split(/\n{2,}/).map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`).join('\n');
+
+export const renderLayout = (title: string, body: string) => `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f5f4;font-family:Georgia,serif;color:#292524;">
+    <div style="max-width:560px;margin:0 auto;padding:32px;background:#ffffff;border-radius:8px;">
+      <h1 style="margin:0 0 16px;font-size:22px;font-weight:normal;">${escapeHtml(title)}</h1>
+      ${body}
+      <p style="margin-top:32px;font-size:12px;color:#78716c;">${STUDIO_NAME}</p>
+    </div>
+  </body>
+</html>`;
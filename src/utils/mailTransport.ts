@@ -0,0 +1,55 @@
+import path from 'path';
+import { createFileMailTransport } from './fileMailTransport';
+import { createHttpMailTransport } from './httpMailTransport';
+import type { MailTransport } from './mailMessage';
+import { createSmtpTransport } from './smtpMailTransport';
+
+// Server-only: picks the mail transport from the environment.
+//   MAIL_TRANSPORT=smtp  SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS
+//   MAIL_TRANSPORT=http  MAIL_API_URL, MAIL_API_KEY
+//   MAIL_TRANSPORT=file  MAIL_OUTBOX_DIR (default .mail-outbox) - the default
+
+const requireEnv = (name: string) => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set when MAIL_TRANSPORT=${process.env.MAIL_TRANSPORT}`);
+  }
+  return value;
+};
+
+const createMailTransport = (): MailTransport => {
+  const transport = process.env.MAIL_TRANSPORT ?? 'file';
+
+  switch (transport) {
+    case 'smtp': {
+      const secure = process.env.SMTP_SECURE === 'true';
+      return createSmtpTransport({
+        host: requireEnv('SMTP_HOST'),
+        port: Number(process.env.SMTP_PORT ?? (secure ? 465 : 587)),
+        secure,
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS
+      });
+    }
+    case 'http':
+      return createHttpMailTransport({
+        url: requireEnv('MAIL_API_URL'),
+        apiKey: process.env.MAIL_API_KEY
+      });
+    case 'file':
+      return createFileMailTransport({
+        directory: path.resolve(process.cwd(), process.env.MAIL_OUTBOX_DIR ?? '.mail-outbox')
+      });
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}", expected smtp, http or file`);
+  }
+};
+
+let cachedTransport: MailTransport | null = null;
+
+export const getMailTransport = (): MailTransport => {
+  if (!cachedTransport) {
+    cachedTransport = createMailTransport();
+  }
+  return cachedTransport;
+};
@@ -0,0 +1,27 @@
+// Server-only: identify an uploaded file by its leading bytes. Browsers report
+// whatever the file name suggests, so only this decides what is accepted.
+
+const startsWith = (data: Buffer, signature: number[], offset = 0) =>
+  data.length >= offset + signature.length && signature.every((byte, index) => data[offset + index] === byte);
+
+// ISO base media brands used by HEIC/HEIF photos (iPhone camera roll and friends)
+const HEIF_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'hevm', 'hevs', 'mif1', 'msf1'];
+
+const isHeif = (data: Buffer) => {
+  if (data.length < 16 || data.toString('latin1', 4, 8) !== 'ftyp') return false;
+  // Major brand, then compatible brands after the minor version
+  const boxSize = Math.min(data.readUInt32BE(0), data.length);
+  const brands = [data.toString('latin1', 8, 12)];
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+    brands.push(data.toString('latin1', offset, offset + 4));
+  }
+  return brands.some(brand => HEIF_BRANDS.includes(brand));
+};
+
+export const sniffMimeType = (data: Buffer): string | undefined => {
+  if (startsWith(data, [0x25, 0x50, 0x44, 0x46, 0x2d])) return 'application/pdf';                   // %PDF-
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (isHeif(data)) return 'image/heic';
+  return undefined;
+};
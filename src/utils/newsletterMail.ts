@@ -0,0 +1,80 @@
+import type { Subscriber } from '../types/newsletter';
+import type { MailMessage } from './mailMessage';
+import { getMailTransport } from './mailTransport';
+import { escapeHtml, getSender, getStudioEmail, renderLayout, STUDIO_NAME } from './mailTemplate';
+import { createNewsletterToken } from './newsletterTokens';
+
+// Server-only: the double opt-in emails. Both go through the same transport as
+// contact enquiries; `siteUrl` is where the links in them point.
+
+export const getConfirmUrl = (siteUrl: string, subscriber: Subscriber) =>
+  `${siteUrl}/api/newsletter/confirm?token=${createNewsletterToken(subscriber.id, 'confirm')}`;
+
+export const getUnsubscribeUrl = (siteUrl: string, subscriber: Subscriber) =>
+  `${siteUrl}/api/newsletter/unsubscribe?token=${createNewsletterToken(subscriber.id, 'unsubscribe')}`;
+
+// RFC 8058: mail clients show their own unsubscribe button and POST to the link
+const unsubscribeHeaders = (unsubscribeUrl: string) => ({
+  'List-Unsubscribe': `<${unsubscribeUrl}>`,
+  'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+});
+
+export const renderConfirmationEmail = (subscriber: Subscriber, siteUrl: string): MailMessage => {
+  const confirmUrl = getConfirmUrl(siteUrl, subscriber);
+  return {
+    from: getSender(),
+    to: [subscriber.email],
+    replyTo: getStudioEmail(),
+    subject: `Please confirm your ${STUDIO_NAME} newsletter subscription`,
+    text: [
+      'Hello,',
+      '',
+      `Someone - hopefully you - asked to receive the ${STUDIO_NAME} newsletter at this address.`,
+      'Please confirm by opening this link within seven days:',
+      '',
+      confirmUrl,
+      '',
+      'If this was not you, ignore this email and you will not hear from us again.',
+      '',
+      'Warm regards,',
+      STUDIO_NAME
+    ].join('\n'),
+    html: renderLayout('Confirm your subscription', [
+      `<p>Someone - hopefully you - asked to receive the ${STUDIO_NAME} newsletter at this address.</p>`,
+      `<p><a href="${escapeHtml(confirmUrl)}" style="display:inline-block;padding:10px 20px;border-radius:999px;background:#44403c;color:#ffffff;text-decoration:none;">Confirm subscription</a></p>`,
+      '<p style="color:#78716c;">The link works for seven days. If this was not you, ignore this email and you will not hear from us again.</p>'
+    ].join('\n'))
+  };
+};
+
+export const renderWelcomeEmail = (subscriber: Subscriber, siteUrl: string): MailMessage => {
+  const unsubscribeUrl = getUnsubscribeUrl(siteUrl, subscriber);
+  return {
+    from: getSender(),
+    to: [subscriber.email],
+    replyTo: getStudioEmail(),
+    subject: `Welcome to the ${STUDIO_NAME} newsletter`,
+    text: [
+      'Hello,',
+      '',
+      'Your subscription is confirmed. Expect new projects, design notes and studio news a few times a year.',
+      '',
+      'Warm regards,',
+      STUDIO_NAME,
+      '',
+      `Unsubscribe at any time: ${unsubscribeUrl}`
+    ].join('\n'),
+    html: renderLayout('You are subscribed', [
+      '<p>Your subscription is confirmed. Expect new projects, design notes and studio news a few times a year.</p>',
+      `<p>Warm regards,<br>${STUDIO_NAME}</p>`,
+      `<p style="font-size:12px;color:#78716c;"><a href="${escapeHtml(unsubscribeUrl)}" style="color:#78716c;">Unsubscribe</a> at any time.</p>`
+    ].join('\n')),
+    headers: unsubscribeHeaders(unsubscribeUrl)
+  };
+};
+
+export const sendConfirmationEmail = (subscriber: Subscriber, siteUrl: string) =>
+  getMailTransport().send(renderConfirmationEmail(subscriber, siteUrl));
+
+export const sendWelcomeEmail = (subscriber: Subscriber, siteUrl: string) =>
+  getMailTransport().send(renderWelcomeEmail(subscriber, siteUrl));
@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import { NewsletterSource, Subscriber, SUBSCRIBER_STATUSES, SubscriberStatus } from '../types/newsletter';
+import { toCsv } from './csv';
+import { createJsonLinesStore } from './jsonLinesStore';
+
+// Server-only: newsletter subscribers. Signing up only records a pending subscriber;
+// the confirmation link activates it, so nobody is subscribed by someone else.
+
+const store = createJsonLinesStore<Subscriber>('newsletter-subscribers');
+
+export const isSubscriberStatus = (value: unknown): value is SubscriberStatus =>
+  typeof value === 'string' && (SUBSCRIBER_STATUSES as readonly string[]).includes(value);
+
+// Record a signup. Someone already subscribed needs no new confirmation email;
+// a pending or unsubscribed address goes (back) to pending and gets one.
+export const requestSubscription = (email: string, source: NewsletterSource, now = new Date()) =>
+  store.transact((subscribers) => {
+    const address = email.toLowerCase();
+    const timestamp = now.toISOString();
+    const existing = subscribers.find(subscriber => subscriber.email === address);
+
+    if (existing?.status === 'subscribed') {
+      return { result: { subscriber: existing, needsConfirmation: false } };
+    }
+
+    const subscriber: Subscriber = existing
+      ? { ...existing, status: 'pending', source, updatedAt: timestamp }
+      : { id: crypto.randomUUID(), email: address, status: 'pending', source, createdAt: timestamp, updatedAt: timestamp };
+    return {
+      records: existing
+        ? subscribers.map(record => (record.id === existing.id ? subscriber : record))
+        : [...subscribers, subscriber],
+      result: { subscriber, needsConfirmation: true }
+    };
+  });
+
+// Activate a pending subscriber. An old confirmation link never undoes an unsubscribe.
+export const confirmSubscription = (id: string, now = new Date()) =>
+  store.transact((subscribers) => {
+    const existing = subscribers.find(subscriber => subscriber.id === id);
+    if (!existing || existing.status !== 'pending') {
+      return { result: { subscriber: existing, isNewlyConfirmed: false } };
+    }
+
+    const timestamp = now.toISOString();
+    const subscriber: Subscriber = { ...existing, status: 'subscribed', confirmedAt: timestamp, updatedAt: timestamp };
+    return {
+      records: subscribers.map(record => (record.id === id ? subscriber : record)),
+      result: { subscriber, isNewlyConfirmed: true }
+    };
+  });
+
+export const unsubscribe = (id: string, now = new Date()) =>
+  store.update(id, subscriber => subscriber.status === 'unsubscribed' ? subscriber : {
+    ...subscriber,
+    status: 'unsubscribed',
+    unsubscribedAt: now.toISOString(),
+    updatedAt: now.toISOString()
+  });
+
+// Newest first
+export const listSubscribers = async (status?: SubscriberStatus) =>
+  (await store.list())
+    .filter(subscriber => !status || subscriber.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+// Each row carries its own unsubscribe link for whichever tool sends the newsletter
+type SubscriberCsvRow = Subscriber & { unsubscribeUrl: string };
+
+const CSV_COLUMNS: (keyof SubscriberCsvRow)[] = [
+  'email', 'status', 'source', 'createdAt', 'confirmedAt', 'unsubscribedAt', 'unsubscribeUrl', 'id'
+];
+
+export const subscribersToCsv = (subscribers: Subscriber[], getUnsubscribeUrl: (subscriber: Subscriber) => string) =>
+  toCsv(CSV_COLUMNS, subscribers.map(subscriber => ({ ...subscriber, unsubscribeUrl: getUnsubscribeUrl(subscriber) })));
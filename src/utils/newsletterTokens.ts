@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+
+// Server-only: signed links for the newsletter emails. A token names the subscriber
+// and what it may do, signed with NEWSLETTER_SECRET, so nothing has to be stored
+// per link. Confirmation links expire; unsubscribe links work for as long as
+// emails carrying them may be read.
+
+export type NewsletterTokenPurpose = 'confirm' | 'unsubscribe';
+
+interface TokenPayload {
+  sub: string;
+  purpose: NewsletterTokenPurpose;
+  // Expiry in seconds since the epoch
+  exp?: number;
+}
+
+export const CONFIRMATION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const getSecret = () => {
+  const secret = process.env.NEWSLETTER_SECRET;
+  if (!secret) {
+    throw new Error('NEWSLETTER_SECRET must be set to sign newsletter links');
+  }
+  return secret;
+};
+
+const sign = (payload: string) => crypto.createHmac('sha256', getSecret()).update(payload).digest('base64url');
+
+export const createNewsletterToken = (subscriberId: string, purpose: NewsletterTokenPurpose, now = new Date()) => {
+  const payload: TokenPayload = {
+    sub: subscriberId,
+    purpose,
+    ...(purpose === 'confirm' ? { exp: Math.floor(now.getTime() / 1000) + CONFIRMATION_TTL_SECONDS } : {})
+  };
+  const encoded = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+};
+
+// The subscriber id a valid, unexpired token was issued for
+export const verifyNewsletterToken = (
+  token: string,
+  purpose: NewsletterTokenPurpose,
+  now = new Date()
+): string | undefined => {
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) return undefined;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return undefined;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as TokenPayload;
+    if (payload.purpose !== purpose || typeof payload.sub !== 'string') return undefined;
+    if (payload.exp !== undefined && payload.exp < now.getTime() / 1000) return undefined;
+    return payload.sub;
+  } catch {
+    return undefined;
+  }
+};
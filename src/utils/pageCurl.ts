@@ -0,0 +1,240 @@
+import type { InteriorTopic } from '../types/portfolio';
+
+export const PAGE_CURL_CONFIG = {
+  // Mesh resolution: the curl bends along the width, the tilt along the height
+  SEGMENTS_X: 32,
+  SEGMENTS_Y: 8,
+  // Radians the outer edge leads the spine while lifting, and trails it while landing
+  CURL_STRENGTH: 0.9,
+  // Extra curl at the bottom corner, which leads the turn
+  CORNER_TILT: 0.35,
+  // Lowest shade of a face turned away from the light
+  MIN_SHADE: 0.72,
+  // Texture pixels per CSS pixel, capped to keep uploads small
+  MAX_TEXTURE_SCALE: 2
+};
+
+// Light direction for the page shading, from the upper right in front of the book
+const LIGHT = (() => {
+  const length = Math.hypot(0.4, 0.5, 1);
+  return { x: 0.4 / length, y: 0.5 / length, z: 1 / length };
+})();
+
+// Rotation of the page at `u` (0 at the spine, 1 at the outer edge) and `v` (-1 bottom to 1 top)
+// when the spine has turned by `angle` radians. Flat at rest, at either side of the book.
+const getCurlAngle = (angle: number, u: number, v: number) => {
+  const { CURL_STRENGTH, CORNER_TILT } = PAGE_CURL_CONFIG;
+  const bend = CURL_STRENGTH * Math.sin(2 * angle) * (1 - CORNER_TILT * v) * u;
+  return Math.max(0, Math.min(Math.PI, angle + bend));
+};
+
+// Deform a plane of `width` x `height` with the default PlaneGeometry vertex layout into the
+// curl of a page turned by `angle` radians (0 unturned, PI lying on the left). The spine sits
+// at x = -width / 2, and each row is integrated along its width so the paper never stretches.
+export const applyPageCurl = (positions: Float32Array, width: number, height: number, angle: number) => {
+  const { SEGMENTS_X, SEGMENTS_Y } = PAGE_CURL_CONFIG;
+  const segmentWidth = width / SEGMENTS_X;
+
+  for (let row = 0; row <= SEGMENTS_Y; row++) {
+    const y = height / 2 - (row * height) / SEGMENTS_Y;
+    const v = y / (height / 2);
+    let x = -width / 2;
+    let z = 0;
+
+    for (let column = 0; column <= SEGMENTS_X; column++) {
+      if (column > 0) {
+        const segmentAngle = getCurlAngle(angle, (column - 0.5) / SEGMENTS_X, v);
+        x += segmentWidth * Math.cos(segmentAngle);
+        z += segmentWidth * Math.sin(segmentAngle);
+      }
+
+      const index = (row * (SEGMENTS_X + 1) + column) * 3;
+      positions[index] = x;
+      positions[index + 1] = y;
+      positions[index + 2] = z;
+    }
+  }
+};
+
+// Per-vertex shade for the curled page: brighter where the paper faces the light.
+// Both faces share the mesh, so the side of the normal does not matter.
+export const applyPageShading = (normals: Float32Array, colors: Float32Array) => {
+  for (let index = 0; index < normals.length; index += 3) {
+    const facing = Math.abs(normals[index] * LIGHT.x + normals[index + 1] * LIGHT.y + normals[index + 2] * LIGHT.z);
+    const shade = PAGE_CURL_CONFIG.MIN_SHADE + (1 - PAGE_CURL_CONFIG.MIN_SHADE) * facing;
+    colors[index] = shade;
+    colors[index + 1] = shade;
+    colors[index + 2] = shade;
+  }
+};
+
+export const isWebGLAvailable = () => {
+  if (typeof window === 'undefined') return false;
+  try {
+    const canvas = document.createElement('canvas');
+    return Boolean(window.WebGLRenderingContext && (canvas.getContext('webgl2') || canvas.getContext('webgl')));
+  } catch {
+    return false;
+  }
+};
+
+// Theme colours and fonts of the rendered pages, so the textures match the CSS book
+export interface PageTextureStyle {
+  background: string;
+  foreground: string;
+  secondary: string;
+  accent: string;
+  displayFont: string;
+  bodyFont: string;
+}
+
+export const getPageTextureStyle = (root: HTMLElement): PageTextureStyle => {
+  const styles = getComputedStyle(document.documentElement);
+  const readVar = (name: string, fallback: string) => styles.getPropertyValue(name).trim() || fallback;
+  const title = root.querySelector('.page-title');
+  const content = root.querySelector('.page-content p');
+
+  return {
+    background: readVar('--secondary-background', '#F9F8F3'),
+    foreground: readVar('--foreground', '#3B3B3B'),
+    secondary: readVar('--typography-secondary', '#5A5A5A'),
+    accent: readVar('--accent-1', '#C9C8BD'),
+    displayFont: title ? getComputedStyle(title).fontFamily : 'Georgia, serif',
+    bodyFont: content ? getComputedStyle(content).fontFamily : 'system-ui, sans-serif'
+  };
+};
+
+// Resolves to null when the image can't be used in a texture, e.g. without CORS headers
+export const loadTextureImage = (src: string) => new Promise<HTMLImageElement | null>((resolve) => {
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.onload = () => resolve(image);
+  image.onerror = () => resolve(null);
+  image.src = src;
+});
+
+// Break `text` into lines no wider than `maxWidth` in the context's current font
+const wrapText = (context: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && context.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Draw a portfolio page onto `canvas` in the layout of BookPage: year, title and subtitle
+// on top, the round project image on the left and the text, artist and page number on the right
+export const drawPageTexture = (
+  canvas: HTMLCanvasElement,
+  topic: InteriorTopic,
+  pageIndex: number,
+  style: PageTextureStyle,
+  image: HTMLImageElement | null
+) => {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const { width, height } = canvas;
+  const padding = width * 0.06;
+  const unit = height / 100;
+
+  context.fillStyle = style.background;
+  context.fillRect(0, 0, width, height);
+  context.textBaseline = 'top';
+
+  // Year badge
+  context.font = `500 ${unit * 3.4}px ${style.bodyFont}`;
+  const badgeWidth = context.measureText(topic.year).width + unit * 4;
+  context.fillStyle = style.accent;
+  context.beginPath();
+  context.roundRect(padding, padding, badgeWidth, unit * 6, unit * 3);
+  context.fill();
+  context.fillStyle = style.foreground;
+  context.fillText(topic.year, padding + unit * 2, padding + unit * 1.3);
+
+  // Title and subtitle
+  let y = padding + unit * 9;
+  context.font = `300 ${unit * 7}px ${style.displayFont}`;
+  context.fillText(topic.title, padding, y, width - padding * 2);
+  y += unit * 9;
+  context.fillStyle = style.secondary;
+  context.font = `300 ${unit * 4}px ${style.bodyFont}`;
+  context.fillText(topic.subtitle, padding, y, width - padding * 2);
+  y += unit * 7;
+
+  // Two columns below the header
+  const gap = width * 0.04;
+  const columnWidth = (width - padding * 2 - gap) / 2;
+  const areaHeight = height - padding - y;
+
+  // Round image, cropped to cover its circle
+  const diameter = Math.min(columnWidth, areaHeight);
+  const centerX = padding + columnWidth / 2;
+  const centerY = y + areaHeight / 2;
+  context.save();
+  context.beginPath();
+  context.arc(centerX, centerY, diameter / 2, 0, Math.PI * 2);
+  context.clip();
+  context.fillStyle = style.accent;
+  context.fillRect(centerX - diameter / 2, centerY - diameter / 2, diameter, diameter);
+  if (image) {
+    const crop = Math.min(image.naturalWidth, image.naturalHeight);
+    context.drawImage(
+      image,
+      (image.naturalWidth - crop) / 2,
+      (image.naturalHeight - crop) / 2,
+      crop,
+      crop,
+      centerX - diameter / 2,
+      centerY - diameter / 2,
+      diameter,
+      diameter
+    );
+  }
+  context.restore();
+
+  // Text column: as many lines of the description as fit above the attribution
+  const textX = padding + columnWidth + gap;
+  const lineHeight = unit * 5.2;
+  const attributionHeight = unit * 12;
+  context.font = `300 ${unit * 3.4}px ${style.bodyFont}`;
+  context.fillStyle = style.secondary;
+  const maxLines = Math.max(1, Math.floor((areaHeight - attributionHeight) / lineHeight));
+  const lines = wrapText(context, topic.content, columnWidth).slice(0, maxLines);
+  let textY = centerY - (lines.length * lineHeight + attributionHeight) / 2;
+  lines.forEach((line) => {
+    context.fillText(line, textX, textY);
+    textY += lineHeight;
+  });
+
+  // Attribution: rule, artist and page number
+  textY += unit * 2;
+  context.fillStyle = style.accent;
+  context.fillRect(textX, textY, columnWidth, Math.max(1, unit * 0.2));
+  textY += unit * 3;
+  context.fillStyle = style.secondary;
+  context.fillText(topic.artist, textX, textY + unit * 1.5, columnWidth - unit * 10);
+
+  const badgeRadius = unit * 3.6;
+  const badgeX = textX + columnWidth - badgeRadius;
+  const badgeY = textY + badgeRadius;
+  context.fillStyle = style.accent;
+  context.beginPath();
+  context.arc(badgeX, badgeY, badgeRadius, 0, Math.PI * 2);
+  context.fill();
+  context.fillStyle = style.foreground;
+  context.font = `500 ${unit * 3.2}px ${style.bodyFont}`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillText(String(pageIndex + 1), badgeX, badgeY);
+  context.textAlign = 'start';
+  context.textBaseline = 'top';
+};
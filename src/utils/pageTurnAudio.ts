@@ -0,0 +1,132 @@
+// Synthesised paper sound for page turns: a burst of filtered noise, so no audio files are
+// shipped. Browsers only let audio start after the visitor interacts with the page, so the
+// manager creates its AudioContext lazily and resumes it on the first gesture.
+
+export const PAGE_TURN_AUDIO_CONFIG = {
+  // Overall loudness at the fastest flips; turns stay subtle
+  MAX_VOLUME: 0.22,
+  MIN_VOLUME: 0.08,
+  // Playback rate of the noise, which raises the pitch of quicker turns
+  MIN_RATE: 0.75,
+  MAX_RATE: 1.35,
+  // Length of the swish in seconds: slow turns rustle longer
+  MAX_DURATION: 0.42,
+  MIN_DURATION: 0.16,
+  // Centre of the band-pass filter that gives the noise its paper colour, in Hz
+  FILTER_FREQUENCY: 2400,
+  // Sounds closer together than this are merged: a fast scrub is one rustle, not a buzz
+  MIN_INTERVAL_MS: 70
+};
+
+// Events that count as a user gesture for the autoplay policy
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchend'] as const;
+
+type AudioContextConstructor = typeof AudioContext;
+
+const getAudioContextConstructor = (): AudioContextConstructor | undefined =>
+  typeof window === 'undefined'
+    ? undefined
+    : window.AudioContext ?? (window as Window & { webkitAudioContext?: AudioContextConstructor }).webkitAudioContext;
+
+const lerp = (from: number, to: number, amount: number) => from + (to - from) * amount;
+
+class PageTurnAudio {
+  private context: AudioContext | null = null;
+  private noise: AudioBuffer | null = null;
+  private isEnabled = false;
+  private lastPlayedAt = 0;
+
+  private readonly unlock = () => {
+    this.context?.resume().catch(() => undefined);
+    this.removeUnlockListeners();
+  };
+
+  get isSupported() {
+    return Boolean(getAudioContextConstructor());
+  }
+
+  // Turning sound on from a click unlocks audio straight away; restored from storage it
+  // waits for the next gesture
+  setEnabled(isEnabled: boolean) {
+    this.isEnabled = isEnabled;
+    if (!isEnabled) {
+      this.removeUnlockListeners();
+      this.context?.suspend().catch(() => undefined);
+      return;
+    }
+
+    const context = this.getContext();
+    if (!context) return;
+    if (context.state !== 'running') {
+      context.resume().catch(() => undefined);
+      UNLOCK_EVENTS.forEach((event) => window.addEventListener(event, this.unlock, { capture: true, passive: true }));
+    }
+  }
+
+  // `speed` runs from 0 for a slow, deliberate turn to 1 for the fastest flick
+  playPageTurn(speed: number) {
+    const context = this.context;
+    if (!this.isEnabled || !context || context.state !== 'running') return;
+
+    const now = performance.now();
+    if (now - this.lastPlayedAt < PAGE_TURN_AUDIO_CONFIG.MIN_INTERVAL_MS) return;
+    this.lastPlayedAt = now;
+
+    const config = PAGE_TURN_AUDIO_CONFIG;
+    const amount = Math.max(0, Math.min(1, speed));
+    // A touch of randomness so repeated turns don't sound identical
+    const variation = 1 + (Math.random() - 0.5) * 0.08;
+    const duration = lerp(config.MAX_DURATION, config.MIN_DURATION, amount);
+    const volume = lerp(config.MIN_VOLUME, config.MAX_VOLUME, amount);
+    const start = context.currentTime;
+
+    const source = context.createBufferSource();
+    source.buffer = this.getNoise(context);
+    source.playbackRate.value = lerp(config.MIN_RATE, config.MAX_RATE, amount) * variation;
+
+    const filter = context.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.Q.value = 0.8;
+    // The sweep downwards is the paper settling
+    filter.frequency.setValueAtTime(config.FILTER_FREQUENCY * variation, start);
+    filter.frequency.exponentialRampToValueAtTime(config.FILTER_FREQUENCY * 0.45, start + duration);
+
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(volume, start + duration * 0.18);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+
+    source.connect(filter).connect(gain).connect(context.destination);
+    source.start(start, Math.random() * 0.4);
+    source.stop(start + duration);
+  }
+
+  private getContext() {
+    if (!this.context) {
+      const AudioContextClass = getAudioContextConstructor();
+      if (!AudioContextClass) return null;
+      this.context = new AudioContextClass();
+    }
+    return this.context;
+  }
+
+  // One second of white noise, reused by every turn
+  private getNoise(context: AudioContext) {
+    if (!this.noise) {
+      this.noise = context.createBuffer(1, context.sampleRate, context.sampleRate);
+      const samples = this.noise.getChannelData(0);
+      for (let index = 0; index < samples.length; index++) {
+        samples[index] = Math.random() * 2 - 1;
+      }
+    }
+    return this.noise;
+  }
+
+  private removeUnlockListeners() {
+    if (typeof window === 'undefined') return;
+    UNLOCK_EVENTS.forEach((event) => window.removeEventListener(event, this.unlock, { capture: true }));
+  }
+}
+
+// Shared by every book on the page so they use one AudioContext
+export const pageTurnAudio = new PageTurnAudio();
@@ -1,3 +1,21 @@
+// Frame rate below which a second counts as low
+export const LOW_FPS_THRESHOLD = 30;
+
+const lowFpsListeners = new Set<(fps: number) => void>();
+
+// Subscribe to low frame rate reports from any monitor; returns an unsubscribe function
+export const onLowFps = (listener: (fps: number) => void) => {
+  lowFpsListeners.add(listener);
+  return () => {
+    lowFpsListeners.delete(listener);
+  };
+};
+
+export const reportLowFps = (fps: number) => {
+  console.warn(`Low FPS detected: ${fps}. Consider reducing animation complexity.`);
+  lowFpsListeners.forEach((listener) => listener(fps));
+};
+
 // Performance monitoring utility for ScrollTrigger optimizations
 export class PerformanceMonitor {
   private frameCount: number = 0;
@@ -43,10 +61,8 @@ export class PerformanceMonitor {
         this.fpsHistory.reduce((a, b) => a + b, 0) / this.fpsHistory.length;
 
       // Performance warnings
-      if (fps < 30) {
-        console.warn(
-          `Low FPS detected: ${fps}. Consider reducing animation complexity.`
-        );
+      if (fps < LOW_FPS_THRESHOLD) {
+        reportLowFps(fps);
       }
 
       if (avgFps < 45) {
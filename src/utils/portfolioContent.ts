@@ -0,0 +1,60 @@
+import type { InteriorTopic, ProjectCredit } from '../types/portfolio';
+import {
+  ContentFile,
+  loadCollection,
+  optionalString,
+  requireList,
+  requirePublicImage,
+  requireString
+} from './contentCollection';
+
+// Server-only loader for the portfolio collection in /content/portfolio.
+// Validation errors fail `next build` instead of shipping a book with broken pages.
+
+const parseCredits = (source: ContentFile, credits: unknown, artist: string): ProjectCredit[] => {
+  if (credits === undefined) return [{ role: 'Interior Design', name: artist }];
+
+  return requireList(source, credits, 'credits').map((credit, index) => {
+    const { role, name } = (credit ?? {}) as Record<string, unknown>;
+    return {
+      role: requireString(source, role, `credits[${index}].role`),
+      name: requireString(source, name, `credits[${index}].name`)
+    };
+  });
+};
+
+// Validate a parsed JSON document against the InteriorTopic schema
+const parseProject = (source: ContentFile, data: Record<string, unknown>, slug: string): InteriorTopic => {
+  const image = requirePublicImage(source, data.image, 'image');
+  const content = requireString(source, data.content, 'content');
+  const artist = requireString(source, data.artist, 'artist');
+
+  return {
+    slug,
+    title: requireString(source, data.title, 'title'),
+    subtitle: requireString(source, data.subtitle, 'subtitle'),
+    content,
+    scene: requireString(source, data.scene, 'scene'),
+    year: requireString(source, data.year, 'year'),
+    artist,
+    image,
+    gallery: data.gallery === undefined
+      ? [image]
+      : requireList(source, data.gallery, 'gallery').map((item, index) => requirePublicImage(source, item, `gallery[${index}]`)),
+    description: optionalString(source, data.description, 'description') ?? content,
+    credits: parseCredits(source, data.credits, artist)
+  };
+};
+
+let cachedProjects: InteriorTopic[] | null = null;
+
+// Load, validate and order every portfolio project
+export const getPortfolioProjects = (): InteriorTopic[] => {
+  if (!cachedProjects) {
+    cachedProjects = loadCollection('portfolio', parseProject);
+  }
+  return cachedProjects;
+};
+
+export const getPortfolioProject = (slug: string): InteriorTopic | undefined =>
+  getPortfolioProjects().find(project => project.slug === slug);
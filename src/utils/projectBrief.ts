@@ -0,0 +1,157 @@
+import {
+  AREA_UNITS,
+  BRIEF_TIMELINES,
+  BriefField,
+  BriefFieldErrors,
+  BriefFormValues,
+  BUDGET_BANDS,
+  ProjectBrief,
+  ROOM_TYPES
+} from '../types/brief';
+import type { ContactFormValues } from '../types/contact';
+import { validateContactField } from './contactValidation';
+
+// Project brief rules shared by the wizard and the /api/brief route, plus the
+// summary shown on the review step and saved as the enquiry message.
+// Keep this module free of server-only imports.
+
+export const BRIEF_LIMITS = {
+  AREA_MAX: 1000000,
+  STYLES_MAX: 4,
+  NOTES_MAX: 5000
+};
+
+// Wizard steps and the fields each one asks for; the review step asks for nothing
+export const BRIEF_STEPS: { title: string; fields: BriefField[] }[] = [
+  { title: 'Your space', fields: ['roomTypes', 'area', 'areaUnit'] },
+  { title: 'Style', fields: ['styles'] },
+  { title: 'Budget & timing', fields: ['budget', 'timeline'] },
+  { title: 'About you', fields: ['notes', 'name', 'email'] },
+  { title: 'Review', fields: [] }
+];
+
+export const EMPTY_BRIEF: BriefFormValues = {
+  roomTypes: [],
+  area: '',
+  areaUnit: 'sqft',
+  budget: '',
+  styles: [],
+  timeline: '',
+  notes: '',
+  name: '',
+  email: ''
+};
+
+const isOption = <T extends object>(options: T, value: unknown): value is keyof T =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(options, value);
+
+// `styleSlugs` lists the portfolio projects that may be picked as styles
+export const validateBriefField = (
+  field: BriefField,
+  values: BriefFormValues,
+  styleSlugs: string[]
+): string | undefined => {
+  switch (field) {
+    case 'roomTypes':
+      if (values.roomTypes.length === 0) return 'Please choose at least one space.';
+      if (!values.roomTypes.every(room => isOption(ROOM_TYPES, room))) return 'Please choose from the listed spaces.';
+      return undefined;
+    case 'area': {
+      const area = Number(values.area);
+      if (!values.area.trim()) return 'Please give an approximate size.';
+      if (!Number.isFinite(area) || area <= 0) return 'Please enter the size as a number.';
+      if (area > BRIEF_LIMITS.AREA_MAX) return 'That seems too large - please check the size.';
+      return undefined;
+    }
+    case 'areaUnit':
+      return isOption(AREA_UNITS, values.areaUnit) ? undefined : 'Please choose square feet or square metres.';
+    case 'styles':
+      if (values.styles.length === 0) return 'Please pick at least one style you like.';
+      if (values.styles.length > BRIEF_LIMITS.STYLES_MAX) return `Please pick up to ${BRIEF_LIMITS.STYLES_MAX} styles.`;
+      if (!values.styles.every(style => styleSlugs.includes(style))) return 'Please pick styles from our portfolio.';
+      return undefined;
+    case 'budget':
+      return isOption(BUDGET_BANDS, values.budget) ? undefined : 'Please choose a budget range.';
+    case 'timeline':
+      return isOption(BRIEF_TIMELINES, values.timeline) ? undefined : 'Please tell us when you would like to start.';
+    case 'notes':
+      if (values.notes.length > BRIEF_LIMITS.NOTES_MAX) return `Please keep your notes under ${BRIEF_LIMITS.NOTES_MAX} characters.`;
+      return undefined;
+    case 'name':
+    case 'email':
+      return validateContactField(field, values[field]);
+  }
+};
+
+export const validateBriefFields = (fields: BriefField[], values: BriefFormValues, styleSlugs: string[]) => {
+  const errors: BriefFieldErrors = {};
+  fields.forEach(field => {
+    const error = validateBriefField(field, values, styleSlugs);
+    if (error) errors[field] = error;
+  });
+  return errors;
+};
+
+export type BriefValidationResult =
+  | { success: true; contact: Pick<ContactFormValues, 'name' | 'email'>; brief: ProjectBrief }
+  | { success: false; errors: BriefFieldErrors };
+
+const readString = (input: Record<string, unknown>, field: string) => {
+  const value = input[field];
+  return typeof value === 'string' ? value.trim() : '';
+};
+
+const readList = (input: Record<string, unknown>, field: string) => {
+  const value = input[field];
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+};
+
+// Validate an untrusted payload into the contact details and the stored brief
+export const validateBrief = (input: unknown, styleSlugs: string[]): BriefValidationResult => {
+  const source = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const values = {
+    roomTypes: Array.from(new Set(readList(source, 'roomTypes'))),
+    area: readString(source, 'area'),
+    areaUnit: readString(source, 'areaUnit'),
+    budget: readString(source, 'budget'),
+    styles: Array.from(new Set(readList(source, 'styles'))),
+    timeline: readString(source, 'timeline'),
+    notes: readString(source, 'notes'),
+    name: readString(source, 'name'),
+    email: readString(source, 'email')
+  } as BriefFormValues;
+
+  const errors = validateBriefFields(Object.keys(EMPTY_BRIEF) as BriefField[], values, styleSlugs);
+  if (Object.keys(errors).length > 0) return { success: false, errors };
+
+  return {
+    success: true,
+    contact: { name: values.name, email: values.email },
+    brief: {
+      roomTypes: values.roomTypes,
+      area: Number(values.area),
+      areaUnit: values.areaUnit,
+      budget: values.budget as ProjectBrief['budget'],
+      styles: values.styles,
+      timeline: values.timeline as ProjectBrief['timeline'],
+      notes: values.notes
+    }
+  };
+};
+
+// Label/value rows for the review step and the stored enquiry message.
+// `styleTitles` maps portfolio slugs to the titles shown in the book.
+export const getBriefSummary = (brief: ProjectBrief, styleTitles: Record<string, string>) => [
+  { label: 'Spaces', value: brief.roomTypes.map(room => ROOM_TYPES[room]).join(', ') },
+  { label: 'Size', value: `${brief.area.toLocaleString('en-US')} ${AREA_UNITS[brief.areaUnit]}` },
+  { label: 'Styles', value: brief.styles.map(style => styleTitles[style] ?? style).join(', ') },
+  { label: 'Budget', value: BUDGET_BANDS[brief.budget] },
+  { label: 'Timeline', value: BRIEF_TIMELINES[brief.timeline] },
+  ...(brief.notes ? [{ label: 'Notes', value: brief.notes }] : [])
+];
+
+export const formatBriefMessage = (brief: ProjectBrief, styleTitles: Record<string, string>) => [
+  'Project brief',
+  '',
+  ...getBriefSummary(brief, styleTitles).map(({ label, value }) => `${label}: ${value}`)
+].join('\n');
@@ -0,0 +1,376 @@
+// QR Code Model 2 encoder (ISO/IEC 18004) for text in byte mode, so print collateral
+// gets its codes from the site instead of an online generator. Picks the smallest
+// version that fits, then the mask with the lowest penalty. No browser or node APIs.
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrCode {
+  version: number;
+  size: number;
+  // modules[y][x], true for dark
+  modules: boolean[][];
+}
+
+const ERROR_CORRECTION_ORDER: QrErrorCorrection[] = ['L', 'M', 'Q', 'H'];
+
+// Two bits written into the format information
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Error correction codewords per block and number of blocks, indexed by version (0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+};
+
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0
+];
+
+export class QrCapacityError extends Error {
+  constructor(bytes: number, errorCorrection: QrErrorCorrection) {
+    super(`${bytes} bytes do not fit in a QR code at error correction level ${errorCorrection}`);
+    this.name = 'QrCapacityError';
+  }
+}
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+// Modules left for data and error correction once every function pattern is placed
+const getRawDataModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const getDataCodewords = (version: number, level: QrErrorCorrection) =>
+  Math.floor(getRawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[level][version] * ERROR_CORRECTION_BLOCKS[level][version];
+
+// Byte mode character count field width
+const getCountBits = (version: number) => (version <= 9 ? 8 : 16);
+
+const getAlignmentPositions = (version: number) => {
+  if (version === 1) return [];
+  const alignmentCount = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + alignmentCount * 3 + 5) / (alignmentCount * 4 - 4)) * 2;
+  const positions = [6];
+  for (let position = version * 4 + 10; positions.length < alignmentCount; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+};
+
+// GF(2^8) arithmetic with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const multiply = (x: number, y: number) => {
+  let product = 0;
+  for (let i = 7; i >= 0; i--) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d);
+    product ^= ((y >>> i) & 1) * x;
+  }
+  return product;
+};
+
+const getReedSolomonDivisor = (degree: number) => {
+  const divisor = new Array<number>(degree).fill(0);
+  divisor[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < divisor.length; j++) {
+      divisor[j] = multiply(divisor[j], root);
+      if (j + 1 < divisor.length) divisor[j] ^= divisor[j + 1];
+    }
+    root = multiply(root, 0x02);
+  }
+  return divisor;
+};
+
+const getReedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const remainder = new Array<number>(divisor.length).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ (remainder.shift() as number);
+    remainder.push(0);
+    divisor.forEach((coefficient, i) => {
+      remainder[i] ^= multiply(coefficient, factor);
+    });
+  });
+  return remainder;
+};
+
+// Mode, length, data, terminator and padding, as codewords
+const encodeData = (bytes: Uint8Array, version: number, level: QrErrorCorrection) => {
+  const capacity = getDataCodewords(version, level) * 8;
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push(getBit(value, i) ? 1 : 0);
+  };
+
+  append(0b0100, 4);
+  append(bytes.length, getCountBits(version));
+  bytes.forEach(byte => append(byte, 8));
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+};
+
+// Split into blocks, add error correction to each and interleave
+const addErrorCorrection = (data: number[], version: number, level: QrErrorCorrection) => {
+  const blockCount = ERROR_CORRECTION_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = getReedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const blockData = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1));
+    offset += blockData.length;
+    const ecc = getReedSolomonRemainder(blockData, divisor);
+    // Short blocks get a placeholder so every block lines up when interleaving
+    blocks.push([...blockData, ...(i < shortBlockCount ? [0] : []), ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlockCount) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+class QrMatrix {
+  readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  constructor(readonly version: number, readonly size: number) {
+    this.modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    this.isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  }
+
+  private setFunction(x: number, y: number, isDark: boolean) {
+    this.modules[y][x] = isDark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns(level: QrErrorCorrection) {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    [[3, 3], [this.size - 4, 3], [3, this.size - 4]].forEach(([x, y]) => {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          if (x + dx >= 0 && x + dx < this.size && y + dy >= 0 && y + dy < this.size) {
+            this.setFunction(x + dx, y + dy, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    });
+
+    const positions = getAlignmentPositions(this.version);
+    positions.forEach((y, i) => positions.forEach((x, j) => {
+      // Skip the three corners taken by finder patterns
+      const last = positions.length - 1;
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    }));
+
+    // Reserve the format area now; the real bits follow once the mask is known
+    this.drawFormatBits(level, 0);
+    this.drawVersionBits();
+  }
+
+  drawFormatBits(level: QrErrorCorrection, mask: number) {
+    const data = (FORMAT_BITS[level] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, getBit(bits, i));
+    // Always dark
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  private drawVersionBits() {
+    if (this.version < 7) return;
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, getBit(bits, i));
+      this.setFunction(b, a, getBit(bits, i));
+    }
+  }
+
+  // Zigzag up and down two-module columns from the right, skipping the timing column
+  drawCodewords(codewords: number[]) {
+    let bit = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const isUpward = ((right + 1) & 2) === 0;
+          const y = isUpward ? this.size - 1 - vertical : vertical;
+          if (!this.isFunction[y][x] && bit < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[bit >>> 3], 7 - (bit & 7));
+            bit++;
+          }
+        }
+      }
+    }
+  }
+
+  // XOR is its own inverse, so applying a mask twice removes it
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && MASKS[mask](x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  getPenalty() {
+    const { modules, size } = this;
+    let penalty = 0;
+    const lines = [
+      ...modules,
+      ...modules.map((_, x) => modules.map(row => row[x]))
+    ];
+
+    // Runs of five or more modules of one colour
+    lines.forEach(line => {
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++;
+        } else {
+          if (run >= 5) penalty += run - 2;
+          run = 1;
+        }
+      }
+    });
+
+    // 2x2 blocks of one colour
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const colour = modules[y][x];
+        if (colour === modules[y][x + 1] && colour === modules[y + 1][x] && colour === modules[y + 1][x + 1]) penalty += 3;
+      }
+    }
+
+    // Finder-like 1:1:3:1:1 patterns with four light modules on either side
+    const finder = [true, false, true, true, true, false, true];
+    const light = [false, false, false, false];
+    const patterns = [[...finder, ...light], [...light, ...finder]];
+    lines.forEach(line => {
+      for (let i = 0; i + 11 <= size; i++) {
+        patterns.forEach(pattern => {
+          if (pattern.every((isDark, k) => line[i + k] === isDark)) penalty += 40;
+        });
+      }
+    });
+
+    // Distance from an even balance of dark and light, in 5% steps
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+
+    return penalty;
+  }
+}
+
+export const encodeQrCode = (text: string, errorCorrection: QrErrorCorrection = 'M'): QrCode => {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  while (version <= 40 && 4 + getCountBits(version) + bytes.length * 8 > getDataCodewords(version, errorCorrection) * 8) {
+    version++;
+  }
+  if (version > 40) throw new QrCapacityError(bytes.length, errorCorrection);
+
+  // Use a stronger error correction level when it fits in the same version
+  let level = errorCorrection;
+  ERROR_CORRECTION_ORDER.slice(ERROR_CORRECTION_ORDER.indexOf(errorCorrection) + 1).forEach(stronger => {
+    if (4 + getCountBits(version) + bytes.length * 8 <= getDataCodewords(version, stronger) * 8) level = stronger;
+  });
+
+  const matrix = new QrMatrix(version, version * 4 + 17);
+  matrix.drawFunctionPatterns(level);
+  matrix.drawCodewords(addErrorCorrection(encodeData(bytes, version, level), version, level));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  MASKS.forEach((_, mask) => {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(level, mask);
+    const penalty = matrix.getPenalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    matrix.applyMask(mask);
+  });
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(level, bestMask);
+
+  return { version, size: matrix.size, modules: matrix.modules };
+};
+
+// Dark modules as a single path, with the standard four-module quiet zone
+export const renderQrSvg = (qr: QrCode, { margin = 4, dark = '#000000', light = '#ffffff', title = '' } = {}) => {
+  const extent = qr.size + margin * 2;
+  const path = qr.modules.flatMap((row, y) => row.flatMap((isDark, x) =>
+    isDark ? [`M${x + margin},${y + margin}h1v1h-1z`] : []
+  )).join('');
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${extent} ${extent}" shape-rendering="crispEdges"${title ? ' role="img"' : ''}>`,
+    ...(title ? [`<title>${title.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</title>`] : []),
+    `<rect width="100%" height="100%" fill="${light}"/>`,
+    `<path d="${path}" fill="${dark}"/>`,
+    '</svg>'
+  ].join('\n');
+};
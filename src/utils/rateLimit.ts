@@ -0,0 +1,63 @@
+// Server-only sliding-window rate limiter. Hits are kept in memory, so limits are
+// per server instance and reset on restart - enough to stop one visitor or bot
+// from flooding the studio inbox.
+
+export interface RateLimitOptions {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the next request would be allowed
+  retryAfter: number;
+}
+
+const hits = new Map<string, number[]>();
+
+// Record a hit for `key` and report whether it is within the limit
+export const checkRateLimit = (key: string, { limit, windowMs }: RateLimitOptions): RateLimitResult => {
+  const now = Date.now();
+  const recent = (hits.get(key) ?? []).filter(time => now - time < windowMs);
+
+  if (recent.length >= limit) {
+    hits.set(key, recent);
+    return {
+      allowed: false,
+      remaining: 0,
+      retryAfter: Math.ceil((recent[0] + windowMs - now) / 1000)
+    };
+  }
+
+  recent.push(now);
+  hits.set(key, recent);
+
+  // Drop keys whose hits have all expired so the map does not grow forever
+  if (hits.size > 1000) {
+    hits.forEach((times, hitKey) => {
+      if (times.every(time => now - time >= windowMs)) hits.delete(hitKey);
+    });
+  }
+
+  return { allowed: true, remaining: limit - recent.length, retryAfter: 0 };
+};
+
+// Proxies in front of the app that append to X-Forwarded-For, from TRUSTED_PROXY_HOPS
+// (default 1). 0 means the app is reached directly and no forwarding header is trusted.
+const getTrustedProxyHops = () => {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+};
+
+// The visitor's IP address as seen by the outermost trusted proxy. Visitors can send
+// their own X-Forwarded-For, so only the entries our proxies appended - counted from
+// the end - are used; the first entry is whatever the client made up.
+export const getClientIp = (request: Request) => {
+  const hops = getTrustedProxyHops();
+  if (hops === 0) return 'unknown';
+
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  const entries = (forwardedFor ?? '').split(',').map(entry => entry.trim()).filter(Boolean);
+  return entries[entries.length - hops] ?? request.headers.get('x-real-ip') ?? 'unknown';
+};
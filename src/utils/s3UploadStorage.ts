@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import { UploadStorage, UploadStorageError } from './uploadStorage';
+
+// Server-only: S3-compatible object storage (AWS S3, Cloudflare R2, MinIO, ...) over plain
+// fetch with AWS Signature Version 4. Path-style URLs: <endpoint>/<bucket>/<key>.
+
+export interface S3Options {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+// Header names must be lower case
+const signRequest = (options: S3Options, method: string, url: URL, headers: Record<string, string>, payloadHash: string) => {
+  const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const dateStamp = amzDate.slice(0, 8);
+  // fetch sets Host itself from the URL, but it is still signed
+  const sent: Record<string, string> = {
+    ...headers,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate
+  };
+  const signed: Record<string, string> = { ...sent, host: url.host };
+  const names = Object.keys(signed).sort();
+  const signedHeaders = names.join(';');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '',
+    ...names.map(name => `${name}:${signed[name].trim()}`),
+    '',
+    signedHeaders,
+    payloadHash
+  ].join('\n');
+
+  const scope = `${dateStamp}/${options.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${options.secretAccessKey}`, dateStamp), options.region), 's3'), 'aws4_request');
+  const signature = hmac(signingKey, stringToSign).toString('hex');
+
+  return {
+    ...sent,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+};
+
+export const createS3UploadStorage = (options: S3Options): UploadStorage => {
+  const objectUrl = (key: string) => new URL(
+    `${options.endpoint.replace(/\/+$/, '')}/${encodeURIComponent(options.bucket)}/${key.split('/').map(encodeURIComponent).join('/')}`
+  );
+
+  return {
+    name: 's3',
+    put: async (key, data, contentType) => {
+      const url = objectUrl(key);
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: signRequest(options, 'PUT', url, { 'content-type': contentType }, sha256(data)),
+        body: new Uint8Array(data)
+      });
+      if (!response.ok) {
+        throw new UploadStorageError('S3', `PUT ${key} returned ${response.status} ${(await response.text()).slice(0, 200)}`.trim());
+      }
+    },
+    get: async (key) => {
+      const url = objectUrl(key);
+      const response = await fetch(url, { headers: signRequest(options, 'GET', url, {}, sha256('')) });
+      if (response.status === 404) return undefined;
+      if (!response.ok) {
+        throw new UploadStorageError('S3', `GET ${key} returned ${response.status}`);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    }
+  };
+};
@@ -0,0 +1,66 @@
+import type { Service } from '../types/services';
+import type { InteriorTopic } from '../types/portfolio';
+import {
+  ContentFile,
+  fail,
+  loadCollection,
+  requireList,
+  requirePublicImage,
+  requireString,
+  requireStringList
+} from './contentCollection';
+import { getPortfolioProjects } from './portfolioContent';
+
+// Server-only loader for the services catalogue in /content/services.
+// Related projects must name existing portfolio slugs.
+
+const parseService = (source: ContentFile, data: Record<string, unknown>, slug: string): Service => {
+  const portfolioSlugs = new Set(getPortfolioProjects().map(project => project.slug));
+  const relatedProjects = data.relatedProjects === undefined
+    ? []
+    : requireStringList(source, data.relatedProjects, 'relatedProjects');
+
+  relatedProjects.forEach(projectSlug => {
+    if (!portfolioSlugs.has(projectSlug)) {
+      fail(source, `related project "${projectSlug}" does not exist in /content/portfolio`);
+    }
+  });
+
+  return {
+    slug,
+    title: requireString(source, data.title, 'title'),
+    description: requireString(source, data.description, 'description'),
+    image: requirePublicImage(source, data.image, 'image'),
+    overview: requireStringList(source, data.overview, 'overview'),
+    deliverables: requireStringList(source, data.deliverables, 'deliverables'),
+    process: requireList(source, data.process, 'process').map((step, index) => {
+      const { title, description } = (step ?? {}) as Record<string, unknown>;
+      return {
+        title: requireString(source, title, `process[${index}].title`),
+        description: requireString(source, description, `process[${index}].description`)
+      };
+    }),
+    relatedProjects
+  };
+};
+
+let cachedServices: Service[] | null = null;
+
+// Load, validate and order every service
+export const getServices = (): Service[] => {
+  if (!cachedServices) {
+    cachedServices = loadCollection('services', parseService);
+  }
+  return cachedServices;
+};
+
+export const getService = (slug: string): Service | undefined =>
+  getServices().find(service => service.slug === slug);
+
+// Portfolio projects a service links to, in the order the service lists them
+export const getRelatedProjects = (service: Service): InteriorTopic[] => {
+  const projects = getPortfolioProjects();
+  return service.relatedProjects
+    .map(slug => projects.find(project => project.slug === slug))
+    .filter((project): project is InteriorTopic => Boolean(project));
+};
@@ -0,0 +1,166 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { getMailAddress, MailDeliveryError, MailMessage, MailTransport, renderMimeMessage } from './mailMessage';
+
+// Minimal SMTP client on top of node's net/tls: EHLO, STARTTLS, AUTH PLAIN, one
+// message per connection. Enquiry volume is low, so there is no pooling.
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+// Reads complete (possibly multi-line) replies off the socket, one at a time
+const createSession = (initialSocket: net.Socket, timeoutMs: number) => {
+  let socket = initialSocket;
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  let waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  const handleData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let lineEnd = buffer.indexOf('\r\n');
+    while (lineEnd !== -1) {
+      const line = buffer.slice(0, lineEnd);
+      buffer = buffer.slice(lineEnd + 2);
+      lines.push(line);
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), text: lines.map(part => part.slice(4)).join('\n') };
+        lines = [];
+        if (waiting) {
+          waiting.resolve(reply);
+          waiting = null;
+        } else {
+          replies.push(reply);
+        }
+      }
+      lineEnd = buffer.indexOf('\r\n');
+    }
+  };
+
+  const handleError = (error: Error) => {
+    failure = failure ?? error;
+    waiting?.reject(failure);
+    waiting = null;
+  };
+
+  const handleClose = () => handleError(new MailDeliveryError('SMTP', 'connection closed by server'));
+  const handleTimeout = () => socket.destroy(new MailDeliveryError('SMTP', `no reply within ${timeoutMs}ms`));
+
+  const attach = (next: net.Socket) => {
+    socket = next;
+    socket.setTimeout(timeoutMs, handleTimeout);
+    socket.on('data', handleData);
+    socket.on('error', handleError);
+    socket.on('close', handleClose);
+  };
+
+  const detach = () => {
+    socket.setTimeout(0);
+    socket.off('data', handleData);
+    socket.off('error', handleError);
+    socket.off('close', handleClose);
+  };
+
+  attach(initialSocket);
+
+  const read = (): Promise<SmtpReply> => {
+    const reply = replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => {
+      waiting = { resolve, reject };
+    });
+  };
+
+  const expect = async (step: string, expected: number[]) => {
+    const reply = await read();
+    if (!expected.includes(reply.code)) {
+      throw new MailDeliveryError('SMTP', `${step} rejected with ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  };
+
+  return {
+    expect,
+    command: (line: string, expected: number[], step = line.split(' ')[0]) => {
+      socket.write(`${line}\r\n`);
+      return expect(step, expected);
+    },
+    write: (data: string) => socket.write(data),
+    // Hand the connection over to TLS after a successful STARTTLS
+    upgrade: (host: string) => new Promise<void>((resolve, reject) => {
+      detach();
+      const secureSocket = tls.connect({ socket, servername: host }, () => resolve());
+      secureSocket.once('error', reject);
+      attach(secureSocket);
+    }),
+    isSecure: () => socket instanceof tls.TLSSocket,
+    close: () => {
+      detach();
+      socket.on('error', () => {});
+      socket.end();
+    }
+  };
+};
+
+const sendMessage = async (options: SmtpOptions, message: MailMessage) => {
+  const { host, port, secure, user, pass, timeoutMs = 15000 } = options;
+  const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+  const session = createSession(socket, timeoutMs);
+
+  try {
+    await session.expect('greeting', [220]);
+    let ehlo = await session.command(`EHLO ${os.hostname()}`, [250]);
+
+    if (!session.isSecure() && /^STARTTLS\b/im.test(ehlo.text)) {
+      await session.command('STARTTLS', [220]);
+      await session.upgrade(host);
+      ehlo = await session.command(`EHLO ${os.hostname()}`, [250]);
+    }
+
+    if (user) {
+      // Never send credentials in the clear
+      if (!session.isSecure()) {
+        throw new MailDeliveryError('SMTP', `${host} offers no TLS, refusing to send credentials`);
+      }
+      const credentials = Buffer.from(`\0${user}\0${pass ?? ''}`, 'utf8').toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+    }
+
+    await session.command(`MAIL FROM:<${getMailAddress(message.from)}>`, [250], 'MAIL FROM');
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${getMailAddress(recipient)}>`, [250, 251], 'RCPT TO');
+    }
+
+    await session.command('DATA', [354]);
+    // Dot-stuff lines that start with "." so they are not read as the end of data
+    const data = renderMimeMessage(message).replace(/\r\n\./g, '\r\n..');
+    session.write(`${data.startsWith('.') ? `.${data}` : data}\r\n.\r\n`);
+    await session.expect('message', [250]);
+
+    await session.command('QUIT', [221]);
+  } finally {
+    session.close();
+  }
+};
+
+export const createSmtpTransport = (options: SmtpOptions): MailTransport => ({
+  name: 'smtp',
+  send: (message) => sendMessage(options, message)
+});
@@ -0,0 +1,50 @@
+import type { StudioAddress, StudioConfig } from '../types/studio';
+import { EMAIL_PATTERN } from './contactValidation';
+import { ContentFile, fail, loadContentFile, optionalString, requireString } from './contentCollection';
+
+// Server-only loader for the studio's contact details in /content/studio.json
+
+const parseAddress = (source: ContentFile, value: unknown): StudioAddress => {
+  const { street, locality, region, postalCode, country } = (value ?? {}) as Record<string, unknown>;
+  return {
+    street: optionalString(source, street, 'address.street'),
+    locality: requireString(source, locality, 'address.locality'),
+    region: optionalString(source, region, 'address.region'),
+    postalCode: optionalString(source, postalCode, 'address.postalCode'),
+    country: requireString(source, country, 'address.country')
+  };
+};
+
+const parseStudio = (source: ContentFile, data: Record<string, unknown>): StudioConfig => {
+  const email = requireString(source, data.email, 'email');
+  if (!EMAIL_PATTERN.test(email)) {
+    fail(source, `"email" "${email}" is not an email address`);
+  }
+
+  const phone = requireString(source, data.phone, 'phone');
+  if (!/^\+[\d\s()-]+$/.test(phone)) {
+    fail(source, `"phone" "${phone}" must be in international format, starting with +`);
+  }
+
+  const website = optionalString(source, data.website, 'website');
+  if (website && !/^https?:\/\//.test(website)) {
+    fail(source, `"website" "${website}" must start with http:// or https://`);
+  }
+
+  return {
+    name: requireString(source, data.name, 'name'),
+    email,
+    phone,
+    website,
+    address: parseAddress(source, data.address)
+  };
+};
+
+let cachedStudio: StudioConfig | null = null;
+
+export const getStudioConfig = (): StudioConfig => {
+  if (!cachedStudio) {
+    cachedStudio = loadContentFile('studio', parseStudio);
+  }
+  return cachedStudio;
+};
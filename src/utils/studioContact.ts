@@ -0,0 +1,55 @@
+import type { StudioAddress, StudioConfig, VCardVersion } from '../types/studio';
+import { escapeText, foldLine } from './contentLines';
+
+// The studio's contact details as display text, links and vCards, all from
+// /content/studio.json. Shared by the contact section and the /api/studio routes.
+
+export const formatStudioAddress = (address: StudioAddress) => [
+  address.street,
+  address.locality,
+  [address.postalCode, address.region].filter(Boolean).join(' '),
+  address.country
+].filter(Boolean).join(', ');
+
+// tel: URIs allow no spaces or brackets
+export const getTelHref = (phone: string) => `tel:${phone.replace(/[\s()-]/g, '')}`;
+
+export const VCARD_CONTENT_TYPE = 'text/vcard; charset=utf-8';
+
+// vCard 3.0 (RFC 2426) for the widest support, including phone cameras reading the
+// QR code, or 4.0 (RFC 6350) for clients that prefer it
+export const renderVCard = (studio: StudioConfig, version: VCardVersion = '3.0'): string => {
+  const { street, locality, region, postalCode, country } = studio.address;
+  const address = ['', '', street, locality, region, postalCode, country].map(part => escapeText(part ?? '')).join(';');
+  const name = escapeText(studio.name);
+
+  const properties = version === '4.0'
+    ? [
+      'KIND:org',
+      `FN:${name}`,
+      `ORG:${name}`,
+      `EMAIL;TYPE=work:${studio.email}`,
+      `TEL;VALUE=uri;TYPE="work,voice":${getTelHref(studio.phone)}`,
+      `ADR;TYPE=work:${address}`
+    ]
+    : [
+      `N:${name};;;;`,
+      `FN:${name}`,
+      `ORG:${name}`,
+      // Lets Apple Contacts file the card under the company name
+      'X-ABShowAs:COMPANY',
+      `EMAIL;TYPE=INTERNET,WORK:${studio.email}`,
+      `TEL;TYPE=WORK,VOICE:${studio.phone}`,
+      `ADR;TYPE=WORK:${address}`
+    ];
+
+  return [
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    `PRODID:-//${name}//Contact card//EN`,
+    ...properties,
+    ...(studio.website ? [`URL:${studio.website}`] : []),
+    'END:VCARD',
+    ''
+  ].map(foldLine).join('\r\n');
+};
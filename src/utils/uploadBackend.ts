@@ -0,0 +1,49 @@
+import path from 'path';
+import { getDataDirectory } from './jsonLinesStore';
+import { createLocalUploadStorage } from './localUploadStorage';
+import { createS3UploadStorage } from './s3UploadStorage';
+import type { UploadStorage } from './uploadStorage';
+
+// Server-only: where uploaded files are kept, chosen from the environment.
+//   UPLOAD_STORAGE=local  UPLOAD_DIR (default DATA_DIR/uploads) - the default
+//   UPLOAD_STORAGE=s3     S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY
+
+const requireEnv = (name: string) => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set when UPLOAD_STORAGE=${process.env.UPLOAD_STORAGE}`);
+  }
+  return value;
+};
+
+const createUploadStorage = (): UploadStorage => {
+  const storage = process.env.UPLOAD_STORAGE ?? 'local';
+
+  switch (storage) {
+    case 'local':
+      return createLocalUploadStorage({
+        directory: process.env.UPLOAD_DIR
+          ? path.resolve(process.cwd(), process.env.UPLOAD_DIR)
+          : path.join(getDataDirectory(), 'uploads')
+      });
+    case 's3':
+      return createS3UploadStorage({
+        endpoint: requireEnv('S3_ENDPOINT'),
+        region: process.env.S3_REGION ?? 'us-east-1',
+        bucket: requireEnv('S3_BUCKET'),
+        accessKeyId: requireEnv('S3_ACCESS_KEY_ID'),
+        secretAccessKey: requireEnv('S3_SECRET_ACCESS_KEY')
+      });
+    default:
+      throw new Error(`Unknown UPLOAD_STORAGE "${storage}", expected local or s3`);
+  }
+};
+
+let cachedStorage: UploadStorage | null = null;
+
+export const getUploadStorage = (): UploadStorage => {
+  if (!cachedStorage) {
+    cachedStorage = createUploadStorage();
+  }
+  return cachedStorage;
+};
@@ -0,0 +1,59 @@
+// Attachment rules shared by the upload field and the /api/uploads route.
+// The browser checks name, size and reported type to fail fast; the server
+// decides by sniffing the bytes. Keep this module free of server-only imports.
+
+export const UPLOAD_LIMITS = {
+  MAX_BYTES: 15 * 1024 * 1024,
+  MAX_FILES: 6
+};
+
+// Accepted types and the extensions visitors' files may carry
+export const UPLOAD_TYPES: Record<string, { label: string; extensions: string[] }> = {
+  'application/pdf': { label: 'PDF', extensions: ['.pdf'] },
+  'image/jpeg': { label: 'JPEG', extensions: ['.jpg', '.jpeg'] },
+  'image/png': { label: 'PNG', extensions: ['.png'] },
+  'image/heic': { label: 'HEIC', extensions: ['.heic', '.heif'] }
+};
+
+// For the file input's `accept` attribute
+export const UPLOAD_ACCEPT = Object.entries(UPLOAD_TYPES)
+  .flatMap(([type, { extensions }]) => [type, ...extensions])
+  .join(',');
+
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const getExtension = (filename: string) => {
+  const dot = filename.lastIndexOf('.');
+  return dot === -1 ? '' : filename.slice(dot).toLowerCase();
+};
+
+// Browsers often report HEIC photos with an empty type, so the extension counts too
+export const checkUploadFile = ({ name, size, type }: { name: string; size: number; type: string }): string | undefined => {
+  const extension = getExtension(name);
+  const isKnownType = Object.entries(UPLOAD_TYPES).some(
+    ([mimeType, { extensions }]) => type === mimeType || extensions.includes(extension)
+  );
+  if (!isKnownType) {
+    return `${name} is not a PDF, JPEG, PNG or HEIC file.`;
+  }
+  if (size === 0) return `${name} is empty.`;
+  if (size > UPLOAD_LIMITS.MAX_BYTES) {
+    return `${name} is larger than ${formatFileSize(UPLOAD_LIMITS.MAX_BYTES)}.`;
+  }
+  return undefined;
+};
+
+// Upload ids an enquiry payload lists under `attachments`, or null if the list is malformed
+export const readAttachmentIds = (input: unknown): string[] | null => {
+  const value = input && typeof input === 'object' ? (input as Record<string, unknown>).attachments : undefined;
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > UPLOAD_LIMITS.MAX_FILES) return null;
+  if (!value.every(id => typeof id === 'string' && UPLOAD_ID_PATTERN.test(id))) return null;
+  return Array.from(new Set(value as string[]));
+};
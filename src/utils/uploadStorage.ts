@@ -0,0 +1,16 @@
+// Server-only storage primitives shared by the backends in utils/*UploadStorage.ts.
+// Keys are chosen by the upload store; backends only keep bytes.
+
+export interface UploadStorage {
+  name: string;
+  put: (key: string, data: Buffer, contentType: string) => Promise<void>;
+  // Undefined when nothing is stored under `key`
+  get: (key: string) => Promise<Buffer | undefined>;
+}
+
+export class UploadStorageError extends Error {
+  constructor(storage: string, message: string) {
+    super(`${storage} upload storage failed: ${message}`);
+    this.name = 'UploadStorageError';
+  }
+}
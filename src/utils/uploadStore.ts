@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import path from 'path';
+import type { StoredUpload, UploadedFile } from '../types/uploads';
+import { createJsonLinesStore } from './jsonLinesStore';
+import { sniffMimeType } from './mimeSniffing';
+import { getUploadStorage } from './uploadBackend';
+import { UPLOAD_TYPES } from './uploadRules';
+
+// Server-only: uploaded attachments. The bytes go to the configured storage
+// backend, the metadata to a JSON-lines store so enquiries can claim them by id.
+
+const store = createJsonLinesStore<StoredUpload>('uploads');
+
+export class UnsupportedUploadError extends Error {
+  constructor(filename: string) {
+    super(`${filename} is not a PDF, JPEG, PNG or HEIC file`);
+    this.name = 'UnsupportedUploadError';
+  }
+}
+
+// Keep what a visitor would recognise, drop anything a header or file system might choke on
+const sanitizeFilename = (filename: string) => {
+  const base = path.basename(filename.replace(/\\/g, '/')).replace(/[\x00-\x1f\x7f"<>|:*?\\/]/g, '').trim();
+  return (base || 'attachment').slice(0, 120);
+};
+
+const toUploadedFile = ({ id, filename, contentType, size }: StoredUpload): UploadedFile => ({ id, filename, contentType, size });
+
+export const saveUpload = async (filename: string, data: Buffer): Promise<UploadedFile> => {
+  const contentType = sniffMimeType(data);
+  if (!contentType || !UPLOAD_TYPES[contentType]) {
+    throw new UnsupportedUploadError(filename);
+  }
+
+  const id = crypto.randomUUID();
+  const createdAt = new Date().toISOString();
+  const storageKey = `${createdAt.slice(0, 7)}/${id}${UPLOAD_TYPES[contentType].extensions[0]}`;
+  await getUploadStorage().put(storageKey, data, contentType);
+
+  const upload = await store.append({
+    id,
+    filename: sanitizeFilename(filename),
+    contentType,
+    size: data.length,
+    storageKey,
+    createdAt
+  });
+  return toUploadedFile(upload);
+};
+
+// Attach uploads to an enquiry. Every id must exist and be unclaimed, otherwise
+// nothing is claimed and undefined is returned.
+export const claimUploads = (ids: string[]): Promise<UploadedFile[] | undefined> => {
+  if (ids.length === 0) return Promise.resolve([]);
+
+  return store.transact((uploads) => {
+    const claimed = ids.map(id => uploads.find(upload => upload.id === id && !upload.claimedAt));
+    if (claimed.some(upload => !upload)) return { result: undefined };
+
+    const claimedAt = new Date().toISOString();
+    return {
+      records: uploads.map(upload => (ids.includes(upload.id) ? { ...upload, claimedAt } : upload)),
+      result: (claimed as StoredUpload[]).map(toUploadedFile)
+    };
+  });
+};
+
+// Metadata and bytes of a stored upload, for the admin download route
+export const readUpload = async (id: string) => {
+  const upload = await store.find(id);
+  if (!upload) return undefined;
+  const data = await getUploadStorage().get(upload.storageKey);
+  return data ? { upload: toUploadedFile(upload), data } : undefined;
+};